@@ -1,13 +1,26 @@
-import { useState, useEffect } from 'react'
-import type { VariantType, VariantConstraint, VariantModifier } from 'product-variants-core'
+import { useState, useEffect, useRef } from 'react'
+import type { ChangeEvent } from 'react'
+import { parseProductConfig, serializeProductConfig } from 'product-variants-core'
+import type { VariantType, VariantConstraint, VariantModifier, ProductConfig } from 'product-variants-core'
 import { VariantBuilder } from './components/VariantBuilder'
 import { ConstraintsBuilder } from './components/ConstraintsBuilder'
 import { ModifiersBuilder } from './components/ModifiersBuilder'
 import { VariantTable } from './components/VariantTable'
 import './styles.css'
 
+const CONFIG_STORAGE_KEY = 'pce_config';
+
+// The config saved by the last session, if it still parses
+const loadSavedConfig = (): ProductConfig | undefined => {
+  const saved = localStorage.getItem(CONFIG_STORAGE_KEY);
+  if (!saved) return undefined;
+  const result = parseProductConfig(saved);
+  return result.ok ? result.config : undefined;
+};
+
 function App() {
-  const [variantTypes, setVariantTypes] = useState<VariantType[]>([
+  const [savedConfig] = useState(loadSavedConfig);
+  const [variantTypes, setVariantTypes] = useState<VariantType[]>(savedConfig?.variantTypes ?? [
     {
       value: 'Color',
       variantOptions: [{ value: 'Red' }, { value: 'Blue' }]
@@ -18,8 +31,14 @@ function App() {
     }
   ]);
 
-  const [constraints, setConstraints] = useState<VariantConstraint[]>([]);
-  const [modifiers, setModifiers] = useState<VariantModifier[]>([]);
+  const [constraints, setConstraints] = useState<VariantConstraint[]>(savedConfig?.constraints ?? []);
+  const [modifiers, setModifiers] = useState<VariantModifier[]>(savedConfig?.modifiers ?? []);
+  const importInput = useRef<HTMLInputElement>(null);
+
+  // Keep the config across reloads
+  useEffect(() => {
+    localStorage.setItem(CONFIG_STORAGE_KEY, serializeProductConfig({ variantTypes, constraints, modifiers }));
+  }, [variantTypes, constraints, modifiers]);
   const [hasNewUpdate, setHasNewUpdate] = useState(false);
   const [isNotificationOpen, setIsNotificationOpen] = useState(false);
 
@@ -36,6 +55,30 @@ function App() {
     setIsNotificationOpen(false); // Close on clear
   };
 
+  const exportConfig = () => {
+    const json = serializeProductConfig({ variantTypes, constraints, modifiers });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    link.download = 'product-config.json';
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const importConfig = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = parseProductConfig(await file.text());
+    if (!result.ok) {
+      alert(`Invalid config:\n${result.errors.map(err => `${err.path || '/'}: ${err.message}`).join('\n')}`);
+      return;
+    }
+    setVariantTypes(result.config.variantTypes);
+    setConstraints(result.config.constraints);
+    setModifiers(result.config.modifiers);
+  };
+
   const loadExample = () => {
     // 1. Define Variant Types (Laptop Config)
     const exampleVariants: VariantType[] = [
@@ -99,11 +142,13 @@ function App() {
       // Base Prices
       {
         id: crypto.randomUUID(),
+        phase: 'base',
         if: { typeValue: 'Model', operator: 'equals', optionValue: 'Base' },
         then: [{ field: 'cost', operation: 'set', value: 800 }]
       },
       {
         id: crypto.randomUUID(),
+        phase: 'base',
         if: { typeValue: 'Model', operator: 'equals', optionValue: 'Pro' },
         then: [{ field: 'cost', operation: 'set', value: 1200 }]
       },
@@ -166,6 +211,14 @@ function App() {
               Load Demo
             </button>
 
+            <button className="btn-load-example" onClick={exportConfig} aria-label="Export Config">
+              Export
+            </button>
+            <button className="btn-load-example" onClick={() => importInput.current?.click()} aria-label="Import Config">
+              Import
+            </button>
+            <input ref={importInput} type="file" accept="application/json,.json" hidden onChange={importConfig} />
+
             <div className={`notification-wrapper ${isNotificationOpen ? 'active' : ''}`}>
               <button
                 className="notification-trigger"
@@ -1,4 +1,20 @@
-import type { VariantType, LogicCondition, RecursiveCondition, SimpleCondition } from 'product-variants-core';
+import { isContextCondition, isNumericCondition, isSelectionCondition } from 'product-variants-core';
+import type {
+    VariantType,
+    LogicCondition,
+    RecursiveCondition,
+    SimpleCondition,
+    LeafCondition,
+    ContextCondition,
+    GroupOperator,
+    NumericOperator
+} from 'product-variants-core';
+
+type LeafOperator = NonNullable<SimpleCondition['operator']> | 'selected' | 'unselected' | NumericOperator;
+
+const NUMERIC_OPERATORS: readonly string[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte'];
+
+const CONTEXT_KEYS = ['quantity', 'customerGroup', 'channel', 'date'] as const;
 
 interface ConditionBuilderProps {
     condition: LogicCondition;
@@ -12,8 +28,10 @@ export function ConditionBuilder({ condition, onChange, onRemove, variantTypes,
     const isGroup = (c: LogicCondition): c is RecursiveCondition => 'conditions' in c;
     const isRoot = depth === 0;
 
-    const handleTypeChange = (type: 'rule' | 'AND' | 'OR') => {
-        if (type === 'rule') {
+    const handleTypeChange = (type: 'rule' | 'context' | GroupOperator) => {
+        if (type === 'context') {
+            onChange({ context: 'quantity', operator: 'gte', value: 10 });
+        } else if (type === 'rule') {
             // Convert to simple condition
             const simple: SimpleCondition = {
                 typeValue: variantTypes[0]?.value || '',
@@ -37,10 +55,50 @@ export function ConditionBuilder({ condition, onChange, onRemove, variantTypes,
     };
 
     const updateSimpleField = (field: keyof SimpleCondition, value: any) => {
-        if (isGroup(condition)) return;
+        if (isGroup(condition) || isContextCondition(condition)) return;
         onChange({ ...condition, [field]: value });
     };
 
+    // Switching operators can change the leaf's shape (option / selection / numeric)
+    const updateLeafOperator = (operator: LeafOperator) => {
+        if (isGroup(condition) || isContextCondition(condition)) return;
+        const { typeValue } = condition;
+        let next: LeafCondition;
+        if (operator === 'selected' || operator === 'unselected') {
+            next = { typeValue, operator };
+        } else if (NUMERIC_OPERATORS.includes(operator)) {
+            next = {
+                typeValue,
+                operator: operator as NumericOperator,
+                value: isNumericCondition(condition) ? condition.value : 0,
+                attribute: isNumericCondition(condition) ? condition.attribute : undefined
+            };
+        } else {
+            next = {
+                typeValue,
+                operator: operator as SimpleCondition['operator'],
+                optionValue: 'optionValue' in condition ? condition.optionValue : ''
+            };
+        }
+        onChange(next);
+    };
+
+    const updateNumericField = (field: 'value' | 'attribute', value: string) => {
+        if (isGroup(condition) || !isNumericCondition(condition)) return;
+        onChange(field === 'value'
+            ? { ...condition, value: Number(value) || 0 }
+            : { ...condition, attribute: value || undefined });
+    };
+
+    const updateContextField = (changes: Partial<ContextCondition>) => {
+        if (!isContextCondition(condition)) return;
+        const next = { ...condition, ...changes };
+        // Quantities compare as numbers; everything else is typed in as text
+        if (next.context === 'quantity' && typeof next.value !== 'number') next.value = Number(next.value) || 0;
+        if (next.context !== 'quantity' && typeof next.value === 'number') next.value = String(next.value);
+        onChange(next);
+    };
+
     const addSubCondition = () => {
         if (!isGroup(condition)) return;
         const newRule: SimpleCondition = {
@@ -67,7 +125,7 @@ export function ConditionBuilder({ condition, onChange, onRemove, variantTypes,
         onChange({ ...condition, conditions: newConditions });
     };
 
-    const currentType = isGroup(condition) ? condition.operator : 'rule';
+    const currentType = isGroup(condition) ? condition.operator : isContextCondition(condition) ? 'context' : 'rule';
 
     return (
         <div className="condition-builder" style={{ marginLeft: depth * 20, padding: '5px', borderLeft: depth > 0 ? '2px solid #eee' : 'none' }}>
@@ -75,17 +133,54 @@ export function ConditionBuilder({ condition, onChange, onRemove, variantTypes,
                 {/* Node Type Selector */}
                 <select
                     value={currentType}
-                    onChange={(e) => handleTypeChange(e.target.value as any)}
+                    onChange={(e) => handleTypeChange(e.target.value as 'rule' | 'context' | GroupOperator)}
                     className="input-xs"
                     style={{ fontWeight: isGroup(condition) ? 'bold' : 'normal', width: 'auto' }}
                 >
                     <option value="rule">Single Rule</option>
+                    <option value="context">Order Context</option>
                     <option value="AND">Group (AND)</option>
                     <option value="OR">Group (OR)</option>
+                    <option value="XOR">Group (exactly one)</option>
+                    <option value="NOT">Group (NOT / none of)</option>
                 </select>
 
+                {/* Context Condition Inputs */}
+                {isContextCondition(condition) && (
+                    <>
+                        <span className="keyword">IF</span>
+                        <select
+                            value={condition.context}
+                            onChange={(e) => updateContextField({ context: e.target.value })}
+                        >
+                            {CONTEXT_KEYS.map(key => <option key={key} value={key}>{key}</option>)}
+                        </select>
+
+                        <select
+                            value={condition.operator || 'equals'}
+                            onChange={(e) => updateContextField({ operator: e.target.value as ContextCondition['operator'] })}
+                            style={{ width: 'auto' }}
+                        >
+                            <option value="equals">is (=)</option>
+                            <option value="not_equals">is not (!=)</option>
+                            <option value="gte">&ge;</option>
+                            <option value="gt">&gt;</option>
+                            <option value="lte">&le;</option>
+                            <option value="lt">&lt;</option>
+                        </select>
+
+                        <input
+                            type={condition.context === 'quantity' ? 'number' : condition.context === 'date' ? 'date' : 'text'}
+                            className="input-sm"
+                            value={String(condition.value)}
+                            onChange={(e) => updateContextField({ value: e.target.value })}
+                            style={{ width: '120px' }}
+                        />
+                    </>
+                )}
+
                 {/* Simple Condition Inputs */}
-                {!isGroup(condition) && (
+                {!isGroup(condition) && !isContextCondition(condition) && (
                     <>
                         <span className="keyword">IF</span>
                         <select
@@ -97,24 +192,54 @@ export function ConditionBuilder({ condition, onChange, onRemove, variantTypes,
 
                         <select
                             value={condition.operator || 'equals'}
-                            onChange={(e) => updateSimpleField('operator', e.target.value)}
+                            onChange={(e) => updateLeafOperator(e.target.value as LeafOperator)}
                             style={{ width: 'auto' }}
                         >
                             <option value="equals">is (=)</option>
                             <option value="not_equals">is not (!=)</option>
                             <option value="in">is one of</option>
                             <option value="not_in">is not one of</option>
+                            <option value="selected">is selected</option>
+                            <option value="unselected">is not selected</option>
+                            <option value="gte">&ge; number</option>
+                            <option value="gt">&gt; number</option>
+                            <option value="lte">&le; number</option>
+                            <option value="lt">&lt; number</option>
+                            <option value="eq">= number</option>
+                            <option value="neq">&ne; number</option>
                         </select>
 
-                        <select
-                            value={condition.optionValue as string} // Todo: handle array for 'in'
-                            onChange={(e) => updateSimpleField('optionValue', e.target.value)}
-                        >
-                            <option value="">Select Option...</option>
-                            {variantTypes.find(t => t.value === condition.typeValue)?.variantOptions.map(o => (
-                                <option key={o.value} value={o.value}>{o.value}</option>
-                            ))}
-                        </select>
+                        {isNumericCondition(condition) && (
+                            <>
+                                <input
+                                    type="number"
+                                    className="input-sm"
+                                    value={condition.value}
+                                    onChange={(e) => updateNumericField('value', e.target.value)}
+                                    style={{ width: '80px' }}
+                                />
+                                <input
+                                    type="text"
+                                    className="input-sm"
+                                    value={condition.attribute ?? ''}
+                                    onChange={(e) => updateNumericField('attribute', e.target.value)}
+                                    placeholder="attribute (optional)"
+                                    style={{ width: '140px' }}
+                                />
+                            </>
+                        )}
+
+                        {!isNumericCondition(condition) && !isSelectionCondition(condition) && (
+                            <select
+                                value={condition.optionValue as string} // Todo: handle array for 'in'
+                                onChange={(e) => updateSimpleField('optionValue', e.target.value)}
+                            >
+                                <option value="">Select Option...</option>
+                                {variantTypes.find(t => t.value === condition.typeValue)?.variantOptions.map(o => (
+                                    <option key={o.value} value={o.value}>{o.value}</option>
+                                ))}
+                            </select>
+                        )}
                     </>
                 )}
 
@@ -1,4 +1,11 @@
-import type { VariantType, VariantConstraint } from 'product-variants-core';
+import { isConditionalConstraint } from 'product-variants-core';
+import type {
+    VariantType,
+    VariantConstraint,
+    ConditionalConstraint,
+    ConstraintEffect,
+    ForbiddenTuplesConstraint
+} from 'product-variants-core';
 import { ConditionBuilder } from './ConditionBuilder';
 
 interface ConstraintsBuilderProps {
@@ -17,28 +24,59 @@ export function ConstraintsBuilder({ variantTypes, constraints, onChange }: Cons
         onChange([...constraints, newConstraint]);
     };
 
+    const addForbiddenCombination = () => {
+        const newConstraint: ForbiddenTuplesConstraint = {
+            id: crypto.randomUUID(),
+            kind: 'forbidden-tuples',
+            typeValues: [],
+            tuples: [[]]
+        };
+        onChange([...constraints, newConstraint]);
+    };
+
     const removeConstraint = (index: number) => {
         onChange(constraints.filter((_, i) => i !== index));
     };
 
-    const updateConstraint = (index: number, partial: Partial<VariantConstraint>) => {
+    const updateConstraint = (index: number, partial: Partial<ConditionalConstraint>) => {
+        const current = constraints[index];
+        if (!isConditionalConstraint(current)) return;
         const next = [...constraints];
-        next[index] = { ...next[index], ...partial };
+        next[index] = { ...current, ...partial };
         onChange(next);
     };
 
-    const updateThen = (index: number, field: keyof VariantConstraint['then'], value: any) => {
+    const updateThen = (index: number, field: keyof ConstraintEffect, value: any) => {
         const current = constraints[index];
+        if (!isConditionalConstraint(current)) return;
         updateConstraint(index, { then: { ...current.then, [field]: value } });
     };
 
+    // One forbidden tuple over the types that have an option picked
+    const updateForbiddenOption = (index: number, typeValue: string, optionValue: string) => {
+        const current = constraints[index];
+        if (current.kind !== 'forbidden-tuples') return;
+        const picked = new Map(current.typeValues.map((t, i) => [t, current.tuples[0]?.[i] ?? '']));
+        if (optionValue) picked.set(typeValue, optionValue);
+        else picked.delete(typeValue);
+        const typeValues = variantTypes.map(t => t.value).filter(t => picked.has(t));
+        const next = [...constraints];
+        next[index] = { ...current, typeValues, tuples: [typeValues.map(t => picked.get(t)!)] };
+        onChange(next);
+    };
+
     return (
         <div className="constraints-builder">
             <div className="header-row">
                 <h2>Constraints</h2>
-                <button onClick={addConstraint} className="btn-primary" disabled={variantTypes.length < 2}>
-                    <span>+</span> Add Rule
-                </button>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    <button onClick={addForbiddenCombination} className="btn-secondary" disabled={variantTypes.length < 2}>
+                        <span>+</span> Forbidden Combination
+                    </button>
+                    <button onClick={addConstraint} className="btn-primary" disabled={variantTypes.length < 2}>
+                        <span>+</span> Add Rule
+                    </button>
+                </div>
             </div>
             <p style={{ marginTop: '0.5rem', marginBottom: '1.5rem', fontSize: '0.9rem', color: 'var(--color-text-secondary)' }}>
                 Constraints restrict which combinations are valid. <br />
@@ -53,6 +91,38 @@ export function ConstraintsBuilder({ variantTypes, constraints, onChange }: Cons
 
             <div className="rules-list">
                 {constraints.map((constraint, idx) => {
+                    if (!isConditionalConstraint(constraint)) {
+                        return (
+                            <div key={constraint.id} className="rule-card">
+                                <div className="rule-header">
+                                    <span className="rule-index">Rule #{idx + 1} ({constraint.kind})</span>
+                                    <button
+                                        className="btn-icon danger sm"
+                                        onClick={() => removeConstraint(idx)}
+                                        title="Remove Rule"
+                                    >&times;</button>
+                                </div>
+                                {constraint.kind === 'forbidden-tuples' && (
+                                    <div className="logic-group">
+                                        <span className="keyword">NEVER</span>
+                                        {variantTypes.map(t => {
+                                            const i = constraint.typeValues.indexOf(t.value);
+                                            return (
+                                                <select
+                                                    key={t.value}
+                                                    value={i < 0 ? '' : constraint.tuples[0]?.[i] ?? ''}
+                                                    onChange={(e) => updateForbiddenOption(idx, t.value, e.target.value)}
+                                                >
+                                                    <option value="">any {t.value}</option>
+                                                    {t.variantOptions.map(o => <option key={o.value} value={o.value}>{o.value}</option>)}
+                                                </select>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    }
                     return (
                         <div key={constraint.id} className="rule-card">
                             <div className="rule-header">
@@ -90,6 +160,7 @@ export function ConstraintsBuilder({ variantTypes, constraints, onChange }: Cons
                                     >
                                         <option value="allow">must be</option>
                                         <option value="disallow">cannot be</option>
+                                        <option value="require">is required (any of)</option>
                                     </select>
 
                                     <div className="multi-select">
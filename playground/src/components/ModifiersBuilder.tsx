@@ -1,6 +1,26 @@
-import type { VariantType, VariantModifier } from 'product-variants-core';
+import { MODIFIER_PHASES, sortModifiers, validateExpression } from 'product-variants-core';
+import type { VariantType, VariantModifier, ModifierPhase, ModifierAction, ModifierOperation } from 'product-variants-core';
 import { ConditionBuilder } from './ConditionBuilder';
 
+// Fields a formula may read, e.g. "base.cost * 1.1" or "sku + '-XL'"
+const EXPRESSION_FIELDS = ['variantKey', 'title', 'sku', 'cost', 'stock'];
+
+// Operations each editable field supports (the same ones ModifierAction allows for its type)
+const FIELD_OPERATIONS: Record<string, { value: ModifierOperation; label: string }[]> = {
+    cost: [
+        { value: 'add', label: 'Add (+)' },
+        { value: 'subtract', label: 'Subtract (-)' },
+        { value: 'multiply', label: 'Multiply (×)' },
+        { value: 'set', label: 'Set (=)' },
+        { value: 'round', label: 'Round to' }
+    ],
+    sku: [
+        { value: 'append', label: 'Append' },
+        { value: 'add', label: 'Add (+)' },
+        { value: 'set', label: 'Set (=)' }
+    ]
+};
+
 interface ModifiersBuilderProps {
     variantTypes: VariantType[];
     modifiers: VariantModifier[];
@@ -27,6 +47,9 @@ export function ModifiersBuilder({ variantTypes, modifiers, onChange }: Modifier
         onChange(next);
     };
 
+    // Position of each modifier in the order applyModifiers runs them
+    const runOrder = new Map(sortModifiers(modifiers).map((m, i) => [m.id, i + 1]));
+
     const updateThen = (modIndex: number, actionIndex: number, field: string, value: any) => {
         const currentMod = modifiers[modIndex];
         const newThen = [...currentMod.then];
@@ -34,6 +57,41 @@ export function ModifiersBuilder({ variantTypes, modifiers, onChange }: Modifier
         updateModifier(modIndex, { then: newThen });
     };
 
+    // Keeps the operation and value valid for the new field's type
+    const changeField = (modIndex: number, actionIndex: number, field: string) => {
+        const newThen = [...modifiers[modIndex].then];
+        const current = newThen[actionIndex];
+        const operations = FIELD_OPERATIONS[field].map(o => o.value);
+        newThen[actionIndex] = {
+            ...current,
+            field,
+            operation: operations.includes(current.operation) ? current.operation : operations[0],
+            value: field === 'sku' ? '' : 0
+        } as ModifierAction;
+        updateModifier(modIndex, { then: newThen });
+    };
+
+    // Switches an action between a constant value and a formula
+    const toggleExpression = (modIndex: number, actionIndex: number, enabled: boolean) => {
+        const newThen = [...modifiers[modIndex].then];
+        const action = { ...newThen[actionIndex] };
+        if (enabled) {
+            action.operation = 'set';
+            action.expression = action.field === 'cost' ? 'base.cost' : 'sku';
+        } else {
+            delete action.expression;
+            action.value ??= action.field === 'sku' ? '' : 0;
+        }
+        newThen[actionIndex] = action;
+        updateModifier(modIndex, { then: newThen });
+    };
+
+    const expressionErrors = (action: ModifierAction) =>
+        validateExpression(action.expression ?? '', {
+            fields: EXPRESSION_FIELDS,
+            typeValues: variantTypes.map(t => t.value)
+        });
+
     return (
         <div className="modifiers-builder">
             <div className="header-row">
@@ -44,13 +102,14 @@ export function ModifiersBuilder({ variantTypes, modifiers, onChange }: Modifier
             </div>
             <p style={{ marginTop: '0.5rem', marginBottom: '1.5rem', fontSize: '0.9rem', color: 'var(--color-text-secondary)' }}>
                 Modifiers change the properties of a variant based on selections. <br />
-                <strong>Example:</strong> <em>"IF Size is XXL THEN Cost + 5"</em> increases the price for larger sizes.
+                <strong>Example:</strong> <em>"IF Size is XXL THEN Cost + 5"</em> increases the price for larger sizes. <br />
+                Modifiers run by phase, then by priority (highest first), never by their position in this list.
             </p>
             <div className="rules-list">
                 {modifiers.map((modifier, idx) => (
                     <div key={modifier.id} className="rule-card">
                         <div className="rule-header">
-                            <span className="rule-index">Modifier #{idx + 1}</span>
+                            <span className="rule-index">Modifier #{idx + 1} · runs {runOrder.get(modifier.id)} of {modifiers.length}</span>
                             <button
                                 className="btn-icon danger sm"
                                 onClick={() => removeModifier(idx)}
@@ -59,6 +118,41 @@ export function ModifiersBuilder({ variantTypes, modifiers, onChange }: Modifier
                         </div>
 
                         <div className="rule-logic">
+                            <div className="logic-group">
+                                <span className="keyword">PHASE</span>
+                                <select
+                                    value={modifier.phase ?? 'surcharge'}
+                                    onChange={(e) => updateModifier(idx, { phase: e.target.value as ModifierPhase })}
+                                >
+                                    {MODIFIER_PHASES.map((phase) => (
+                                        <option key={phase} value={phase}>{phase}</option>
+                                    ))}
+                                </select>
+                                <span className="keyword">PRIORITY</span>
+                                <input
+                                    type="number"
+                                    className="input-sm"
+                                    value={modifier.priority ?? 0}
+                                    onChange={(e) => updateModifier(idx, { priority: Number(e.target.value) || 0 })}
+                                />
+                                <label className="checkbox-label" title="Skip the other modifiers of this phase when this one applies">
+                                    <input
+                                        type="checkbox"
+                                        checked={!!modifier.exclusive}
+                                        onChange={(e) => updateModifier(idx, { exclusive: e.target.checked })}
+                                    />
+                                    Exclusive
+                                </label>
+                                <label className="checkbox-label" title="Skip all later modifiers when this one applies">
+                                    <input
+                                        type="checkbox"
+                                        checked={!!modifier.stop}
+                                        onChange={(e) => updateModifier(idx, { stop: e.target.checked })}
+                                    />
+                                    Stop
+                                </label>
+                            </div>
+
                             {/* Recursive IF Condition */}
                             <div className="logic-group" style={{ alignItems: 'flex-start', flexDirection: 'column', gap: '5px' }}>
                                 <ConditionBuilder
@@ -74,31 +168,58 @@ export function ModifiersBuilder({ variantTypes, modifiers, onChange }: Modifier
                                     <div key={actionIdx} className="action-row">
                                         <select
                                             value={action.field}
-                                            onChange={(e) => updateThen(idx, actionIdx, 'field', e.target.value)}
+                                            onChange={(e) => changeField(idx, actionIdx, e.target.value)}
                                         >
                                             <option value="cost">Cost</option>
-                                            <option value="sku">SKU Suffix</option>
+                                            <option value="sku">SKU</option>
                                         </select>
 
                                         <select
                                             value={action.operation}
                                             onChange={(e) => updateThen(idx, actionIdx, 'operation', e.target.value)}
                                         >
-                                            <option value="add">Add (+)</option>
-                                            <option value="subtract">Subtract (-)</option>
-                                            <option value="set">Set (=)</option>
+                                            {FIELD_OPERATIONS[action.field]?.map(o => (
+                                                <option key={o.value} value={o.value}>{o.label}</option>
+                                            ))}
                                         </select>
 
-                                        <input
-                                            type="text"
-                                            className="input-sm"
-                                            value={action.value}
-                                            onChange={(e) => {
-                                                const val = action.field === 'sku' ? e.target.value : Number(e.target.value) || 0;
-                                                updateThen(idx, actionIdx, 'value', val);
-                                            }}
-                                            placeholder="Value"
-                                        />
+                                        {action.expression !== undefined ? (
+                                            <div className="expression-field">
+                                                <input
+                                                    type="text"
+                                                    className={expressionErrors(action).length ? 'input-expression invalid' : 'input-expression'}
+                                                    value={action.expression}
+                                                    onChange={(e) => updateThen(idx, actionIdx, 'expression', e.target.value)}
+                                                    placeholder='base.cost * 1.1 or "{Model}-{RAM}"'
+                                                    spellCheck={false}
+                                                />
+                                                {expressionErrors(action).map((error, i) => (
+                                                    <div key={i} className="expression-error">
+                                                        {error.message} (at column {error.position + 1})
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        ) : (
+                                            <input
+                                                type="text"
+                                                className="input-sm"
+                                                value={String(action.value ?? '')}
+                                                onChange={(e) => {
+                                                    const val = action.field === 'sku' ? e.target.value : Number(e.target.value) || 0;
+                                                    updateThen(idx, actionIdx, 'value', val);
+                                                }}
+                                                placeholder="Value"
+                                            />
+                                        )}
+
+                                        <label className="checkbox-label" title="Compute the value with a formula">
+                                            <input
+                                                type="checkbox"
+                                                checked={action.expression !== undefined}
+                                                onChange={(e) => toggleExpression(idx, actionIdx, e.target.checked)}
+                                            />
+                                            Formula
+                                        </label>
                                     </div>
                                 ))}
                             </div>
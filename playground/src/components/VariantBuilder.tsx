@@ -1,4 +1,4 @@
-import type { VariantType } from 'product-variants-core';
+import type { VariantType, VariantOption, VariantSelectionMode } from 'product-variants-core';
 
 interface VariantBuilderProps {
     variantTypes: VariantType[];
@@ -16,6 +16,19 @@ export function VariantBuilder({ variantTypes, onChange }: VariantBuilderProps)
         onChange(next);
     };
 
+    const updateSelectionMode = (index: number, selectionMode: VariantSelectionMode) => {
+        const next = [...variantTypes];
+        next[index] = { ...next[index], selectionMode, minSelections: undefined, maxSelections: undefined };
+        onChange(next);
+    };
+
+    const updateLimit = (index: number, field: 'minSelections' | 'maxSelections', raw: string) => {
+        const next = [...variantTypes];
+        const n = parseInt(raw, 10);
+        next[index] = { ...next[index], [field]: Number.isFinite(n) ? n : undefined };
+        onChange(next);
+    };
+
     const removeType = (index: number) => {
         onChange(variantTypes.filter((_, i) => i !== index));
     };
@@ -30,11 +43,11 @@ export function VariantBuilder({ variantTypes, onChange }: VariantBuilderProps)
         onChange(next);
     };
 
-    const updateOption = (typeIndex: number, optionIndex: number, newValue: string) => {
+    const updateOption = (typeIndex: number, optionIndex: number, partial: Partial<VariantOption>) => {
         const next = [...variantTypes];
         const type = next[typeIndex];
         const newOptions = [...type.variantOptions];
-        newOptions[optionIndex] = { value: newValue };
+        newOptions[optionIndex] = { ...newOptions[optionIndex], ...partial };
         next[typeIndex] = { ...type, variantOptions: newOptions };
         onChange(next);
     };
@@ -77,15 +90,53 @@ export function VariantBuilder({ variantTypes, onChange }: VariantBuilderProps)
                             >&times;</button>
                         </div>
 
+                        <div className="type-mode">
+                            <select
+                                value={type.selectionMode ?? 'single'}
+                                onChange={(e) => updateSelectionMode(tIdx, e.target.value as VariantSelectionMode)}
+                                title="How many options a variant has"
+                            >
+                                <option value="single">Exactly one</option>
+                                <option value="optional-single">None or one</option>
+                                <option value="multi">Any of</option>
+                            </select>
+                            {type.selectionMode === 'multi' && (
+                                <>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        value={type.minSelections ?? ''}
+                                        onChange={(e) => updateLimit(tIdx, 'minSelections', e.target.value)}
+                                        placeholder="min"
+                                    />
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        value={type.maxSelections ?? ''}
+                                        onChange={(e) => updateLimit(tIdx, 'maxSelections', e.target.value)}
+                                        placeholder="max"
+                                    />
+                                </>
+                            )}
+                        </div>
+
                         <div className="options-grid">
                             {type.variantOptions.map((opt, oIdx) => (
                                 <div key={oIdx} className="option-chip">
                                     <input
                                         type="text"
                                         value={opt.value}
-                                        onChange={(e) => updateOption(tIdx, oIdx, e.target.value)}
+                                        onChange={(e) => updateOption(tIdx, oIdx, { value: e.target.value })}
                                         placeholder="Value"
                                     />
+                                    <input
+                                        type="text"
+                                        className="option-code"
+                                        value={opt.code ?? ''}
+                                        onChange={(e) => updateOption(tIdx, oIdx, { code: e.target.value || undefined })}
+                                        placeholder="SKU code"
+                                        title="Used by {Type:code} in SKU templates"
+                                    />
                                     <button
                                         className="remove-opt-btn"
                                         onClick={() => removeOption(tIdx, oIdx)}
@@ -1,12 +1,30 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import {
+    applyVariantTemplates,
     generateChildVariants,
+    validateVariantTemplate,
     variantKeyToLabel,
     variantKeyToSelection,
-    validateSelection,
-    applyModifiers
+    compileConstraints,
+    explainSelection,
+    formatMoney,
+    traceModifiers
 } from 'product-variants-core';
-import type { VariantType, VariantConstraint, VariantModifier, ChildVariant } from 'product-variants-core';
+import type { VariantType, VariantConstraint, VariantModifier, ChildVariant, ModifierTraceStep, EvaluationContext } from 'product-variants-core';
+
+const TEMPLATE_VARIABLES = { product: 'PROD' };
+
+// One line per applied action, e.g. "Pro: cost set 1200 (100 → 1200)"
+function formatBreakdown(steps: ModifierTraceStep[]): string {
+    return steps
+        .filter(step => step.status === 'applied' && step.action)
+        .map(step => {
+            const { field, operation, value, expression } = step.action!;
+            const change = expression === undefined ? value : `${expression} = ${value}`;
+            return `${step.description ?? step.modifierId}: ${field} ${operation} ${change} (${step.before ?? '-'} → ${step.after})`;
+        })
+        .join('\n');
+}
 
 interface VariantTableProps {
     variantTypes: VariantType[];
@@ -15,65 +33,125 @@ interface VariantTableProps {
 }
 
 export function VariantTable({ variantTypes, constraints, modifiers }: VariantTableProps) {
-    const children = useMemo(() => {
+    // Empty templates fall back to these defaults
+    const [skuTemplate, setSkuTemplate] = useState('');
+    const [titleTemplate, setTitleTemplate] = useState('');
+    const defaultSkuTemplate = ['{product}', ...variantTypes.map(t => `{${t.value}:code:upper}`)].join('-');
+    const defaultTitleTemplate = '{product} {label}';
+    const sku = skuTemplate || defaultSkuTemplate;
+    const title = titleTemplate || defaultTitleTemplate;
+
+    const skuErrors = validateVariantTemplate(sku, variantTypes, TEMPLATE_VARIABLES);
+    const titleErrors = validateVariantTemplate(title, variantTypes, TEMPLATE_VARIABLES);
+    const templatesValid = skuErrors.length === 0 && titleErrors.length === 0;
+
+    // Order context for quantity breaks and customer price lists
+    const [quantity, setQuantity] = useState(1);
+    const [customerGroup, setCustomerGroup] = useState('retail');
+    const context = useMemo<EvaluationContext>(() => ({ quantity, customerGroup }), [quantity, customerGroup]);
+
+    const { children, duplicates } = useMemo(() => {
         try {
-            return generateChildVariants(variantTypes);
+            const generated = generateChildVariants(variantTypes);
+            if (!templatesValid) return { children: generated, duplicates: [] };
+            return applyVariantTemplates(generated, variantTypes, { sku, title, variables: TEMPLATE_VARIABLES });
         } catch (e) {
             console.error(e);
-            return [];
+            return { children: [], duplicates: [] };
         }
-    }, [variantTypes]);
+    }, [variantTypes, sku, title, templatesValid]);
+
+    const validator = useMemo(
+        () => compileConstraints(variantTypes, constraints, { context }),
+        [variantTypes, constraints, context]
+    );
 
     const processedChildren = useMemo(() => {
         return children.map(child => {
             const selection = variantKeyToSelection(child.variantKey, variantTypes);
-            const validation = validateSelection(selection, constraints);
+            const validation = validator.validateVariantKey(child.variantKey);
 
             let finalChild = { ...child };
+            let breakdown = '';
             if (validation.valid) {
                 // Base product with initial cost 0, stock 0 etc. if not defined
                 const base: ChildVariant = {
                     ...child,
-                    cost: 100, // Demo base cost
-                    sku: `PROD-${child.variantKey}`
+                    cost: 100 // Demo base cost
                 };
-                finalChild = applyModifiers(base, selection, modifiers);
+                const trace = traceModifiers(base, selection, modifiers, { money: { currency: 'USD' }, context });
+                finalChild = trace.result;
+                breakdown = formatBreakdown(trace.steps);
             }
 
             return {
                 ...finalChild,
                 isValid: validation.valid,
-                blockedBy: validation.blockedBy
+                breakdown,
+                blockedReasons: validation.valid
+                    ? []
+                    : explainSelection(selection, constraints, { context }).violations.map(v => v.message)
             };
         });
-    }, [children, variantTypes, constraints, modifiers]);
-
-    const getConstraintReason = (constraintIds?: string[]) => {
-        if (!constraintIds || constraintIds.length === 0) return null;
-
-        return constraintIds.map(constraintId => {
-            const constraint = constraints.find(c => c.id === constraintId);
-            if (!constraint) return 'Unknown constraint';
-
-            // Cast to any to handle Union types (Simple vs Logic) for display
-            const cond = constraint.if as any;
-
-            let ifPart = '';
-            if (cond.typeValue) {
-                ifPart = `IF ${cond.typeValue} ${cond.operator} '${cond.optionValue}'`;
-            } else {
-                ifPart = `IF [Complex Condition]`;
-            }
-
-            const thenPart = `THEN ${constraint.then.typeValue} ${constraint.then.action} [${constraint.then.options.join(', ')}]`;
-
-            return `${ifPart} ${thenPart}`;
-        }).join('; ');
-    };
+    }, [children, variantTypes, constraints, validator, modifiers, context]);
 
     return (
         <div className="variant-table-container">
             <h2>Generated Combinations <span>({children.length})</span></h2>
+            <div className="template-row">
+                <label>
+                    <span className="keyword">SKU</span>
+                    <input
+                        type="text"
+                        className="input-expression"
+                        value={skuTemplate}
+                        onChange={(e) => setSkuTemplate(e.target.value)}
+                        placeholder={defaultSkuTemplate}
+                        spellCheck={false}
+                    />
+                </label>
+                <label>
+                    <span className="keyword">TITLE</span>
+                    <input
+                        type="text"
+                        className="input-expression"
+                        value={titleTemplate}
+                        onChange={(e) => setTitleTemplate(e.target.value)}
+                        placeholder={defaultTitleTemplate}
+                        spellCheck={false}
+                    />
+                </label>
+            </div>
+            <div className="template-row">
+                <label>
+                    <span className="keyword">QTY</span>
+                    <input
+                        type="number"
+                        className="input-sm"
+                        min={1}
+                        value={quantity}
+                        onChange={(e) => setQuantity(Number(e.target.value) || 1)}
+                        style={{ width: '80px' }}
+                    />
+                </label>
+                <label>
+                    <span className="keyword">CUSTOMER</span>
+                    <select value={customerGroup} onChange={(e) => setCustomerGroup(e.target.value)}>
+                        <option value="retail">retail</option>
+                        <option value="b2b">b2b</option>
+                    </select>
+                </label>
+            </div>
+            {[...skuErrors, ...titleErrors].map((error, i) => (
+                <div key={i} className="expression-error">
+                    {error.message} (at column {error.position + 1})
+                </div>
+            ))}
+            {duplicates.map(d => (
+                <div key={d.sku} className="expression-error">
+                    Duplicate SKU "{d.sku}": {d.variantKeys.join(', ')}
+                </div>
+            ))}
             <table className="data-table">
                 <thead>
                     <tr>
@@ -81,13 +159,14 @@ export function VariantTable({ variantTypes, constraints, modifiers }: VariantTa
                         <th>Variant Key</th>
                         <th>Status</th>
                         <th>SKU</th>
+                        <th>Title</th>
                         <th>Cost</th>
                     </tr>
                 </thead>
                 <tbody>
                     {processedChildren.length === 0 ? (
                         <tr>
-                            <td colSpan={5} className="empty-state">
+                            <td colSpan={6} className="empty-state">
                                 Add variant options to see combinations generated here.
                             </td>
                         </tr>
@@ -100,7 +179,7 @@ export function VariantTable({ variantTypes, constraints, modifiers }: VariantTa
                                     <div style={{ fontSize: '0.8rem', marginTop: '0.2rem', color: 'var(--color-text-secondary)' }}>
                                         {variantKeyToLabel(child.variantKey, variantTypes)}
                                     </div>
-                                    {!child.isValid && child.blockedBy && (
+                                    {!child.isValid && child.blockedReasons.length > 0 && (
                                         <div style={{
                                             marginTop: '0.4rem',
                                             fontSize: '0.75rem',
@@ -110,7 +189,7 @@ export function VariantTable({ variantTypes, constraints, modifiers }: VariantTa
                                             borderRadius: '4px',
                                             display: 'inline-block'
                                         }}>
-                                            <strong>Blocked:</strong> {getConstraintReason(child.blockedBy)}
+                                            <strong>Blocked:</strong> {child.blockedReasons.join(' ')}
                                         </div>
                                     )}
                                 </td>
@@ -124,9 +203,12 @@ export function VariantTable({ variantTypes, constraints, modifiers }: VariantTa
                                 <td className="sku-cell">
                                     {child.isValid ? child.sku : '-'}
                                 </td>
+                                <td>{child.isValid ? child.title : '-'}</td>
                                 <td>
                                     {child.isValid ? (
-                                        <span className="diff-val">${child.cost}</span>
+                                        <span className="diff-val" title={child.breakdown || 'No modifiers applied'}>
+                                            {child.cost == null ? '-' : formatMoney(child.cost, 'USD', { locale: 'en-US' })}
+                                        </span>
                                     ) : '-'}
                                 </td>
                             </tr>
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeConstraints } from '../analysis';
+import type { VariantConstraint } from '../constraints';
+import type { VariantType } from '../index';
+
+describe('Constraint Analysis', () => {
+    const variantTypes: VariantType[] = [
+        { value: 'Color', variantOptions: [{ value: 'Red' }, { value: 'Blue' }] },
+        { value: 'Size', variantOptions: [{ value: 'S' }, { value: 'M' }, { value: 'L' }] }
+    ];
+
+    const codes = (constraints: VariantConstraint[]) =>
+        analyzeConstraints(variantTypes, constraints).diagnostics.map(d => d.code);
+
+    it('should accept a clean rule set', () => {
+        const result = analyzeConstraints(variantTypes, [
+            {
+                id: 'red-large',
+                if: { typeValue: 'Color', optionValue: 'Red' },
+                then: { typeValue: 'Size', action: 'allow', options: ['L'] }
+            }
+        ]);
+        expect(result).toEqual({ valid: true, diagnostics: [] });
+    });
+
+    it('should report broken references and duplicate ids', () => {
+        const result = analyzeConstraints(variantTypes, [
+            {
+                id: 'dup',
+                if: { typeValue: 'Colour', optionValue: 'Red' },
+                then: { typeValue: 'Size', action: 'allow', options: ['XL', 'S'] }
+            },
+            {
+                id: 'dup',
+                if: { typeValue: 'Color', optionValue: 'Grey' },
+                then: { typeValue: 'Fit', action: 'disallow', options: ['Slim'] }
+            }
+        ]);
+
+        expect(result.valid).toBe(false);
+        expect(result.diagnostics.map(d => [d.code, d.typeValue, d.optionValue])).toEqual([
+            ['duplicate-id', undefined, undefined],
+            ['unknown-type', 'Colour', undefined],
+            ['unsatisfiable-condition', undefined, undefined],
+            ['unknown-option', 'Size', 'XL'],
+            ['unknown-option', 'Color', 'Grey'],
+            ['unsatisfiable-condition', undefined, undefined],
+            ['unknown-type', 'Fit', undefined]
+        ]);
+    });
+
+    it('should flag conditions that can never be true', () => {
+        expect(codes([
+            {
+                id: 'never',
+                if: {
+                    operator: 'AND',
+                    conditions: [
+                        { typeValue: 'Color', optionValue: 'Red' },
+                        { typeValue: 'Color', optionValue: 'Blue' }
+                    ]
+                },
+                then: { typeValue: 'Size', action: 'allow', options: ['S'] }
+            },
+            {
+                id: 'empty',
+                if: { operator: 'OR', conditions: [] },
+                then: { typeValue: 'Size', action: 'allow', options: ['S'] }
+            }
+        ])).toEqual(['unsatisfiable-condition', 'empty-group', 'unsatisfiable-condition']);
+    });
+
+    it('should report contradicting allow/disallow pairs', () => {
+        const result = analyzeConstraints(variantTypes, [
+            {
+                id: 'red-small',
+                if: { typeValue: 'Color', optionValue: 'Red' },
+                then: { typeValue: 'Size', action: 'allow', options: ['S'] }
+            },
+            {
+                id: 'no-small',
+                if: { typeValue: 'Size', operator: 'in', optionValue: ['S', 'M', 'L'] },
+                then: { typeValue: 'Size', action: 'disallow', options: ['S'] }
+            }
+        ]);
+
+        expect(result.valid).toBe(false);
+        expect(result.diagnostics.map(d => [d.code, d.constraintIds])).toEqual([
+            ['conflict', ['red-small', 'no-small']],
+            ['unreachable-option', []],
+            ['unreachable-option', []]
+        ]);
+        expect(result.diagnostics.slice(1).map(d => `${d.typeValue}:${d.optionValue}`)).toEqual(['Color:Red', 'Size:S']);
+    });
+
+    it('should report rules that block everything or nothing', () => {
+        expect(codes([
+            {
+                id: 'all',
+                if: { typeValue: 'Color', optionValue: 'Blue' },
+                then: { typeValue: 'Size', action: 'allow', options: [] }
+            },
+            {
+                id: 'none',
+                if: { typeValue: 'Color', optionValue: 'Red' },
+                then: { typeValue: 'Size', action: 'disallow', options: [] }
+            }
+        ])).toEqual(['blocks-all-options', 'no-effect', 'unreachable-option']);
+    });
+
+    it('should report when no combination is valid at all', () => {
+        expect(codes([
+            {
+                id: 'no-red',
+                if: { typeValue: 'Size', operator: 'in', optionValue: ['S', 'M', 'L'] },
+                then: { typeValue: 'Color', action: 'disallow', options: ['Red'] }
+            },
+            {
+                id: 'no-blue',
+                if: { typeValue: 'Size', operator: 'in', optionValue: ['S', 'M', 'L'] },
+                then: { typeValue: 'Color', action: 'disallow', options: ['Blue'] }
+            }
+        ])).toEqual(['conflict', 'no-valid-combination']);
+    });
+
+    it('should check references of other constraint kinds', () => {
+        const result = analyzeConstraints(variantTypes, [
+            { id: 'pair', kind: 'mutually-exclusive', options: [{ typeValue: 'Color', optionValue: 'Red' }, { typeValue: 'Size', optionValue: 'XL' }] },
+            { id: 'tuple', kind: 'forbidden-tuples', typeValues: ['Fit', 'Size'], tuples: [['Slim', 'S'], ['Wide', 'S']] },
+            { id: 'blue-small', kind: 'forbidden-tuples', typeValues: ['Color', 'Size'], tuples: [['Blue', 'S']] }
+        ]);
+        expect(result.diagnostics.map(d => [d.code, d.constraintIds[0], d.typeValue, d.optionValue])).toEqual([
+            ['unknown-option', 'pair', 'Size', 'XL'],
+            ['unknown-type', 'tuple', 'Fit', undefined]
+        ]);
+    });
+
+    it('should not flag options that are only reachable with an optional type left empty', () => {
+        const types: VariantType[] = [
+            ...variantTypes,
+            { value: 'Engraving', selectionMode: 'optional-single', variantOptions: [{ value: 'Yes' }] }
+        ];
+        const result = analyzeConstraints(types, [
+            { id: 'red-plain', if: { typeValue: 'Color', optionValue: 'Red' }, then: { typeValue: 'Engraving', action: 'disallow', options: ['Yes'] } }
+        ]);
+        expect(result.diagnostics).toEqual([]);
+    });
+});
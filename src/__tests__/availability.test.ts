@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { getOptionAvailability } from '../availability';
+import type { ComponentStock, OptionAvailability } from '../availability';
+import { variantKeyToSelection } from '../index';
+import type { ChildVariant, VariantSelectionItem, VariantType } from '../index';
+import type { VariantConstraint } from '../constraints';
+
+describe('Option Availability', () => {
+    const variantTypes: VariantType[] = [
+        { value: 'Color', variantOptions: [{ value: 'Red' }, { value: 'Blue' }] },
+        { value: 'Size', variantOptions: [{ value: 'S' }, { value: 'M' }, { value: 'L' }] }
+    ];
+
+    const constraints: VariantConstraint[] = [
+        { id: 'blue-no-l', if: { typeValue: 'Color', optionValue: 'Blue' }, then: { typeValue: 'Size', action: 'disallow', options: ['L'] } }
+    ];
+
+    const children: ChildVariant[] = [
+        { variantKey: '1-1', stock: 5 },
+        { variantKey: '1-2', stock: 0 },
+        { variantKey: '1-3', stock: 0 },
+        { variantKey: '2-1', stock: 0 },
+        { variantKey: '2-2', stock: 0 },
+        // Blue L is in stock, but it breaks a constraint
+        { variantKey: '2-3', stock: 3 }
+    ];
+
+    const blue: VariantSelectionItem[] = variantKeyToSelection('2-0', variantTypes);
+    const summary = (options: OptionAvailability[]) =>
+        options.map(({ option, valid, inStock, state }) => ({ option: option.value, valid, inStock, state }));
+
+    it('should merge constraint results with child stock', () => {
+        const result = getOptionAvailability(variantTypes, [], constraints, { children });
+        expect(summary(result.Color)).toEqual([
+            { option: 'Red', valid: true, inStock: true, state: 'enabled' },
+            { option: 'Blue', valid: true, inStock: false, state: 'disabled' }
+        ]);
+        expect(result.Color[1].reasons).toEqual([{ kind: 'out-of-stock', parts: [] }]);
+        expect(summary(result.Size).map(s => s.inStock)).toEqual([true, false, false]);
+
+        const afterBlue = getOptionAvailability(variantTypes, blue, constraints, { children });
+        expect(summary(afterBlue.Size)).toEqual([
+            { option: 'S', valid: true, inStock: false, state: 'disabled' },
+            { option: 'M', valid: true, inStock: false, state: 'disabled' },
+            { option: 'L', valid: false, inStock: true, state: 'disabled' }
+        ]);
+        expect(afterBlue.Size[2].reasons).toEqual([{ kind: 'constraint', constraintIds: ['blue-no-l'] }]);
+
+        const soldOut = children.map(c => (c.variantKey === '2-3' ? { ...c, stock: 0 } : c));
+        const both = getOptionAvailability(variantTypes, blue, constraints, { children: soldOut }).Size[2];
+        expect(both.reasons.map(r => r.kind)).toEqual(['constraint', 'out-of-stock']);
+    });
+
+    it('should hide, disable or backorder sold-out options', () => {
+        const states = (stockMode: 'hide' | 'disable' | 'backorder') =>
+            getOptionAvailability(variantTypes, blue, constraints, { children, stockMode, invalidMode: 'hide' }).Size.map(
+                o => [o.state, o.backorder]
+            );
+        expect(states('hide')).toEqual([['hidden', false], ['hidden', false], ['hidden', false]]);
+        expect(states('disable')).toEqual([['disabled', false], ['disabled', false], ['hidden', false]]);
+        expect(states('backorder')).toEqual([['enabled', true], ['enabled', true], ['hidden', false]]);
+
+        // Without stock data every valid option is enabled
+        const untracked = getOptionAvailability(variantTypes, blue, constraints);
+        expect(untracked.Size.map(o => o.state)).toEqual(['enabled', 'enabled', 'disabled']);
+    });
+
+    it('should use component stock when a BOM is given', () => {
+        const withExtras: VariantType[] = [
+            ...variantTypes,
+            { value: 'Extras', selectionMode: 'multi', variantOptions: [{ value: 'Case' }, { value: 'Strap' }] }
+        ];
+        const components: ComponentStock = {
+            rules: [
+                { id: 'red', if: { typeValue: 'Color', optionValue: 'Red' }, components: [{ part: 'DYE-R', quantity: 1 }] },
+                { id: 'blue', if: { typeValue: 'Color', optionValue: 'Blue' }, components: [{ part: 'DYE-B', quantity: 1 }] },
+                { id: 'fabric', components: [{ part: 'FABRIC', quantity: 1 }] },
+                { id: 'large', if: { typeValue: 'Size', optionValue: 'L' }, components: [{ part: 'FABRIC', quantity: 1 }] },
+                { id: 'case', if: { typeValue: 'Extras', optionValue: 'Case' }, components: [{ part: 'CASE', quantity: 1 }] }
+            ],
+            stock: { 'DYE-B': 0, FABRIC: 1, CASE: 0 }
+        };
+
+        const result = getOptionAvailability(withExtras, [], constraints, { children, components });
+        // Child stock is ignored: Red S/M/L are fine apart from the fabric for L
+        expect(result.Color.map(o => o.inStock)).toEqual([true, false]);
+        expect(result.Color[1].reasons).toEqual([{ kind: 'out-of-stock', parts: ['DYE-B'] }]);
+        expect(result.Size.map(o => o.inStock)).toEqual([true, true, false]);
+        expect(result.Size[2].reasons).toEqual([{ kind: 'out-of-stock', parts: ['FABRIC'] }]);
+
+        // Multi-select options are evaluated added to the current picks
+        const withStrap = getOptionAvailability(withExtras, variantKeyToSelection('0-0-2', withExtras), constraints, {
+            components
+        });
+        expect(withStrap.Extras.map(o => [o.option.value, o.inStock])).toEqual([['Case', false], ['Strap', true]]);
+    });
+});
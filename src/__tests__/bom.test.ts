@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { resolveBom, resolveBomForSelection } from '../bom';
+import type { BomPart, BomRule } from '../bom';
+import { variantKeyToSelection } from '../index';
+import type { VariantType } from '../index';
+
+describe('Bill of Materials', () => {
+    const variantTypes: VariantType[] = [
+        { value: 'Frame', variantOptions: [{ value: 'Steel', id: 'steel' }, { value: 'Carbon', id: 'carbon' }] },
+        { value: 'Size', variantOptions: [{ value: 'M' }, { value: 'L' }] },
+        { value: 'Extras', selectionMode: 'multi', variantOptions: [{ value: 'Rack' }, { value: 'Lights' }] }
+    ];
+
+    const parts: Record<string, BomPart> = {
+        'BOLT-M5': { description: 'M5 bolt', unit: 'pcs', unitCost: 0.1, unitWeight: 0.01 },
+        'TUBE-ST': { unit: 'm', unitCost: 4.5, unitWeight: 1.2 },
+        'TUBE-CF': { unit: 'm', unitCost: 22, unitWeight: 0.4 },
+        'RACK': { unitCost: 30, unitWeight: 1.5 }
+    };
+
+    const rules: BomRule[] = [
+        { id: 'base', components: [{ part: 'BOLT-M5', quantity: 12 }] },
+        { id: 'steel', if: { typeValue: 'Frame', optionValue: 'Steel' }, components: [{ part: 'TUBE-ST', quantity: 3 }] },
+        { id: 'carbon', if: { typeValue: 'Frame', optionValue: 'Carbon' }, components: [{ part: 'TUBE-CF', quantity: 3 }] },
+        {
+            id: 'large-frame',
+            if: { typeValue: 'Size', optionValue: 'L' },
+            components: [{ part: 'TUBE-ST', quantity: 0.3 }, { part: 'BOLT-M5', quantity: 2 }]
+        },
+        { id: 'rack', if: { typeValue: 'Extras', optionValue: 'Rack' }, components: [{ part: 'RACK', quantity: 1 }, { part: 'BOLT-M5', quantity: 4 }] },
+        { id: 'lights', if: { typeValue: 'Extras', optionValue: 'Lights' }, components: [{ part: 'LED-KIT', quantity: 1, unitWeight: 0.2 }] }
+    ];
+
+    it('should aggregate components per part and roll up cost and weight', () => {
+        const bom = resolveBom('1-2-1', variantTypes, rules, { parts });
+        expect(bom).toMatchObject({
+            appliedRules: ['base', 'steel', 'large-frame', 'rack'],
+            missingCost: [],
+            missingWeight: []
+        });
+        expect(bom!.lines).toEqual([
+            { part: 'BOLT-M5', description: 'M5 bolt', unit: 'pcs', unitCost: 0.1, unitWeight: 0.01, quantity: 18, cost: 1.8, weight: 0.18, sources: ['base', 'large-frame', 'rack'] },
+            { part: 'TUBE-ST', unit: 'm', unitCost: 4.5, unitWeight: 1.2, quantity: 3.3, cost: 14.85, weight: 3.96, sources: ['steel', 'large-frame'] },
+            { part: 'RACK', unitCost: 30, unitWeight: 1.5, quantity: 1, cost: 30, weight: 1.5, sources: ['rack'] }
+        ]);
+        // Exact decimals: 1.8 + 14.85 + 30, not 46.650000000000006
+        expect(bom!.totalCost).toBe(46.65);
+        expect(bom!.totalWeight).toBe(5.64);
+    });
+
+    it('should report parts without cost or weight', () => {
+        const bom = resolveBom('2-1-2', variantTypes, rules, { parts })!;
+        expect(bom.lines.map(l => l.part)).toEqual(['BOLT-M5', 'TUBE-CF', 'LED-KIT']);
+        expect(bom.missingCost).toEqual(['LED-KIT']);
+        expect(bom.missingWeight).toEqual([]);
+        expect(bom.totalCost).toBe(67.2);
+        expect(bom.totalWeight).toBe(1.52);
+    });
+
+    it('should let components override part data and round costs', () => {
+        const discounted: BomRule[] = [{ id: 'bolts', components: [{ part: 'BOLT-M5', quantity: 3, unitCost: 0.333 }] }];
+        const bom = resolveBomForSelection([], discounted, { parts, money: { scale: 2 } });
+        expect(bom.lines[0]).toMatchObject({ quantity: 3, unitCost: 0.333, cost: 1 });
+        expect(bom.totalCost).toBe(1);
+    });
+
+    it('should resolve keys in other formats and reject unknown ones', () => {
+        const byId = resolveBom('carbon|M|', variantTypes, rules, { parts, keyScheme: 'id' });
+        const byIndex = resolveBom('2-1-0', variantTypes, rules, { parts });
+        expect(byId).toEqual(byIndex);
+        expect(byIndex).toEqual(resolveBomForSelection(variantKeyToSelection('2-1-0', variantTypes), rules, { parts }));
+        expect(resolveBom('3-1-0', variantTypes, rules)).toBeNull();
+        expect(resolveBom('1-1', variantTypes, rules)).toBeNull();
+    });
+});
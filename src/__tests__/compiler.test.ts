@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest';
+import { compileConstraints } from '../compiler';
+import { validateSelection } from '../constraints';
+import type { VariantConstraint } from '../constraints';
+import { generateChildVariants, iterateVariantIndices, toSelectionItem, variantKeyToSelection } from '../index';
+import { createVariantKeyCodec } from '../keys';
+import type { VariantSelectionItem, VariantType } from '../index';
+
+describe('Compiled Constraints', () => {
+    const variantTypes: VariantType[] = [
+        { value: 'Model', variantOptions: [{ value: 'Base' }, { value: 'Pro' }, { value: 'Max' }] },
+        { value: 'RAM', variantOptions: [{ value: '8GB' }, { value: '16GB' }, { value: '32GB' }] },
+        { value: 'Color', variantOptions: [{ value: 'Silver' }, { value: 'Black' }] }
+    ];
+
+    const constraints: VariantConstraint[] = [
+        {
+            id: 'base-ram',
+            if: { typeValue: 'Model', optionValue: 'Base' },
+            then: { typeValue: 'RAM', action: 'disallow', options: ['32GB'] }
+        },
+        {
+            id: 'pro-ram',
+            if: { typeValue: 'Model', operator: 'in', optionValue: ['Pro', 'Max'] },
+            then: { typeValue: 'RAM', action: 'allow', options: ['16GB', '32GB'] }
+        },
+        {
+            id: 'max-black',
+            if: {
+                operator: 'OR',
+                conditions: [
+                    { typeValue: 'Model', optionValue: 'Max' },
+                    {
+                        operator: 'AND',
+                        conditions: [
+                            { typeValue: 'RAM', operator: 'not_equals', optionValue: '8GB' },
+                            { typeValue: 'Model', operator: 'not_in', optionValue: ['Base'] }
+                        ]
+                    }
+                ]
+            },
+            then: { typeValue: 'Color', action: 'allow', options: ['Black'] }
+        },
+        {
+            id: 'ignored-target',
+            if: { typeValue: 'Model', optionValue: 'Base' },
+            then: { typeValue: 'Keyboard', action: 'allow', options: ['US'] }
+        }
+    ];
+
+    const compiled = compileConstraints(variantTypes, constraints);
+
+    it('should match validateSelection for every combination', () => {
+        const children = generateChildVariants(variantTypes);
+        expect(children).toHaveLength(18);
+
+        for (const child of children) {
+            const selection = variantKeyToSelection(child.variantKey, variantTypes);
+            expect(compiled.validateVariantKey(child.variantKey)).toEqual(validateSelection(selection, constraints));
+            expect(compiled.validate(selection)).toEqual(validateSelection(selection, constraints));
+        }
+    });
+
+    it('should report blocking constraints in declaration order', () => {
+        // Max + 8GB + Silver breaks both pro-ram and max-black.
+        expect(compiled.validateIndices([3, 1, 1])).toEqual({
+            valid: false,
+            blockedBy: ['pro-ram', 'max-black']
+        });
+    });
+
+    it('should treat out-of-range indices as not selected', () => {
+        expect(compiled.validateIndices([2, 1])).toEqual({ valid: false, blockedBy: ['pro-ram'] });
+        expect(compiled.validateIndices([3, 0, 1])).toEqual({ valid: false, blockedBy: ['max-black'] });
+        expect(compiled.validateIndices([0, 0, 1])).toEqual({ valid: true, blockedBy: [] });
+    });
+
+    it('should read keys in the compiled key format', () => {
+        for (const keyScheme of ['id', 'hash'] as const) {
+            const validator = compileConstraints(variantTypes, constraints, { keyScheme });
+            const codec = createVariantKeyCodec(variantTypes, { keyScheme });
+            for (const indices of iterateVariantIndices(variantTypes)) {
+                expect(validator.validateVariantKey(codec.format(indices))).toEqual(compiled.validateIndices(indices));
+            }
+        }
+        const byId = compileConstraints(variantTypes, constraints, { keyScheme: 'id' });
+        expect(byId.validateVariantKey('Max|8GB|Silver')).toEqual({ valid: false, blockedBy: ['pro-ram', 'max-black'] });
+        expect(byId.validateVariantKey('Max/8GB/Silver', '/')).toEqual({ valid: false, blockedBy: ['pro-ram', 'max-black'] });
+    });
+
+    it('should fall back to validateSelection for unknown types', () => {
+        const selection: VariantSelectionItem[] = [
+            { typeValue: 'Model', optionValue: 'Base', typeIndex: 0, optionIndex1Based: 1 },
+            { typeValue: 'Keyboard', optionValue: 'DE', typeIndex: -1, optionIndex1Based: -1 }
+        ];
+        expect(compiled.validate(selection)).toEqual({ valid: false, blockedBy: ['ignored-target'] });
+    });
+
+    it('should match validateSelection for NOT, XOR and numeric conditions', () => {
+        const types: VariantType[] = [
+            { value: 'Model', variantOptions: [{ value: 'Base' }, { value: 'Pro' }] },
+            { value: 'RAM', variantOptions: [{ value: '8GB' }, { value: '16GB' }, { value: '32GB', attributes: { tier: 3 } }] },
+            { value: 'Color', variantOptions: [{ value: 'Silver' }, { value: 'Black' }] }
+        ];
+        const rules: VariantConstraint[] = [
+            {
+                id: 'not-pro',
+                if: { operator: 'NOT', conditions: [{ typeValue: 'Model', optionValue: 'Pro' }] },
+                then: { typeValue: 'RAM', action: 'allow', options: ['8GB', '16GB'] }
+            },
+            {
+                id: 'xor',
+                if: {
+                    operator: 'XOR',
+                    conditions: [
+                        { typeValue: 'RAM', operator: 'gte', value: 16 },
+                        { typeValue: 'RAM', operator: 'eq', value: 3, attribute: 'tier' }
+                    ]
+                },
+                then: { typeValue: 'Color', action: 'disallow', options: ['Silver'] }
+            },
+            {
+                id: 'unselected',
+                if: { typeValue: 'Engraving', operator: 'unselected' },
+                then: { typeValue: 'Model', action: 'disallow', options: ['Base'] }
+            }
+        ];
+        const validator = compileConstraints(types, rules);
+
+        for (const child of generateChildVariants(types)) {
+            const selection = variantKeyToSelection(child.variantKey, types);
+            expect(validator.validateVariantKey(child.variantKey)).toEqual(validateSelection(selection, rules));
+        }
+        // Partial: Model undecided, so "not-pro" can't be decided either.
+        expect(validator.validatePartial([0, 3, 2]).blockedBy).toEqual([]);
+        expect(validator.validateIndices([0, 3, 2]).blockedBy).toEqual(['not-pro']);
+    });
+
+    it('should compile context conditions against the given context', () => {
+        const rules: VariantConstraint[] = [
+            {
+                id: 'retail-ram',
+                if: {
+                    operator: 'AND',
+                    conditions: [
+                        { context: 'channel', operator: 'not_equals', value: 'b2b' },
+                        { typeValue: 'Model', optionValue: 'Max' }
+                    ]
+                },
+                then: { typeValue: 'RAM', action: 'allow', options: ['32GB'] }
+            }
+        ];
+        for (const context of [{}, { channel: 'b2b' }]) {
+            const validator = compileConstraints(variantTypes, rules, { context });
+            for (const child of generateChildVariants(variantTypes)) {
+                const selection = variantKeyToSelection(child.variantKey, variantTypes);
+                expect(validator.validateVariantKey(child.variantKey)).toEqual(validateSelection(selection, rules, { context }));
+            }
+        }
+        expect(compileConstraints(variantTypes, rules).validateIndices([3, 1, 1]).valid).toBe(false);
+        expect(compileConstraints(variantTypes, rules, { context: { channel: 'b2b' } }).validateIndices([3, 1, 1]).valid).toBe(true);
+    });
+
+    it('should match validateSelection for other constraint kinds', () => {
+        const rules: VariantConstraint[] = [
+            { id: 'max-color', if: { typeValue: 'Model', optionValue: 'Max' }, then: { typeValue: 'Color', action: 'require', options: ['Black'] } },
+            { id: 'pro-keyboard', if: { typeValue: 'Model', optionValue: 'Pro' }, then: { typeValue: 'Keyboard', action: 'require', options: [] } },
+            { id: 'exclusive', kind: 'mutually-exclusive', options: [{ typeValue: 'RAM', optionValue: '8GB' }, { typeValue: 'Color', optionValue: 'Black' }] },
+            { id: 'upgrade', kind: 'non-default', types: [{ typeValue: 'RAM', defaultOption: '8GB' }, { typeValue: 'Color', defaultOption: 'Silver' }] },
+            { id: 'tuples', kind: 'forbidden-tuples', typeValues: ['Model', 'RAM'], tuples: [['Base', '16GB'], ['Max', '32GB']] }
+        ];
+        const validator = compileConstraints(variantTypes, rules);
+
+        // Every complete and partial combination (0 = not selected)
+        for (let m = 0; m <= 3; m++) {
+            for (let r = 0; r <= 3; r++) {
+                for (let c = 0; c <= 2; c++) {
+                    const indices = [m, r, c];
+                    const selection = indices.flatMap((oi, ti) => (oi > 0 ? [toSelectionItem(variantTypes[ti], ti, oi)] : []));
+                    expect(validator.validateIndices(indices)).toEqual(validateSelection(selection, rules));
+                    const pendingTypes = new Set(variantTypes.filter((_, ti) => indices[ti] === 0).map(t => t.value));
+                    expect(validator.validatePartial(indices)).toEqual(validateSelection(selection, rules, { pendingTypes }));
+                }
+            }
+        }
+    });
+});
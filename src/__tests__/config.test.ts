@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import {
+    PRODUCT_CONFIG_MIGRATIONS,
+    PRODUCT_CONFIG_SCHEMA,
+    migrateProductConfig,
+    parseProductConfig,
+    serializeProductConfig
+} from '../config';
+import type { ProductConfigInput, ProductConfigMigration } from '../config';
+import { createConfigurator } from '../configurator';
+
+describe('Product Config Documents', () => {
+    const input: ProductConfigInput = {
+        name: 'T-Shirt',
+        variantTypes: [
+            { value: 'Color', variantOptions: [{ value: 'Red', attributes: { hex: '#f00' } }, { value: 'Blue' }] },
+            { value: 'Size', variantOptions: [{ value: 'S' }, { value: 'L' }] }
+        ],
+        constraints: [
+            { id: 'blue-no-l', if: { typeValue: 'Color', optionValue: 'Blue' }, then: { typeValue: 'Size', action: 'disallow', options: ['L'] } },
+            { id: 'no-red-s', kind: 'forbidden-tuples', typeValues: ['Color', 'Size'], tuples: [['Red', 'S']] }
+        ],
+        modifiers: [
+            { id: 'base', phase: 'base', if: { typeValue: 'Color', operator: 'selected' }, then: [{ field: 'cost', operation: 'set', value: 10 }] },
+            { id: 'large', if: { typeValue: 'Size', optionValue: 'L' }, then: [{ field: 'cost', operation: 'set', expression: 'cost * 1.2' }] }
+        ],
+        children: [{ variantKey: '1-2', sku: 'TS-RED-L', stock: 4 }]
+    };
+
+    it('should round-trip through serialize and parse', () => {
+        const json = serializeProductConfig(input);
+        expect(Object.keys(JSON.parse(json))).toEqual(['version', 'name', 'variantTypes', 'constraints', 'modifiers', 'children']);
+
+        const parsed = parseProductConfig(json);
+        expect(parsed).toEqual({ ok: true, config: { version: 1, ...input }, warnings: [], migratedFrom: 1 });
+        if (!parsed.ok) return;
+        expect(serializeProductConfig(parsed.config)).toBe(json);
+
+        const configurator = createConfigurator(parsed.config);
+        expect(configurator.select('Color', 'Red').available.Size.map(o => o.value)).toEqual(['L']);
+        expect(configurator.select('Size', 'L').child).toMatchObject({ sku: 'TS-RED-L', cost: 12 });
+    });
+
+    it('should report schema errors with JSON paths', () => {
+        const result = parseProductConfig({
+            version: 1,
+            variantTypes: [{ value: 'Color', variantOptions: [{ value: 'Red', swatch: 5 }] }],
+            constraints: [
+                { id: 'a', if: { typeValue: 'Color', optionValue: 'Red' }, then: { typeValue: 'Size', action: 'forbid', options: [] } },
+                { id: 'b', kind: 'mutually-exclusive' }
+            ],
+            modifiers: [{ id: 'm', if: { typeValue: 'Color', optionValue: ['Red', 1] }, then: [] }],
+            colour: 'red'
+        });
+        expect(result).toEqual({
+            ok: false,
+            errors: [
+                { code: 'schema', path: '/variantTypes/0/variantOptions/0/swatch', message: 'Expected string, got number' },
+                { code: 'schema', path: '/constraints/0/then/action', message: 'Expected one of "allow", "disallow", "require"' },
+                { code: 'schema', path: '/constraints/1/options', message: 'Missing required property "options"' },
+                { code: 'schema', path: '/modifiers/0/if/optionValue/1', message: 'Expected string, got number' },
+                { code: 'schema', path: '/colour', message: 'Unknown property "colour"' }
+            ]
+        });
+
+        expect(parseProductConfig('{ "version": 1,')).toMatchObject({ ok: false, errors: [{ code: 'invalid-json', path: '' }] });
+        expect(parseProductConfig([])).toMatchObject({ ok: false, errors: [{ code: 'schema', path: '' }] });
+    });
+
+    it('should check ids, child keys and expressions', () => {
+        const result = parseProductConfig({
+            ...input,
+            version: 1,
+            constraints: [...input.constraints!, { id: 'blue-no-l', kind: 'mutually-exclusive', options: [] }],
+            modifiers: [{ id: 'broken', if: { typeValue: 'Size', optionValue: 'L' }, then: [{ field: 'cost', operation: 'set', expression: 'cost *' }] }],
+            children: [{ variantKey: '1-2' }, { variantKey: '1-3' }, { variantKey: '1-2' }]
+        });
+        expect(result.ok).toBe(false);
+        if (result.ok) return;
+        expect(result.errors.map(e => [e.code, e.path])).toEqual([
+            ['duplicate-id', '/constraints/2/id'],
+            ['duplicate-id', '/children/2/variantKey'],
+            ['invalid-expression', '/modifiers/0/then/0/expression'],
+            ['unknown-variant-key', '/children/1/variantKey']
+        ]);
+
+        const duplicateType = parseProductConfig({ version: 1, variantTypes: [...input.variantTypes, input.variantTypes[0]] });
+        expect(duplicateType).toMatchObject({ ok: true, warnings: [{ path: '/variantTypes', message: 'Duplicate variant type name "Color".' }] });
+
+        const unnamedType = parseProductConfig({ version: 1, variantTypes: [{ value: ' ', variantOptions: [{ value: 'A' }] }], children: [{ variantKey: '1' }] });
+        expect(unnamedType).toEqual({
+            ok: false,
+            errors: [{ code: 'invalid-variant-types', path: '/variantTypes', message: 'Variant type at index 0 is missing a value.' }]
+        });
+    });
+
+    it('should migrate older documents and reject newer ones', () => {
+        const legacy = { variantTypes: input.variantTypes, constraints: input.constraints };
+        const parsed = parseProductConfig(JSON.stringify(legacy));
+        expect(parsed).toMatchObject({ ok: true, migratedFrom: 0, config: { version: 1, modifiers: [], children: [] } });
+
+        expect(parseProductConfig({ ...legacy, version: 2 })).toEqual({
+            ok: false,
+            errors: [{ code: 'unsupported-version', path: '/version', message: 'Version 2 is newer than the supported version 1' }]
+        });
+
+        // Apps can chain their own migrations, e.g. for a future version
+        const renameTypes: ProductConfigMigration = {
+            from: 1,
+            to: 2,
+            migrate: ({ variantTypes, ...rest }) => ({ ...rest, version: 2, types: variantTypes })
+        };
+        const migrated = migrateProductConfig(legacy, { migrations: [...PRODUCT_CONFIG_MIGRATIONS, renameTypes], toVersion: 2 });
+        expect(migrated).toMatchObject({ ok: true, from: 0, document: { version: 2, types: input.variantTypes } });
+        expect(migrated.ok && migrated.applied.map(m => m.to)).toEqual([1, 2]);
+        expect(legacy).not.toHaveProperty('version');
+
+        const failing: ProductConfigMigration = { from: 0, to: 1, migrate: () => { throw new Error('boom'); } };
+        expect(migrateProductConfig(legacy, { migrations: [failing] })).toMatchObject({
+            ok: false,
+            error: { code: 'migration-failed', message: 'Migration from version 0 to 1 failed: boom' }
+        });
+
+        const backwards: ProductConfigMigration = { from: 1, to: 1, migrate: document => document };
+        expect(migrateProductConfig(legacy, { migrations: [...PRODUCT_CONFIG_MIGRATIONS, backwards], toVersion: 2 })).toEqual({
+            ok: false,
+            error: { code: 'migration-failed', path: '', message: 'Migration from version 1 must go to a newer version, not 1' }
+        });
+    });
+
+    it('should write dates as ISO strings that conditions compare like dates', () => {
+        const sale: ProductConfigInput = {
+            variantTypes: input.variantTypes,
+            constraints: [
+                {
+                    id: 'sale-no-l',
+                    if: { context: 'date', operator: 'between', value: [new Date('2026-11-27T00:00:00Z'), new Date('2026-11-30T23:59:59Z')] },
+                    then: { typeValue: 'Size', action: 'disallow', options: ['L'] }
+                }
+            ]
+        };
+        const parsed = parseProductConfig(serializeProductConfig(sale));
+        expect(parsed).toMatchObject({
+            ok: true,
+            config: { constraints: [{ if: { value: ['2026-11-27T00:00:00.000Z', '2026-11-30T23:59:59.000Z'] } }] }
+        });
+        if (!parsed.ok) return;
+
+        const sizes = (date: Date) =>
+            createConfigurator({ ...parsed.config, context: { date } }).getState().available.Size.map(o => o.value);
+        expect(sizes(new Date('2026-11-28T12:00:00Z'))).toEqual(['S']);
+        expect(sizes(new Date('2026-12-01T12:00:00Z'))).toEqual(['S', 'L']);
+    });
+
+    it('should publish a schema that describes the document', () => {
+        expect(PRODUCT_CONFIG_SCHEMA).toMatchObject({
+            $schema: 'https://json-schema.org/draft/2020-12/schema',
+            required: ['version', 'variantTypes'],
+            properties: { version: { const: 1 } }
+        });
+        expect(JSON.parse(JSON.stringify(PRODUCT_CONFIG_SCHEMA))).toEqual(PRODUCT_CONFIG_SCHEMA);
+    });
+});
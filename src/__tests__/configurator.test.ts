@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import { createConfigurator } from '../configurator';
+import type { ConfiguratorState } from '../configurator';
+import type { VariantConstraint } from '../constraints';
+import type { VariantModifier } from '../modifiers';
+import type { ChildVariant, VariantType } from '../index';
+
+describe('Configurator', () => {
+    const variantTypes: VariantType[] = [
+        { value: 'Model', variantOptions: [{ value: 'Base' }, { value: 'Pro' }] },
+        { value: 'RAM', variantOptions: [{ value: '8GB' }, { value: '16GB' }, { value: '32GB' }] },
+        { value: 'Color', variantOptions: [{ value: 'Silver' }, { value: 'Black' }] }
+    ];
+
+    const constraints: VariantConstraint[] = [
+        {
+            id: 'base-ram',
+            if: { typeValue: 'Model', optionValue: 'Base' },
+            then: { typeValue: 'RAM', action: 'disallow', options: ['32GB'] }
+        },
+        {
+            id: 'pro-ram',
+            if: { typeValue: 'Model', optionValue: 'Pro' },
+            then: { typeValue: 'RAM', action: 'allow', options: ['16GB', '32GB'] }
+        }
+    ];
+
+    const modifiers: VariantModifier[] = [
+        { id: 'pro', if: { typeValue: 'Model', optionValue: 'Pro' }, then: [{ field: 'cost', operation: 'add', value: 500 }] },
+        { id: 'ram', if: { typeValue: 'RAM', optionValue: '32GB' }, then: [{ field: 'cost', operation: 'add', value: 200 }] },
+        { id: 'bulk', phase: 'multiplier', if: { context: 'quantity', operator: 'gte', value: 10 }, then: [{ field: 'cost', operation: 'multiply', value: 0.9 }] }
+    ];
+
+    const baseProduct: ChildVariant = { variantKey: '', sku: 'LAP', cost: 1000 };
+    const values = (state: ConfiguratorState) => state.values;
+
+    it('should derive available options, price and the resolved child', () => {
+        const configurator = createConfigurator({ variantTypes, constraints, modifiers, baseProduct });
+
+        let state = configurator.select('Model', 'Pro');
+        expect(state.available.RAM.map(o => o.value)).toEqual(['16GB', '32GB']);
+        expect(state.available.Model.map(o => o.value)).toEqual(['Base', 'Pro']);
+        expect(state).toMatchObject({ valid: true, complete: false, missing: ['RAM', 'Color'], price: 1500 });
+        expect(state.child).toBeUndefined();
+
+        configurator.select('RAM', '32GB');
+        state = configurator.select('Color', 'Black');
+        expect(state.available.Model.map(o => o.value)).toEqual(['Pro']);
+        expect(state).toMatchObject({ complete: true, missing: [], variantKey: '2-3-2', price: 1700 });
+        expect(state.child).toEqual({ variantKey: '2-3-2', sku: 'LAP', cost: 1700 });
+        expect(state.selection.map(s => s.optionValue)).toEqual(['Pro', '32GB', 'Black']);
+
+        expect(configurator.setContext({ quantity: 10 }).price).toBe(1530);
+    });
+
+    it('should resolve existing children and key formats', () => {
+        const configurator = createConfigurator({
+            variantTypes,
+            children: [{ variantKey: 'Base|8GB|Silver', sku: 'LAP-B8S', cost: 900 }],
+            initialSelection: { Model: 'Base', RAM: '8GB', Color: 'Silver', Size: 'XL' },
+            keyScheme: 'id'
+        });
+        expect(configurator.getState()).toMatchObject({
+            values: { Model: 'Base', RAM: '8GB', Color: 'Silver' },
+            variantKey: 'Base|8GB|Silver',
+            child: { sku: 'LAP-B8S', cost: 900 },
+            canUndo: false
+        });
+    });
+
+    it('should notify subscribers and support undo, redo and reset', () => {
+        const configurator = createConfigurator({ variantTypes, constraints });
+        const seen: ConfiguratorState['values'][] = [];
+        const unsubscribe = configurator.subscribe(state => seen.push(state.values));
+
+        configurator.select('Model', 'Base');
+        configurator.select('RAM', '16GB');
+        configurator.select('RAM', '16GB'); // unchanged: no notification
+        configurator.select('RAM', '64GB'); // unknown option: ignored
+        configurator.deselect('Model');
+        expect(seen).toEqual([{ Model: 'Base' }, { Model: 'Base', RAM: '16GB' }, { RAM: '16GB' }]);
+
+        expect(values(configurator.undo())).toEqual({ Model: 'Base', RAM: '16GB' });
+        expect(values(configurator.undo())).toEqual({ Model: 'Base' });
+        expect(configurator.getState()).toMatchObject({ canUndo: true, canRedo: true });
+        expect(values(configurator.redo())).toEqual({ Model: 'Base', RAM: '16GB' });
+
+        expect(values(configurator.reset())).toEqual({});
+        expect(values(configurator.undo())).toEqual({ Model: 'Base', RAM: '16GB' });
+        configurator.select('Color', 'Black');
+        expect(configurator.getState().canRedo).toBe(false);
+
+        unsubscribe();
+        configurator.reset();
+        expect(seen).toHaveLength(9);
+    });
+
+    it('should keep, deselect or correct conflicting picks', () => {
+        const pick = (onConflict: 'keep' | 'deselect' | 'correct') => {
+            const configurator = createConfigurator({ variantTypes, constraints, onConflict });
+            configurator.select('RAM', '8GB');
+            configurator.select('Color', 'Black');
+            return configurator.select('Model', 'Pro');
+        };
+
+        expect(pick('keep')).toMatchObject({
+            values: { RAM: '8GB', Color: 'Black', Model: 'Pro' },
+            valid: false,
+            blockedBy: ['pro-ram'],
+            adjustments: []
+        });
+        expect(pick('deselect')).toMatchObject({
+            values: { Model: 'Pro', Color: 'Black' },
+            valid: true,
+            adjustments: [{ typeValue: 'RAM', from: '8GB' }]
+        });
+        expect(pick('correct')).toMatchObject({
+            values: { Model: 'Pro', RAM: '16GB', Color: 'Black' },
+            valid: true,
+            complete: true,
+            adjustments: [{ typeValue: 'RAM', from: '8GB', to: '16GB' }]
+        });
+    });
+
+    it('should let optional types stay empty when checking options and conflicts', () => {
+        const types: VariantType[] = [
+            { value: 'Color', variantOptions: [{ value: 'Red' }, { value: 'Blue' }] },
+            { value: 'Engraving', selectionMode: 'optional-single', variantOptions: [{ value: 'Yes' }] }
+        ];
+        const rules: VariantConstraint[] = [
+            { id: 'red-plain', if: { typeValue: 'Color', optionValue: 'Red' }, then: { typeValue: 'Engraving', action: 'disallow', options: ['Yes'] } }
+        ];
+        const configurator = createConfigurator({ variantTypes: types, constraints: rules, onConflict: 'deselect' });
+
+        // Red is reachable without an engraving
+        expect(configurator.getState().available.Color.map(o => o.value)).toEqual(['Red', 'Blue']);
+        expect(configurator.select('Engraving', 'Yes').available.Color.map(o => o.value)).toEqual(['Blue']);
+
+        expect(configurator.select('Color', 'Red')).toMatchObject({
+            values: { Color: 'Red' },
+            valid: true,
+            complete: true,
+            adjustments: [{ typeValue: 'Engraving', from: 'Yes' }]
+        });
+        expect(configurator.getState().available.Engraving).toEqual([]);
+    });
+
+    it('should hold several options of multi-select types and count them against the limits', () => {
+        const types: VariantType[] = [
+            { value: 'Color', variantOptions: [{ value: 'Red' }, { value: 'Blue' }] },
+            {
+                value: 'Extras',
+                selectionMode: 'multi',
+                minSelections: 2,
+                maxSelections: 2,
+                variantOptions: [{ value: 'Case' }, { value: 'Strap' }, { value: 'Charger' }]
+            }
+        ];
+        const configurator = createConfigurator({ variantTypes: types });
+        configurator.select('Color', 'Red');
+
+        let state = configurator.select('Extras', 'Case');
+        expect(state).toMatchObject({ values: { Color: 'Red', Extras: ['Case'] }, valid: true, complete: false, missing: ['Extras'] });
+        expect(state.variantKey).toBeUndefined();
+
+        state = configurator.select('Extras', 'Charger');
+        expect(state).toMatchObject({ values: { Extras: ['Case', 'Charger'] }, valid: true, complete: true, variantKey: '1-1+3' });
+        expect(state.selection.map(s => s.optionValue)).toEqual(['Red', 'Case', 'Charger']);
+        // At the maximum, only the picks themselves are left
+        expect(state.available.Extras.map(o => o.value)).toEqual(['Case', 'Charger']);
+
+        state = configurator.select('Extras', 'Strap');
+        expect(state).toMatchObject({ values: { Extras: ['Case', 'Strap', 'Charger'] }, valid: false, complete: true });
+        expect(state.variantKey).toBeUndefined();
+
+        expect(configurator.deselect('Extras', 'Case')).toMatchObject({ values: { Extras: ['Strap', 'Charger'] }, valid: true, variantKey: '1-2+3' });
+        expect(configurator.deselect('Extras').missing).toEqual(['Extras']);
+
+        const [suggestion] = configurator.suggest(1);
+        expect(configurator.applySuggestion(suggestion)).toMatchObject({ values: { Color: 'Red', Extras: ['Case', 'Strap'] }, variantKey: '1-1+2' });
+    });
+});
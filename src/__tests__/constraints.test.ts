@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { validateSelection, getAvailableOptions } from '../constraints';
+import { validateSelection, getAvailableOptions, evaluateContextCondition } from '../constraints';
 import type { VariantConstraint } from '../constraints';
 import type { VariantSelectionItem, VariantType } from '../index';
 
@@ -127,4 +127,123 @@ describe('Constraint Engine', () => {
             expect(availableColors.map(o => o.value)).toEqual(["Red", "Green"]); // Blue excluded
         });
     });
+
+    describe('Evaluation context', () => {
+        const b2bOnly: VariantConstraint[] = [
+            {
+                id: "b2b-bulk",
+                if: { operator: "OR", conditions: [{ context: "customerGroup", operator: "not_equals", value: "b2b" }, { context: "quantity", operator: "lt", value: 100 }] },
+                then: { typeValue: "Size", action: "disallow", options: ["Pallet"] }
+            }
+        ];
+        const pallet: VariantSelectionItem[] = [
+            { typeValue: "Size", optionValue: "Pallet", typeIndex: 0, optionIndex1Based: 1 }
+        ];
+
+        it('should evaluate context conditions', () => {
+            expect(evaluateContextCondition({ context: "quantity", operator: "gte", value: 10 }, { quantity: 10 })).toBe(true);
+            expect(evaluateContextCondition({ context: "channel", value: ["web", "app"] }, { channel: "pos" })).toBe(false);
+            expect(evaluateContextCondition({ context: "region", operator: "not_equals", value: "EU" })).toBe(true);
+            expect(evaluateContextCondition({ context: "date", operator: "lt", value: "2000-01-01" })).toBe(false);
+            expect(evaluateContextCondition(
+                { context: "date", operator: "between", value: ["2026-01-01", "2026-12-31T23:59:59Z"] },
+                { date: Date.UTC(2026, 11, 31, 12) }
+            )).toBe(true);
+        });
+
+        it('should validate selections against the context', () => {
+            expect(validateSelection(pallet, b2bOnly).valid).toBe(false);
+            expect(validateSelection(pallet, b2bOnly, { context: { customerGroup: "b2b", quantity: 20 } }).valid).toBe(false);
+            expect(validateSelection(pallet, b2bOnly, { context: { customerGroup: "b2b", quantity: 200 } })).toEqual({ valid: true, blockedBy: [] });
+
+            const sizes: VariantType = { value: "Size", variantOptions: [{ value: "Box" }, { value: "Pallet" }] };
+            expect(getAvailableOptions(sizes, [], b2bOnly).map(o => o.value)).toEqual(["Box"]);
+            expect(getAvailableOptions(sizes, [], b2bOnly, { context: { customerGroup: "b2b", quantity: 100 } }).map(o => o.value)).toEqual(["Box", "Pallet"]);
+        });
+    });
+
+    describe('Constraint kinds', () => {
+        const variantTypes: VariantType[] = [
+            { value: "Model", variantOptions: [{ value: "Base" }, { value: "Pro" }] },
+            { value: "Color", variantOptions: [{ value: "Red" }, { value: "Black" }] },
+            { value: "Material", variantOptions: [{ value: "Cotton" }, { value: "Leather" }] },
+            { value: "Engraving", variantOptions: [{ value: "None" }, { value: "Name" }] },
+            { value: "Gift Wrap", variantOptions: [{ value: "No" }, { value: "Yes" }] }
+        ];
+        const pick = (values: Record<string, string>): VariantSelectionItem[] =>
+            Object.entries(values).map(([typeValue, optionValue]) => {
+                const typeIndex = variantTypes.findIndex(t => t.value === typeValue);
+                const optionIndex = variantTypes[typeIndex].variantOptions.findIndex(o => o.value === optionValue);
+                return { typeValue, optionValue, typeIndex, optionIndex1Based: optionIndex + 1 };
+            });
+
+        it('should require a type to be selected', () => {
+            const requires: VariantConstraint[] = [
+                { id: "pro-engraving", if: { typeValue: "Model", optionValue: "Pro" }, then: { typeValue: "Engraving", action: "require", options: [] } },
+                { id: "leather-black", if: { typeValue: "Material", optionValue: "Leather" }, then: { typeValue: "Color", action: "require", options: ["Black"] } }
+            ];
+            expect(validateSelection(pick({ Model: "Pro" }), requires)).toEqual({ valid: false, blockedBy: ["pro-engraving"] });
+            expect(validateSelection(pick({ Model: "Pro" }), requires, { pendingTypes: new Set(["Engraving"]) }).valid).toBe(true);
+            expect(validateSelection(pick({ Model: "Pro", Engraving: "None" }), requires).valid).toBe(true);
+            expect(validateSelection(pick({ Material: "Leather", Color: "Red" }), requires).blockedBy).toEqual(["leather-black"]);
+            expect(validateSelection(pick({ Material: "Leather" }), requires).blockedBy).toEqual(["leather-black"]);
+
+            // With the other types, options are offered as long as the requirement can still be met.
+            expect(getAvailableOptions(variantTypes[0], [], requires, { variantTypes }).map(o => o.value)).toEqual(["Base", "Pro"]);
+            expect(getAvailableOptions(variantTypes[2], pick({ Color: "Red" }), requires, { variantTypes }).map(o => o.value)).toEqual(["Cotton"]);
+
+            // Without them, types not picked yet are still open
+            expect(getAvailableOptions(variantTypes[0], [], requires).map(o => o.value)).toEqual(["Base", "Pro"]);
+            expect(getAvailableOptions(variantTypes[2], [], requires).map(o => o.value)).toEqual(["Cotton", "Leather"]);
+            expect(getAvailableOptions(variantTypes[2], pick({ Color: "Red" }), requires).map(o => o.value)).toEqual(["Cotton"]);
+        });
+
+        it('should exclude options of different types from each other', () => {
+            const exclusive: VariantConstraint[] = [
+                {
+                    id: "red-leather",
+                    kind: "mutually-exclusive",
+                    options: [{ typeValue: "Color", optionValue: "Red" }, { typeValue: "Material", optionValue: "Leather" }]
+                }
+            ];
+            expect(validateSelection(pick({ Color: "Red", Material: "Cotton" }), exclusive).valid).toBe(true);
+            expect(validateSelection(pick({ Color: "Red", Material: "Leather" }), exclusive).blockedBy).toEqual(["red-leather"]);
+            expect(getAvailableOptions(variantTypes[2], pick({ Color: "Red" }), exclusive).map(o => o.value)).toEqual(["Cotton"]);
+        });
+
+        it('should require at least one non-default option', () => {
+            const extras: VariantConstraint[] = [
+                {
+                    id: "some-extra",
+                    kind: "non-default",
+                    types: [{ typeValue: "Engraving", defaultOption: "None" }, { typeValue: "Gift Wrap", defaultOption: "No" }]
+                }
+            ];
+            expect(validateSelection(pick({ Engraving: "None", "Gift Wrap": "No" }), extras).blockedBy).toEqual(["some-extra"]);
+            expect(validateSelection(pick({ Engraving: "None" }), extras).valid).toBe(false);
+            expect(validateSelection(pick({ Engraving: "None" }), extras, { pendingTypes: new Set(["Gift Wrap"]) }).valid).toBe(true);
+            expect(validateSelection(pick({ Engraving: "None", "Gift Wrap": "Yes" }), extras).valid).toBe(true);
+            expect(getAvailableOptions(variantTypes[4], pick({ Engraving: "None" }), extras).map(o => o.value)).toEqual(["Yes"]);
+            // Gift Wrap can still make up for a default engraving
+            expect(getAvailableOptions(variantTypes[3], [], extras).map(o => o.value)).toEqual(["None", "Name"]);
+            expect(getAvailableOptions(variantTypes[4], [], extras).map(o => o.value)).toEqual(["No", "Yes"]);
+        });
+
+        it('should reject forbidden tuples', () => {
+            const forbidden: VariantConstraint[] = [
+                {
+                    id: "forbidden",
+                    kind: "forbidden-tuples",
+                    typeValues: ["Model", "Color", "Material"],
+                    tuples: [["Base", "Black", "Leather"], ["Pro", "Red", "Cotton"]]
+                }
+            ];
+            expect(validateSelection(pick({ Model: "Base", Color: "Black", Material: "Leather" }), forbidden).blockedBy).toEqual(["forbidden"]);
+            expect(validateSelection(pick({ Model: "Base", Color: "Black", Material: "Cotton" }), forbidden).valid).toBe(true);
+            expect(validateSelection(pick({ Model: "Base", Color: "Black" }), forbidden).valid).toBe(true);
+            expect(getAvailableOptions(variantTypes[2], pick({ Model: "Pro", Color: "Red" }), forbidden).map(o => o.value)).toEqual(["Leather"]);
+            // Plain data, so they survive a JSON round trip
+            expect(JSON.parse(JSON.stringify(forbidden))).toEqual(forbidden);
+        });
+    });
 });
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { describeCondition, explainSelection } from '../explain';
+import type { LogicCondition, VariantConstraint } from '../constraints';
+import type { VariantSelectionItem } from '../index';
+
+describe('Constraint Explanations', () => {
+    const selection = (items: Record<string, string>): VariantSelectionItem[] =>
+        Object.entries(items).map(([type, val], i) => ({
+            typeValue: type,
+            optionValue: val,
+            typeIndex: i,
+            optionIndex1Based: 1
+        }));
+
+    const premium: LogicCondition = {
+        operator: 'OR',
+        conditions: [
+            {
+                operator: 'AND',
+                conditions: [
+                    { typeValue: 'Color', optionValue: 'Red' },
+                    { typeValue: 'Size', operator: 'in', optionValue: ['S', 'M'] }
+                ]
+            },
+            { typeValue: 'Material', operator: 'not_equals', optionValue: 'Cotton' }
+        ]
+    };
+
+    const constraints: VariantConstraint[] = [
+        {
+            id: 'premium-shipping',
+            if: premium,
+            then: { typeValue: 'Shipping', action: 'allow', options: ['Express'] }
+        },
+        {
+            id: 'leather-blue',
+            if: { typeValue: 'Material', optionValue: 'Leather' },
+            then: { typeValue: 'Color', action: 'disallow', options: ['Blue'] }
+        }
+    ];
+
+    it('should render nested conditions', () => {
+        expect(describeCondition(premium)).toBe(
+            '(Color is Red and Size is one of S, M) or Material is not Cotton'
+        );
+    });
+
+    it('should render context conditions', () => {
+        expect(describeCondition({
+            operator: 'AND',
+            conditions: [
+                { context: 'quantity', operator: 'gte', value: 10 },
+                { context: 'customerGroup', operator: 'in', value: ['b2b', 'wholesale'] },
+                { context: 'date', operator: 'between', value: ['2026-06-01', '2026-08-31'] }
+            ]
+        })).toBe('quantity ≥ 10 and customerGroup is one of b2b, wholesale and date is between 2026-06-01 and 2026-08-31');
+    });
+
+    it('should explain each violation', () => {
+        const result = explainSelection(
+            selection({ Color: 'Blue', Size: 'S', Material: 'Leather', Shipping: 'Standard' }),
+            constraints
+        );
+
+        expect(result.valid).toBe(false);
+        expect(result.blockedBy).toEqual(['premium-shipping', 'leather-blue']);
+        expect(result.violations.map(v => v.constraintId)).toEqual(result.blockedBy);
+
+        const [shipping, color] = result.violations;
+        expect(shipping.rejected).toEqual({ typeValue: 'Shipping', optionValue: 'Standard' });
+        expect(shipping.satisfiedConditions.map(c => c.typeValue)).toEqual(['Size', 'Material']);
+        expect(shipping.unsatisfiedConditions.map(c => c.typeValue)).toEqual(['Color']);
+        expect(shipping.message).toBe(
+            'Shipping Standard is not available when (Color is Red and Size is one of S, M) or Material is not Cotton (allowed: Express).'
+        );
+        expect(color.message).toBe('Color Blue is not available when Material is Leather.');
+    });
+
+    it('should return no violations for a valid selection', () => {
+        const result = explainSelection(selection({ Color: 'Red', Material: 'Cotton' }), constraints);
+        expect(result).toEqual({ valid: true, blockedBy: [], violations: [] });
+    });
+
+    it('should explain requirements and other constraint kinds', () => {
+        const rules: VariantConstraint[] = [
+            { id: 'leather-engraving', if: { typeValue: 'Material', optionValue: 'Leather' }, then: { typeValue: 'Engraving', action: 'require', options: ['Name', 'Logo'] } },
+            { id: 'blue-leather', kind: 'mutually-exclusive', options: [{ typeValue: 'Color', optionValue: 'Blue' }, { typeValue: 'Material', optionValue: 'Leather' }] },
+            { id: 'extras', kind: 'non-default', types: [{ typeValue: 'Gift Wrap', defaultOption: 'No' }, { typeValue: 'Card', defaultOption: 'None' }] },
+            { id: 'tuples', kind: 'forbidden-tuples', typeValues: ['Color', 'Size'], tuples: [['Red', 'S'], ['Blue', 'S']] }
+        ];
+        const result = explainSelection(selection({ Color: 'Blue', Material: 'Leather', Size: 'S' }), rules);
+
+        expect(result.blockedBy).toEqual(['leather-engraving', 'blue-leather', 'extras', 'tuples']);
+        expect(result.violations.map(v => v.message)).toEqual([
+            'Engraving is required when Material is Leather (one of: Name, Logo).',
+            'Color Blue and Material Leather can\'t be combined.',
+            'Choose at least one of: Gift Wrap other than No, Card other than None.',
+            'Color Blue and Size S can\'t be combined.'
+        ]);
+        expect(result.violations[1]).toMatchObject({
+            rejected: { typeValue: 'Material', optionValue: 'Leather' },
+            conflicting: [{ typeValue: 'Color', optionValue: 'Blue' }, { typeValue: 'Material', optionValue: 'Leather' }]
+        });
+    });
+
+    it('should accept a custom formatter for localization', () => {
+        const result = explainSelection(selection({ Material: 'Leather', Color: 'Blue' }), constraints, {
+            formatter: {
+                condition: (leaf) => `${leaf.typeValue} = ${'optionValue' in leaf ? leaf.optionValue : '?'}`,
+                violation: ({ rejected }, condition) => `${rejected.optionValue} nicht verfügbar, wenn ${condition}`
+            }
+        });
+        expect(result.violations[0].message).toBe('Blue nicht verfügbar, wenn Material = Leather');
+    });
+});
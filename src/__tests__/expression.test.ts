@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateExpression, parseExpression, validateExpression } from '../expression';
+import type { ExpressionContext } from '../expression';
+import { applyModifiers, traceModifiers } from '../modifiers';
+import type { VariantModifier } from '../modifiers';
+import type { ChildVariant, VariantSelectionItem } from '../index';
+
+const selection: VariantSelectionItem[] = [
+    { typeIndex: 0, typeValue: 'Model', optionIndex1Based: 1, optionValue: 'Pro', optionId: 'm-pro' },
+    { typeIndex: 1, typeValue: 'RAM', optionIndex1Based: 2, optionValue: '16GB', attributes: { gb: 16 } },
+    { typeIndex: 2, typeValue: 'Storage', optionIndex1Based: 1, optionValue: '512GB', numericValue: 512 }
+];
+
+const context: ExpressionContext = {
+    fields: { variantKey: '1-1-1', cost: 120, sku: 'LAP', weight: 2 },
+    base: { cost: 100 },
+    selection
+};
+
+const evaluate = (source: string) => {
+    const result = evaluateExpression(source, context);
+    return result.ok ? result.value : result.error;
+};
+
+describe('Expressions', () => {
+    it('should evaluate arithmetic with precedence and fields', () => {
+        expect(evaluate('base.cost * 1.1 + weight * 0.5')).toBeCloseTo(111);
+        expect(evaluate('(cost - base.cost) / 4')).toBe(5);
+        expect(evaluate('-cost % 7')).toBe(-1);
+        expect(evaluate('round(10 / 3, 2)')).toBe(3.33);
+        expect(evaluate('max(cost, 200, base.cost)')).toBe(200);
+        expect(evaluate('cost > 100 && !(weight == 3) ? "heavy" : "light"')).toBe('heavy');
+    });
+
+    it('should read the selection and option attributes', () => {
+        expect(evaluate('{Model}')).toBe('Pro');
+        expect(evaluate('{Model:id}')).toBe('m-pro');
+        expect(evaluate('{RAM:gb} * 5')).toBe(80);
+        expect(evaluate('{Storage:number} / 256')).toBe(2);
+        expect(evaluate('number({RAM}) + 1')).toBe(17);
+        expect(evaluate('{Color}')).toBeNull();
+    });
+
+    it('should interpolate variant types in strings', () => {
+        expect(evaluate('"{Model}-{RAM}-{Storage}"')).toBe('Pro-16GB-512GB');
+        expect(evaluate("sku + '-' + upper({Model})")).toBe('LAP-PRO');
+        expect(evaluate('"{{literal}} {Color}|"')).toBe('{literal} |');
+    });
+
+    it('should report syntax errors with their position', () => {
+        expect(parseExpression('cost * (1 + ')).toEqual({
+            ok: false,
+            error: { message: 'Unexpected end of expression', position: 12 }
+        });
+        expect(parseExpression('cost $ 2')).toMatchObject({ ok: false, error: { position: 5 } });
+        expect(parseExpression('"open')).toMatchObject({ ok: false, error: { message: 'Unterminated string', position: 0 } });
+        expect(parseExpression('cost 2')).toMatchObject({ ok: false, error: { message: "Unexpected '2'", position: 5 } });
+        expect(parseExpression('eval(cost)')).toMatchObject({ ok: false, error: { message: "Unknown function 'eval'" } });
+        expect(parseExpression('  ')).toMatchObject({ ok: false });
+    });
+
+    it('should report runtime errors instead of throwing', () => {
+        expect(evaluate('cost / (weight - 2)')).toEqual({ message: 'Division by zero', position: 0 });
+        expect(evaluate('1 + sku * 2')).toMatchObject({ position: 4 });
+        expect(evaluate('missing * 2')).toMatchObject({ message: 'Left side of \'*\' must be a number, got null' });
+        // Inherited object members aren't fields or attributes
+        expect([evaluate('constructor'), evaluate('base.toString'), evaluate('context.hasOwnProperty')]).toEqual([null, null, null]);
+        expect(evaluate('"{RAM:constructor}"')).toBe('');
+    });
+
+    it('should validate references for editors', () => {
+        expect(validateExpression('cost + colour', { fields: ['cost'] })).toEqual([
+            { message: "Unknown field 'colour'", position: 7 }
+        ]);
+        expect(validateExpression('"{Modell}-x"', { typeValues: ['Model'] })).toMatchObject([
+            { message: "Unknown variant type 'Modell'" }
+        ]);
+        expect(validateExpression('base.cost + {Model:id}', { fields: ['cost'], typeValues: ['Model'] })).toEqual([]);
+    });
+
+    it('should apply expression modifiers', () => {
+        const base: ChildVariant = { variantKey: '1-1-1', cost: 19.99, sku: 'LAP' };
+        const modifiers: VariantModifier[] = [
+            { id: 'sku', if: { typeValue: 'Model', optionValue: 'Pro' }, then: [{ field: 'sku', operation: 'set', expression: '"{Model}-{RAM}-{Storage}"' }] },
+            { id: 'markup', phase: 'multiplier', if: { typeValue: 'Model', optionValue: 'Pro' }, then: [{ field: 'cost', operation: 'set', expression: 'cost * 1.1 + {RAM:gb}' }] }
+        ];
+
+        expect(applyModifiers(base, selection, modifiers)).toMatchObject({ sku: 'Pro-16GB-512GB' });
+        expect(applyModifiers(base, selection, modifiers).cost).toBeCloseTo(37.989);
+        expect(applyModifiers(base, selection, modifiers, { money: {} }).cost).toBe(37.99);
+    });
+
+    it('should trace failing expressions as unsupported', () => {
+        const base: ChildVariant = { variantKey: '1-1-1', cost: 10 };
+        const trace = traceModifiers(base, selection, [
+            { id: 'bad', if: { typeValue: 'Model', optionValue: 'Pro' }, then: [{ field: 'cost', operation: 'add', expression: 'cost / 0' }] }
+        ]);
+
+        expect(trace.result.cost).toBe(10);
+        expect(trace.steps[0]).toMatchObject({ status: 'unsupported', error: { message: 'Division by zero' } });
+    });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+    cartesianIndexProduct,
+    countVariantCombinations,
+    createVariantKeyCodec,
+    generateChildVariants,
+    generateChildVariantsWithReport,
+    iterateChildVariants,
+    iterateVariantIndices,
+    iterateVariantKeys,
+    sortVariantKeysAsc
+} from '../index';
+import type { VariantType } from '../index';
+import type { VariantConstraint } from '../constraints';
+
+describe('Lazy Variant Generation', () => {
+    const variantTypes: VariantType[] = [
+        { value: 'Color', variantOptions: [{ value: 'Red' }, { value: 'Blue' }] },
+        { value: 'Size', variantOptions: Array.from({ length: 11 }, (_, i) => ({ value: `S${i + 1}` })) },
+        { value: 'Fit', variantOptions: [{ value: 'Slim' }, { value: 'Regular' }] }
+    ];
+
+    it('should yield keys in sortVariantKeysAsc order', () => {
+        const keys = Array.from(iterateVariantKeys(variantTypes));
+        expect(keys).toHaveLength(countVariantCombinations(variantTypes));
+        expect(keys).toEqual([...keys].sort((a, b) => sortVariantKeysAsc(a, b)));
+        expect(keys.slice(0, 3)).toEqual(['1-1-1', '1-1-2', '1-2-1']);
+    });
+
+    it('should yield multi-select keys in the key codec order', () => {
+        const types: VariantType[] = [
+            variantTypes[0],
+            { value: 'Extras', selectionMode: 'multi', variantOptions: [{ value: 'Case' }, { value: 'Strap' }, { value: 'Charger' }] }
+        ];
+        const keys = Array.from(iterateVariantKeys(types));
+        expect(keys.slice(0, 5)).toEqual(['1-0', '1-1', '1-2', '1-1+2', '1-3']);
+        expect(keys).toEqual([...keys].sort(createVariantKeyCodec(types).compare));
+    });
+
+    it('should match cartesianIndexProduct', () => {
+        expect(Array.from(iterateVariantIndices(variantTypes))).toEqual(cartesianIndexProduct([2, 11, 2]));
+    });
+
+    it('should support offset and limit pagination', () => {
+        const all = Array.from(iterateVariantKeys(variantTypes));
+        expect(Array.from(iterateVariantKeys(variantTypes, { offset: 21, limit: 5 }))).toEqual(all.slice(21, 26));
+        expect(Array.from(iterateVariantKeys(variantTypes, { offset: 43 }))).toEqual(all.slice(43));
+        expect(Array.from(iterateVariantKeys(variantTypes, { offset: 44 }))).toEqual([]);
+    });
+
+    it('should skip constraint-invalid combinations', () => {
+        const constraints: VariantConstraint[] = [
+            {
+                id: 'red-slim',
+                if: { typeValue: 'Color', optionValue: 'Red' },
+                then: { typeValue: 'Fit', action: 'allow', options: ['Slim'] }
+            },
+            {
+                id: 'no-blue',
+                if: { typeValue: 'Size', operator: 'not_equals', optionValue: '' },
+                then: { typeValue: 'Color', action: 'disallow', options: ['Blue'] }
+            }
+        ];
+
+        const keys = Array.from(iterateVariantKeys(variantTypes, { constraints }));
+        expect(keys).toHaveLength(11);
+        expect(keys.every(k => k.startsWith('1-') && k.endsWith('-1'))).toBe(true);
+
+        // Offset counts valid combinations only.
+        expect(Array.from(iterateVariantKeys(variantTypes, { constraints, offset: 9 }))).toEqual(['1-10-1', '1-11-1']);
+    });
+
+    it('should yield the same children as generateChildVariants', () => {
+        const existing = [{ variantKey: '2-3-1', sku: 'KEEP' }];
+        const page = Array.from(iterateChildVariants(variantTypes, { existing, offset: 26, limit: 2 }));
+        expect(page).toEqual(generateChildVariants(variantTypes, { existing }).slice(26, 28));
+        expect(page[0]).toBe(existing[0]);
+    });
+
+    it('should not count filtered titles towards the offset', () => {
+        const types: VariantType[] = [
+            { value: 'Color', variantOptions: [{ value: '' }, { value: 'Red' }] },
+            { value: 'Size', variantOptions: [{ value: 'S' }, { value: 'M' }] }
+        ];
+        const keys = Array.from(iterateChildVariants(types, { offset: 1 })).map(c => c.variantKey);
+        expect(keys).toEqual(['2-2']);
+    });
+});
+
+describe('Constraint-aware Generation', () => {
+    const variantTypes: VariantType[] = [
+        { value: 'Model', variantOptions: [{ value: 'Base' }, { value: 'Pro' }] },
+        { value: 'RAM', variantOptions: [{ value: '8GB' }, { value: '16GB' }, { value: '32GB' }] },
+        { value: 'Color', variantOptions: [{ value: 'Silver' }, { value: 'Gold' }] }
+    ];
+
+    const constraints: VariantConstraint[] = [
+        {
+            id: 'base-ram',
+            if: { typeValue: 'Model', optionValue: 'Base' },
+            then: { typeValue: 'RAM', action: 'disallow', options: ['32GB'] }
+        },
+        {
+            id: 'base-color',
+            if: { typeValue: 'Model', optionValue: 'Base' },
+            then: { typeValue: 'Color', action: 'allow', options: ['Silver'] }
+        }
+    ];
+
+    it('should only generate valid children', () => {
+        const keys = generateChildVariants(variantTypes, { constraints }).map(c => c.variantKey);
+        expect(keys).toEqual(['1-1-1', '1-2-1', '2-1-1', '2-1-2', '2-2-1', '2-2-2', '2-3-1', '2-3-2']);
+    });
+
+    it('should report which constraints eliminated combinations', () => {
+        const { children, report } = generateChildVariantsWithReport(variantTypes, { constraints });
+        expect(children.map(c => c.variantKey)).toEqual(
+            generateChildVariants(variantTypes, { constraints }).map(c => c.variantKey)
+        );
+        expect(report).toEqual({
+            total: 12,
+            valid: 8,
+            eliminated: 4,
+            eliminatedBy: { 'base-ram': 2, 'base-color': 3 }
+        });
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+    convertVariantKey,
+    createVariantKeyCodec,
+    generateChildVariants,
+    generateChildVariantsWithReport,
+    iterateVariantKeys,
+    migrateVariantKeys
+} from '../index';
+import type { VariantType } from '../index';
+import type { VariantConstraint } from '../constraints';
+
+describe('Variant Key Schemes', () => {
+    const variantTypes: VariantType[] = [
+        { value: 'Color', variantOptions: [{ value: 'Red', id: 'c-red' }, { value: 'Blue', id: 'c-blue' }] },
+        { value: 'Size', variantOptions: [{ value: 'S', id: 's-s' }, { value: 'M' }] }
+    ];
+    // Same options, reordered, plus a new one in front.
+    const reordered: VariantType[] = [
+        { value: 'Color', variantOptions: [{ value: 'Green', id: 'c-green' }, { value: 'Blue', id: 'c-blue' }, { value: 'Red', id: 'c-red' }] },
+        { value: 'Size', variantOptions: [{ value: 'M' }, { value: 'S', id: 's-s' }] }
+    ];
+
+    it('should format and parse id keys', () => {
+        const codec = createVariantKeyCodec(variantTypes, { keyScheme: 'id' });
+        expect(codec.format([1, 2])).toBe('c-red|M');
+        expect(codec.parse('c-red|M')).toEqual([1, 2]);
+        expect(codec.parse('c-red|XL')).toEqual([1, 0]);
+        expect(createVariantKeyCodec(reordered, { keyScheme: 'id' }).parse('c-red|M')).toEqual([3, 1]);
+    });
+
+    it('should keep hash keys stable across reordering', () => {
+        const before = createVariantKeyCodec(variantTypes, { keyScheme: 'hash' });
+        const after = createVariantKeyCodec(reordered, { keyScheme: 'hash' });
+        const key = before.format([2, 1]);
+        expect(key).toMatch(/^[0-9a-f]{8}-[0-9a-f]{8}$/);
+        expect(after.format([2, 2])).toBe(key);
+        expect(after.parse(key)).toEqual([2, 2]);
+    });
+
+    it('should sort keys in generation order', () => {
+        const codec = createVariantKeyCodec(reordered, { keyScheme: 'id' });
+        const keys = Array.from(iterateVariantKeys(reordered, { keyScheme: 'id' }));
+        expect([...keys].reverse().sort(codec.compare)).toEqual(keys);
+        expect(keys[0]).toBe('c-green|M');
+    });
+
+    it('should preserve children by key when options are reordered', () => {
+        const existing = generateChildVariants(variantTypes, { keyScheme: 'id' }).map((c, i) => ({ ...c, sku: `SKU-${i}` }));
+        const next = generateChildVariants(reordered, { keyScheme: 'id', existing });
+        expect(next.find((c) => c.variantKey === 'c-red|M')?.sku).toBe('SKU-1');
+        expect(next.filter((c) => c.sku)).toHaveLength(4);
+    });
+
+    it('should validate non-positional keys in generation reports', () => {
+        const constraints: VariantConstraint[] = [
+            { id: 'no-red-m', if: { typeValue: 'Color', optionValue: 'Red' }, then: { typeValue: 'Size', action: 'disallow', options: ['M'] } }
+        ];
+        const { children, report } = generateChildVariantsWithReport(variantTypes, { keyScheme: 'hash' });
+        expect(children).toHaveLength(4);
+        expect(report.eliminated).toBe(0);
+        const filtered = generateChildVariantsWithReport(variantTypes, { keyScheme: 'id', constraints });
+        expect(filtered.children.map((c) => c.variantKey)).toEqual(['c-red|s-s', 'c-blue|s-s', 'c-blue|M']);
+    });
+
+    it('should convert and migrate stored positional keys', () => {
+        expect(convertVariantKey('2-1', variantTypes, { to: { keyScheme: 'id' } })).toBe('c-blue|s-s');
+        expect(convertVariantKey('c-blue|s-s', variantTypes, { from: { keyScheme: 'id' }, to: {} })).toBe('2-1');
+        expect(convertVariantKey('3-1', variantTypes, { to: { keyScheme: 'id' } })).toBeNull();
+
+        const { children, unresolved } = migrateVariantKeys(
+            [{ variantKey: '1-2', sku: 'A' }, { variantKey: '1', sku: 'B' }],
+            variantTypes,
+            { to: { keyScheme: 'id' } }
+        );
+        expect(children).toEqual([{ variantKey: 'c-red|M', sku: 'A' }]);
+        expect(unresolved).toEqual([{ variantKey: '1', sku: 'B' }]);
+    });
+});
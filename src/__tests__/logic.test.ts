@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { isConditionMet } from '../constraints';
+import { evaluateCondition, isConditionMet } from '../constraints';
 import type { LogicCondition } from '../constraints';
 import type { VariantSelectionItem } from '../index';
 
@@ -82,4 +82,84 @@ describe('Logic++ Engine', () => {
         };
         expect(isConditionMet(s, c)).toBe(true);
     });
+
+    it('should handle NOT groups', () => {
+        const notPro: LogicCondition = {
+            operator: 'NOT',
+            conditions: [{ typeValue: 'Model', optionValue: 'Pro' }]
+        };
+        expect(isConditionMet(selection({ Model: 'Base' }), notPro)).toBe(true);
+        expect(isConditionMet(selection({ Model: 'Pro' }), notPro)).toBe(false);
+        // Nothing selected is "not Pro" as well.
+        expect(isConditionMet(selection({}), notPro)).toBe(true);
+
+        // With several conditions NOT means "none of them".
+        const neither: LogicCondition = {
+            operator: 'NOT',
+            conditions: [
+                { typeValue: 'Color', optionValue: 'Red' },
+                { typeValue: 'Size', optionValue: 'XL' }
+            ]
+        };
+        expect(isConditionMet(selection({ Color: 'Blue', Size: 'M' }), neither)).toBe(true);
+        expect(isConditionMet(selection({ Color: 'Blue', Size: 'XL' }), neither)).toBe(false);
+    });
+
+    it('should handle XOR (exactly one of) groups', () => {
+        const c: LogicCondition = {
+            operator: 'XOR',
+            conditions: [
+                { typeValue: 'Color', optionValue: 'Red' },
+                { typeValue: 'Size', optionValue: 'XL' },
+                { typeValue: 'Material', optionValue: 'Silk' }
+            ]
+        };
+        expect(isConditionMet(selection({ Color: 'Red', Size: 'M' }), c)).toBe(true);
+        expect(isConditionMet(selection({ Color: 'Red', Size: 'XL' }), c)).toBe(false);
+        expect(isConditionMet(selection({ Color: 'Blue', Size: 'M' }), c)).toBe(false);
+    });
+
+    it('should treat empty groups as false', () => {
+        expect(isConditionMet(selection({}), { operator: 'NOT', conditions: [] })).toBe(false);
+        expect(isConditionMet(selection({}), { operator: 'XOR', conditions: [] })).toBe(false);
+    });
+
+    it('should handle selected / unselected leaves', () => {
+        const s = selection({ Color: 'Red' });
+        expect(isConditionMet(s, { typeValue: 'Color', operator: 'selected' })).toBe(true);
+        expect(isConditionMet(s, { typeValue: 'Engraving', operator: 'selected' })).toBe(false);
+        expect(isConditionMet(s, { typeValue: 'Engraving', operator: 'unselected' })).toBe(true);
+    });
+
+    it('should compare numeric option values and attributes', () => {
+        const s = selection({ RAM: '16GB' });
+        expect(isConditionMet(s, { typeValue: 'RAM', operator: 'gte', value: 16 })).toBe(true);
+        expect(isConditionMet(s, { typeValue: 'RAM', operator: 'gt', value: 16 })).toBe(false);
+        expect(isConditionMet(s, { typeValue: 'Color', operator: 'lt', value: 1 })).toBe(false);
+
+        const withAttributes: VariantSelectionItem[] = [
+            { typeValue: 'Storage', optionValue: '1TB', typeIndex: 0, optionIndex1Based: 3, attributes: { gb: 1024 } }
+        ];
+        expect(isConditionMet(withAttributes, { typeValue: 'Storage', operator: 'gte', value: 512, attribute: 'gb' })).toBe(true);
+        expect(isConditionMet(withAttributes, { typeValue: 'Storage', operator: 'gte', value: 512 })).toBe(false);
+    });
+
+    it('should report unknown results for pending types', () => {
+        const notPro: LogicCondition = {
+            operator: 'NOT',
+            conditions: [{ typeValue: 'Model', optionValue: 'Pro' }]
+        };
+        const pending = new Set(['Model']);
+        expect(evaluateCondition(selection({}), notPro, pending)).toBeUndefined();
+        expect(evaluateCondition(selection({ Model: 'Pro' }), notPro, pending)).toBe(false);
+
+        const either: LogicCondition = {
+            operator: 'OR',
+            conditions: [
+                { typeValue: 'Model', optionValue: 'Pro' },
+                { typeValue: 'Color', optionValue: 'Red' }
+            ]
+        };
+        expect(evaluateCondition(selection({ Color: 'Red' }), either, pending)).toBe(true);
+    });
 });
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+    compileConstraints,
+    getAvailableOptions,
+    normalizeVariantTypes,
+    reconcileChildVariants,
+    validateSelection,
+    validateVariantTypes,
+    variantKeyToLabel,
+    variantKeyToSelection,
+    variantValuesToKey
+} from '../index';
+import type { VariantType } from '../index';
+import type { VariantConstraint } from '../constraints';
+
+describe('Option Metadata', () => {
+    const variantTypes: VariantType<{ gb: number }>[] = [
+        {
+            value: 'Color',
+            id: 'color',
+            variantOptions: [
+                { value: 'Red', id: 'c-red', label: 'Cherry Red', swatch: '#c00' },
+                { value: 'Blue', id: 'c-blue' }
+            ]
+        },
+        {
+            value: 'RAM',
+            id: 'ram',
+            variantOptions: [
+                { value: '8GB', id: 'r-8', numericValue: 8, attributes: { gb: 8 } },
+                { value: 'Sixteen', id: 'r-16', numericValue: 16, attributes: { gb: 16 } }
+            ]
+        }
+    ];
+
+    it('should use labels for titles and copy ids into selections', () => {
+        expect(variantKeyToLabel('1-2', variantTypes)).toBe('Cherry Red - Sixteen');
+        expect(variantKeyToSelection('1-2', variantTypes)).toEqual([
+            { typeIndex: 0, optionIndex1Based: 1, typeValue: 'Color', optionValue: 'Red', typeId: 'color', optionId: 'c-red' },
+            {
+                typeIndex: 1, optionIndex1Based: 2, typeValue: 'RAM', optionValue: 'Sixteen',
+                typeId: 'ram', optionId: 'r-16', numericValue: 16, attributes: { gb: 16 }
+            }
+        ]);
+    });
+
+    it('should build keys from ids or labels', () => {
+        expect(variantValuesToKey(['c-blue', 'r-8'], variantTypes, { matchBy: 'id' })).toBe('2-1');
+        expect(variantValuesToKey(['Cherry Red', '8GB'], variantTypes, { matchBy: 'label' })).toBe('1-1');
+        expect(variantValuesToKey(['Cherry Red', '8GB'], variantTypes)).toBe('0-1');
+    });
+
+    it('should evaluate rules that reference ids', () => {
+        const constraints: VariantConstraint[] = [
+            {
+                id: 'red-needs-16',
+                if: { typeValue: 'color', optionValue: 'c-red', ref: 'id' },
+                then: { typeValue: 'ram', action: 'allow', options: ['r-16'], ref: 'id' }
+            }
+        ];
+        // Relabeling or renaming the value does not break the rule.
+        const renamed = variantTypes.map((t) => ({
+            ...t,
+            variantOptions: t.variantOptions.map((o) => ({ ...o, value: `${o.value}!` }))
+        }));
+
+        for (const types of [variantTypes, renamed]) {
+            const compiled = compileConstraints(types, constraints);
+            expect(validateSelection(variantKeyToSelection('1-1', types), constraints).blockedBy).toEqual(['red-needs-16']);
+            expect(compiled.validateVariantKey('1-1').blockedBy).toEqual(['red-needs-16']);
+            expect(compiled.validateVariantKey('1-2').valid).toBe(true);
+            expect(compiled.validateVariantKey('2-1').valid).toBe(true);
+        }
+
+        const ram = getAvailableOptions(variantTypes[1], variantKeyToSelection('1', variantTypes), constraints);
+        expect(ram.map((o) => o.id)).toEqual(['r-16']);
+    });
+
+    it('should prefer numericValue over the leading number of the value', () => {
+        const constraints: VariantConstraint[] = [
+            {
+                id: 'big-ram-blue',
+                if: { typeValue: 'RAM', operator: 'gte', value: 16 },
+                then: { typeValue: 'Color', action: 'allow', options: ['Blue'] }
+            }
+        ];
+        expect(validateSelection(variantKeyToSelection('1-2', variantTypes), constraints).valid).toBe(false);
+        expect(compileConstraints(variantTypes, constraints).validateVariantKey('1-2').valid).toBe(false);
+    });
+
+    it('should reconcile by id across relabeled values', () => {
+        const next: VariantType[] = [
+            { ...variantTypes[0], variantOptions: [{ value: 'Navy', id: 'c-blue' }, { value: 'Crimson', id: 'c-red' }] },
+            variantTypes[1]
+        ];
+        const existing = [{ variantKey: '1-2', sku: 'RED-16' }];
+
+        const byValue = reconcileChildVariants(variantTypes, next, { existing });
+        expect(byValue.dropped).toHaveLength(1);
+
+        const byId = reconcileChildVariants(variantTypes, next, { existing, matchBy: 'id' });
+        expect(byId.dropped).toEqual([]);
+        expect(byId.children.find((c) => c.sku === 'RED-16')?.variantKey).toBe('2-2');
+    });
+
+    it('should keep metadata when normalizing and warn on duplicate ids', () => {
+        const { variantTypes: normalized } = normalizeVariantTypes([
+            { value: ' Color ', id: 'color', variantOptions: [{ value: ' Red ', id: 'c-red', label: 'Cherry' }] }
+        ]);
+        expect(normalized).toEqual([
+            { value: 'Color', id: 'color', variantOptions: [{ value: 'Red', id: 'c-red', label: 'Cherry' }] }
+        ]);
+
+        const { warnings } = validateVariantTypes([
+            { value: 'A', id: 'x', variantOptions: [{ value: '1', id: 'o' }, { value: '2', id: 'o' }] },
+            { value: 'B', id: 'x', variantOptions: [{ value: '1' }] }
+        ]);
+        expect(warnings).toContain('Duplicate option id "o" in type "A".');
+        expect(warnings).toContain('Duplicate variant type id "x".');
+    });
+});
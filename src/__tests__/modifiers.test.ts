@@ -1,7 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { applyModifiers } from '../modifiers';
+import { applyModifiers, resolveModifiers, sortModifiers, traceModifiers } from '../modifiers';
 import type { VariantModifier } from '../modifiers';
 import type { VariantSelectionItem, ChildVariant } from '../index';
+import type { EvaluationContext } from '../constraints';
 
 describe('Modifier Engine', () => {
     const modifiers: VariantModifier[] = [
@@ -93,4 +94,199 @@ describe('Modifier Engine', () => {
 
         expect(result.cost).toBe(50);
     });
+
+    describe('Phases and ordering', () => {
+        const gold: VariantSelectionItem[] = [
+            { typeValue: "Color", optionValue: "Gold", typeIndex: 0, optionIndex1Based: 1 }
+        ];
+        const always = { typeValue: "Color", operator: "selected" } as const;
+        const pricing: VariantModifier[] = [
+            { id: "surcharge", if: always, then: [{ field: "cost", operation: "add", value: 100 }] },
+            { id: "round", phase: "rounding", if: always, then: [{ field: "cost", operation: "round", value: 50 }] },
+            { id: "vat", phase: "multiplier", if: always, then: [{ field: "cost", operation: "multiply", value: 1.19 }] },
+            { id: "base", phase: "base", if: always, then: [{ field: "cost", operation: "set", value: 800 }] }
+        ];
+
+        it('should run phases in order regardless of list order', () => {
+            // (800 + 100) * 1.19 = 1071 -> 1050
+            expect(applyModifiers(baseProduct, gold, pricing).cost).toBe(1050);
+            expect(applyModifiers(baseProduct, gold, [...pricing].reverse()).cost).toBe(1050);
+            expect(sortModifiers(pricing).map((m) => m.id)).toEqual(["base", "surcharge", "vat", "round"]);
+        });
+
+        it('should order by priority, then list order, within a phase', () => {
+            const list: VariantModifier[] = [
+                { id: "b", if: always, then: [{ field: "sku", operation: "add", value: "-B" }] },
+                { id: "a", if: always, then: [{ field: "sku", operation: "add", value: "-A" }] },
+                { id: "c", priority: 5, if: always, then: [{ field: "sku", operation: "add", value: "-C" }] }
+            ];
+            expect(applyModifiers(baseProduct, gold, list).sku).toBe("PROD-C-B-A");
+
+            // "m10" sorts before "m2" as a string; the list order still wins
+            const ties: VariantModifier[] = [
+                { id: "m2", if: always, then: [{ field: "cost", operation: "set", value: 800 }] },
+                { id: "m10", if: always, then: [{ field: "cost", operation: "add", value: 100 }] }
+            ];
+            expect(sortModifiers(ties).map((m) => m.id)).toEqual(["m2", "m10"]);
+            expect(applyModifiers(baseProduct, gold, ties).cost).toBe(900);
+        });
+
+        it('should honor exclusive and stop flags', () => {
+            const exclusive: VariantModifier[] = [
+                ...pricing,
+                { id: "promo", exclusive: true, priority: -1, if: always, then: [{ field: "cost", operation: "add", value: 10 }] }
+            ];
+            // The exclusive promo replaces the other surcharges: (800 + 10) * 1.19 = 963.9 -> 950
+            expect(resolveModifiers(gold, exclusive).map((m) => m.id)).toEqual(["base", "promo", "vat", "round"]);
+            expect(applyModifiers(baseProduct, gold, exclusive).cost).toBe(950);
+
+            const stopped: VariantModifier[] = [
+                ...pricing,
+                { id: "fixed", phase: "base", priority: 1, stop: true, if: always, then: [{ field: "cost", operation: "set", value: 999 }] }
+            ];
+            expect(applyModifiers(baseProduct, gold, stopped).cost).toBe(999);
+        });
+    });
+
+    describe('Tracing', () => {
+        it('should record every applied action and skipped modifier', () => {
+            const selection: VariantSelectionItem[] = [
+                { typeValue: "Size", optionValue: "XXL", typeIndex: 1, optionIndex1Based: 2 }
+            ];
+            // @ts-expect-error -- multiply doesn't fit a string field; still reported at runtime
+            const unsupported: VariantModifier = { id: "m3", if: { typeValue: "Size", operator: "selected" }, then: [{ field: "sku", operation: "multiply", value: 2 }] };
+            const traced: VariantModifier[] = [...modifiers, unsupported];
+
+            const { result, steps } = traceModifiers(baseProduct, selection, traced);
+            expect(result).toEqual(applyModifiers(baseProduct, selection, traced));
+            expect(steps).toEqual([
+                { modifierId: "m1", phase: "surcharge", status: "condition-not-met" },
+                { modifierId: "m2", phase: "surcharge", status: "applied", action: traced[1].then[0], before: 100, after: 120 },
+                { modifierId: "m2", phase: "surcharge", status: "applied", action: traced[1].then[1], before: 10, after: 500 },
+                { modifierId: "m3", phase: "surcharge", status: "unsupported", action: traced[2].then[0], before: "PROD" }
+            ]);
+        });
+
+        it('should mark excluded and stopped modifiers', () => {
+            const always = { typeValue: "Size", operator: "unselected" } as const;
+            const flagged: VariantModifier[] = [
+                { id: "a", exclusive: true, if: always, then: [{ field: "cost", operation: "add", value: 1 }] },
+                { id: "b", if: always, then: [{ field: "cost", operation: "add", value: 2 }] },
+                { id: "c", phase: "multiplier", stop: true, if: always, then: [{ field: "cost", operation: "multiply", value: 2 }] },
+                { id: "d", phase: "override", if: always, then: [{ field: "cost", operation: "set", value: 0 }] }
+            ];
+            const { result, steps } = traceModifiers(baseProduct, [], flagged);
+            expect(result.cost).toBe(202);
+            expect(steps.map((s) => `${s.modifierId}:${s.status}`)).toEqual(["a:applied", "b:excluded", "c:applied", "d:stopped"]);
+        });
+    });
+
+    describe('Typed fields', () => {
+        type Child = ChildVariant & {
+            weight: number;
+            leadTimeDays?: number;
+            taxClass: string;
+            tags: string[];
+            featured: boolean;
+        };
+        const base: Child = {
+            variantKey: '1', cost: 10, imageIds: [1, 2], weight: 1.5, taxClass: 'standard', tags: ['new'], featured: false
+        };
+        const always = { typeValue: 'Size', operator: 'unselected' } as const;
+
+        it('should apply operations that fit each field type', () => {
+            const typed: VariantModifier<Child>[] = [
+                {
+                    id: 'heavy',
+                    if: always,
+                    then: [
+                        { field: 'weight', operation: 'add', value: 0.5 },
+                        { field: 'leadTimeDays', operation: 'set', value: 14 },
+                        { field: 'taxClass', operation: 'append', value: '-reduced' },
+                        { field: 'tags', operation: 'append', value: ['sale', 'xl'] },
+                        { field: 'tags', operation: 'remove', value: 'new' },
+                        { field: 'imageIds', operation: 'append', value: 3 },
+                        { field: 'imageIds', operation: 'remove', value: [1] },
+                        { field: 'featured', operation: 'toggle' }
+                    ]
+                }
+            ];
+
+            expect(applyModifiers(base, [], typed)).toEqual({
+                ...base,
+                weight: 2,
+                leadTimeDays: 14,
+                taxClass: 'standard-reduced',
+                tags: ['sale', 'xl'],
+                imageIds: [2, 3],
+                featured: true
+            });
+            expect(base.tags).toEqual(['new']);
+        });
+
+        it('should accept plain ChildVariant modifiers for wider children', () => {
+            const plain: VariantModifier[] = [{ id: 'p', if: always, then: [{ field: 'cost', operation: 'multiply', value: 2 }] }];
+            const result: Child = applyModifiers(base, [], plain);
+            expect(result.cost).toBe(20);
+        });
+
+        it('should reject impossible operations at compile time', () => {
+            const rejected: VariantModifier<Child>[] = [
+                // @ts-expect-error -- numbers can't be appended to
+                { id: 'x1', if: always, then: [{ field: 'weight', operation: 'append', value: 1 }] },
+                // @ts-expect-error -- arrays take elements of their own type
+                { id: 'x2', if: always, then: [{ field: 'imageIds', operation: 'append', value: 'a' }] },
+                // @ts-expect-error -- strings can't be toggled
+                { id: 'x3', if: always, then: [{ field: 'taxClass', operation: 'toggle' }] },
+                // @ts-expect-error -- unknown field
+                { id: 'x4', if: always, then: [{ field: 'color', operation: 'set', value: 'red' }] }
+            ];
+            // At runtime only the current value's type is known, not the array's element type.
+            expect(traceModifiers(base, [], rejected).steps.map((s) => s.status)).toEqual([
+                'unsupported', 'applied', 'unsupported', 'applied'
+            ]);
+        });
+    });
+
+    describe('Evaluation context', () => {
+        const pricing: VariantModifier[] = [
+            { id: 'tier-10', exclusive: true, priority: 1, if: { context: 'quantity', operator: 'gte', value: 10 }, then: [{ field: 'cost', operation: 'multiply', value: 0.95 }] },
+            { id: 'tier-50', exclusive: true, priority: 2, if: { context: 'quantity', operator: 'gte', value: 50 }, then: [{ field: 'cost', operation: 'multiply', value: 0.9 }] },
+            { id: 'b2b', phase: 'base', if: { context: 'customerGroup', value: 'b2b' }, then: [{ field: 'cost', operation: 'set', value: 80 }] },
+            {
+                id: 'summer',
+                phase: 'override',
+                if: { operator: 'AND', conditions: [{ typeValue: 'Color', optionValue: 'Gold' }, { context: 'date', operator: 'between', value: ['2026-06-01', '2026-08-31'] }] },
+                then: [{ field: 'cost', operation: 'subtract', value: 5 }]
+            }
+        ];
+        const gold: VariantSelectionItem[] = [
+            { typeValue: "Color", optionValue: "Gold", typeIndex: 0, optionIndex1Based: 1 }
+        ];
+        const cost = (context: EvaluationContext) => applyModifiers(baseProduct, gold, pricing, { context }).cost;
+
+        it('should apply volume breaks by quantity', () => {
+            expect(cost({ date: '2026-01-01' })).toBe(100);
+            expect(cost({ quantity: 9, date: '2026-01-01' })).toBe(100);
+            expect(cost({ quantity: 10, date: '2026-01-01' })).toBe(95);
+            // Only the highest exclusive tier applies
+            expect(cost({ quantity: 50, date: '2026-01-01' })).toBe(90);
+            expect(resolveModifiers(gold, pricing, { quantity: 50, date: '2026-01-01' }).map((m) => m.id)).toEqual(['tier-50']);
+        });
+
+        it('should apply price lists and time-limited promotions', () => {
+            expect(cost({ customerGroup: 'b2b', date: '2026-01-01' })).toBe(80);
+            expect(cost({ customerGroup: 'b2b', quantity: 10, date: new Date('2026-07-15') })).toBe(71);
+            expect(cost({ date: '2026-08-31' })).toBe(95);
+            expect(cost({ date: '2026-09-01' })).toBe(100);
+        });
+
+        it('should expose the context to expressions', () => {
+            const perUnit: VariantModifier[] = [
+                { id: 'setup', phase: 'override', if: { context: 'quantity', operator: 'gt', value: 0 }, then: [{ field: 'cost', operation: 'add', expression: '25 / context.quantity' }] }
+            ];
+            expect(applyModifiers(baseProduct, [], perUnit, { context: { quantity: 5 } }).cost).toBe(105);
+            expect(applyModifiers(baseProduct, [], perUnit).cost).toBe(100);
+        });
+    });
 });
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+    formatMoney,
+    fromMinorUnits,
+    getCurrencyScale,
+    parseDecimal,
+    roundMoney,
+    toMinorUnits
+} from '../money';
+import { applyModifiers, traceModifiers } from '../modifiers';
+import type { VariantModifier } from '../modifiers';
+import type { ChildVariant } from '../index';
+
+describe('Money', () => {
+    it('should parse decimals exactly', () => {
+        expect(parseDecimal(19.99)).toEqual({ digits: 1999n, scale: 2 });
+        expect(parseDecimal('-0.5')).toEqual({ digits: -5n, scale: 1 });
+        expect(parseDecimal(1e-7)).toEqual({ digits: 1n, scale: 7 });
+        expect(parseDecimal(2e21)).toEqual({ digits: 2000000000000000000000n, scale: 0 });
+        expect(() => parseDecimal(NaN)).toThrow(RangeError);
+    });
+
+    it('should round with the configured mode', () => {
+        expect(roundMoney(2.345)).toBe(2.35);
+        expect(roundMoney(-2.345)).toBe(-2.35);
+        expect(roundMoney(2.345, { rounding: 'half-even' })).toBe(2.34);
+        expect(roundMoney(2.355, { rounding: 'half-even' })).toBe(2.36);
+        expect(roundMoney(2.349, { rounding: 'floor' })).toBe(2.34);
+        expect(roundMoney(-2.341, { rounding: 'floor' })).toBe(-2.35);
+        expect(roundMoney(2.341, { rounding: 'ceil' })).toBe(2.35);
+        expect(roundMoney(1234.5, { currency: 'JPY' })).toBe(1235);
+    });
+
+    it('should convert minor units and format per currency', () => {
+        expect(toMinorUnits(19.99)).toBe(1999n);
+        expect(toMinorUnits('1.2345', { scale: 3 })).toBe(1235n);
+        expect(fromMinorUnits(1999n)).toBe(19.99);
+        expect(getCurrencyScale('JPY')).toBe(0);
+        expect(getCurrencyScale('KWD')).toBe(3);
+        expect(formatMoney(1350, 'USD', { locale: 'en-US' })).toBe('$1,350.00');
+        expect(formatMoney(135099n, 'USD', { locale: 'en-US', unit: 'minor' })).toBe('$1,350.99');
+    });
+});
+
+describe('Money-safe modifiers', () => {
+    const base: ChildVariant = { variantKey: '1', sku: 'P', cost: 19.99 };
+    const always = { typeValue: 'Size', operator: 'unselected' } as const;
+    const markup: VariantModifier[] = [
+        { id: 'markup', phase: 'multiplier', if: always, then: [{ field: 'cost', operation: 'multiply', value: 1.2 }] }
+    ];
+
+    it('should avoid float noise', () => {
+        expect(applyModifiers(base, [], markup).cost).not.toBe(23.99);
+        expect(applyModifiers(base, [], markup, { money: {} }).cost).toBe(23.99);
+    });
+
+    it('should round at the configured points', () => {
+        const twice: VariantModifier[] = [
+            { id: 'a', phase: 'multiplier', if: always, then: [{ field: 'cost', operation: 'multiply', value: 1.005 }] },
+            { id: 'b', phase: 'override', if: always, then: [{ field: 'cost', operation: 'multiply', value: 1.005 }] }
+        ];
+        const cheap = { ...base, cost: 1 };
+        // 1 * 1.005 = 1.005 -> 1.01 -> 1.01505 -> 1.02
+        expect(applyModifiers(cheap, [], twice, { money: { roundAt: 'action' } }).cost).toBe(1.02);
+        // 1 * 1.005 * 1.005 = 1.010025 -> 1.01
+        expect(applyModifiers(cheap, [], twice, { money: { roundAt: 'end' } }).cost).toBe(1.01);
+        expect(applyModifiers(cheap, [], twice, { money: { roundAt: 'phase', rounding: 'floor' } }).cost).toBe(1);
+    });
+
+    it('should work in integer minor units', () => {
+        const list: VariantModifier[] = [
+            ...markup,
+            { id: 'fee', if: always, then: [{ field: 'cost', operation: 'add', value: 1 }] }
+        ];
+        const { result, steps } = traceModifiers({ ...base, cost: 1999 }, [], list, { money: { unit: 'minor' } });
+        // (1999 + 1) * 1.2
+        expect(result.cost).toBe(2400);
+        expect(steps.map((s) => s.after)).toEqual([2000, 2400]);
+    });
+
+    it('should leave money fields that are NaN or Infinity as they are', () => {
+        const broken = { ...base, cost: Number.NaN };
+        expect(applyModifiers(broken, [], markup, { money: {} }).cost).toBeNaN();
+
+        const { result, steps } = traceModifiers({ ...base, cost: Infinity }, [], markup, { money: { unit: 'minor' } });
+        expect(result.cost).toBe(Infinity);
+        expect(steps.map((s) => s.status)).toEqual(['unsupported']);
+    });
+});
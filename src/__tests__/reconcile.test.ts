@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { generateChildVariants, reconcileChildVariants } from '../index';
+import type { VariantType } from '../index';
+
+describe('Rename-Aware Reconciliation', () => {
+    const before: VariantType[] = [
+        { value: 'Color', variantOptions: [{ value: 'Grey' }, { value: 'Black' }] },
+        { value: 'Size', variantOptions: [{ value: 'S' }, { value: 'M' }] }
+    ];
+    const existing = generateChildVariants(before).map((c) => ({ ...c, sku: `SKU-${c.variantKey}` }));
+    const skuOf = (children: { variantKey: string; sku?: string }[], key: string) =>
+        children.find((c) => c.variantKey === key)?.sku;
+
+    it('should keep children of exactly matching options', () => {
+        const after: VariantType[] = [
+            { value: 'Color', variantOptions: [{ value: 'White' }, { value: 'Grey' }, { value: 'Black' }] },
+            before[1]
+        ];
+        const { children, dropped, report } = reconcileChildVariants(before, after, { existing });
+        expect(dropped).toEqual([]);
+        expect(skuOf(children, '2-1')).toBe('SKU-1-1');
+        expect(report.matched).toHaveLength(4);
+        expect(report.created.map((e) => e.variantKey)).toEqual(['1-1', '1-2']);
+    });
+
+    it('should drop renamed options without a rename map', () => {
+        const after: VariantType[] = [
+            { value: 'Color', variantOptions: [{ value: 'Gray' }, { value: 'Black' }] },
+            before[1]
+        ];
+        const { dropped, report } = reconcileChildVariants(before, after, { existing });
+        expect(dropped.map((c) => c.sku)).toEqual(['SKU-1-1', 'SKU-1-2']);
+        expect(report.dropped[0].reason).toBe('Option "Grey" of type "Color" has no match in "Color".');
+    });
+
+    it('should follow explicit type and option renames', () => {
+        const after: VariantType[] = [
+            { value: 'Size', variantOptions: [{ value: 'S' }, { value: 'M' }] },
+            { value: 'Colour', variantOptions: [{ value: 'Black' }, { value: 'Gray' }] }
+        ];
+        const { children, dropped, report } = reconcileChildVariants(before, after, {
+            existing,
+            renames: { types: { Color: 'Colour' }, options: { Color: { Grey: 'Gray' } } }
+        });
+        expect(dropped).toEqual([]);
+        expect(skuOf(children, '2-2')).toBe('SKU-1-2');
+        expect(skuOf(children, '1-1')).toBe('SKU-2-1');
+        const renamed = report.renamed.find((e) => e.previousKey === '1-2');
+        expect(renamed?.reason).toBe('Type "Color" -> "Colour"; Colour "Grey" -> "Gray" (renamed)');
+    });
+
+    it('should fall back to position or fuzzy similarity', () => {
+        const after: VariantType[] = [
+            { value: 'Color', variantOptions: [{ value: 'Gray' }, { value: 'Black' }] },
+            before[1]
+        ];
+        const byPosition = reconcileChildVariants(before, after, { existing, fallback: 'position' });
+        expect(byPosition.dropped).toEqual([]);
+        expect(byPosition.report.renamed[0].reason).toBe('Color "Grey" -> "Gray" (position)');
+
+        const reordered: VariantType[] = [
+            { value: 'Color', variantOptions: [{ value: 'Black' }, { value: 'Navy' }, { value: 'Gray' }] },
+            before[1]
+        ];
+        const fuzzy = reconcileChildVariants(before, reordered, { existing, fallback: 'fuzzy' });
+        expect(fuzzy.dropped).toEqual([]);
+        expect(skuOf(fuzzy.children, '3-2')).toBe('SKU-1-2');
+        expect(fuzzy.report.renamed[0].reason).toBe('Color "Grey" -> "Gray" (fuzzy)');
+    });
+
+    it('should report ambiguous fuzzy matches and competing children', () => {
+        const after: VariantType[] = [
+            { value: 'Color', variantOptions: [{ value: 'Black' }, { value: 'Grea' }, { value: 'Gres' }] },
+            before[1]
+        ];
+        const fuzzy = reconcileChildVariants(before, after, { existing, fallback: 'fuzzy' });
+        expect(fuzzy.report.ambiguous.map((e) => e.previousKey)).toEqual(['1-1', '1-2']);
+        expect(fuzzy.report.ambiguous[0].reason).toBe('Option "Grey" of type "Color" is equally similar to "Grea", "Gres".');
+        expect(fuzzy.dropped).toHaveLength(2);
+
+        const merged: VariantType[] = [
+            { value: 'Color', variantOptions: [{ value: 'Dark' }] },
+            before[1]
+        ];
+        const { children, report } = reconcileChildVariants(before, merged, {
+            existing,
+            renames: { options: { Color: { Grey: 'Dark', Black: 'Dark' } } }
+        });
+        expect(skuOf(children, '1-1')).toBe('SKU-1-1');
+        expect(report.ambiguous.map((e) => e.reason)).toEqual([
+            'Maps to the same combination as "1-1", which was kept.',
+            'Maps to the same combination as "1-2", which was kept.'
+        ]);
+    });
+});
+
+describe('Reconciliation Across Added and Removed Types', () => {
+    const before: VariantType[] = [
+        { value: 'Color', variantOptions: [{ value: 'Red' }, { value: 'Blue' }] },
+        { value: 'Size', variantOptions: [{ value: 'S' }, { value: 'M' }] }
+    ];
+    const existing = generateChildVariants(before).map((c, i) => ({
+        ...c,
+        sku: `SKU-${c.variantKey}`,
+        stock: 10 * (i + 1),
+        cost: i === 0 ? null : 5 + i
+    }));
+
+    it('should move children to the default option of an added type', () => {
+        const after: VariantType[] = [
+            { value: 'Material', variantOptions: [{ value: 'Cotton' }, { value: 'Silk' }] },
+            ...before
+        ];
+        const { children, dropped, report } = reconcileChildVariants(before, after, {
+            existing,
+            defaultOptions: { Material: 'Silk' }
+        });
+        expect(dropped).toEqual([]);
+        expect(children.find((c) => c.variantKey === '2-1-2')?.sku).toBe('SKU-1-2');
+        expect(children.filter((c) => c.sku)).toHaveLength(4);
+        expect(report.renamed[0].reason).toBe('Added type "Material" ("Silk")');
+        expect(report.created).toHaveLength(4);
+    });
+
+    it('should fan children out to every option of an added type', () => {
+        const after: VariantType[] = [
+            ...before,
+            { value: 'Fit', variantOptions: [{ value: 'Slim' }, { value: 'Regular' }] }
+        ];
+        const { children, report } = reconcileChildVariants(before, after, {
+            existing,
+            onTypeAdded: 'fan-out',
+            splitStrategy: (child, keys) => keys.map((k) => ({ ...child, sku: `${child.sku}-${k.slice(-1)}`, stock: 0 }))
+        });
+        expect(children.map((c) => c.sku)).toEqual([
+            'SKU-1-1-1', 'SKU-1-1-2', 'SKU-1-2-1', 'SKU-1-2-2',
+            'SKU-2-1-1', 'SKU-2-1-2', 'SKU-2-2-1', 'SKU-2-2-2'
+        ]);
+        expect(report.split[0]).toEqual({ child: existing[0], previousKey: '1-1', variantKeys: ['1-1-1', '1-1-2'] });
+        expect(report.created).toEqual([]);
+    });
+
+    it('should merge children that collapse when a type is removed', () => {
+        const after: VariantType[] = [before[1]];
+        const { children, dropped, report } = reconcileChildVariants(before, after, { existing });
+        expect(dropped).toEqual([]);
+        expect(children).toEqual([
+            { variantKey: '1', title: '', sku: 'SKU-1-1', stock: 40, cost: 7, imageIds: [] },
+            { variantKey: '2', title: '', sku: 'SKU-1-2', stock: 60, cost: 6, imageIds: [] }
+        ]);
+        expect(report.merged.map((m) => m.previousKeys)).toEqual([['1-1', '2-1'], ['1-2', '2-2']]);
+
+        const custom = reconcileChildVariants(before, after, {
+            existing,
+            mergeStrategy: (children, variantKey) => ({ ...children[1], variantKey, sku: children.map((c) => c.sku).join('+') })
+        });
+        expect(custom.children.map((c) => c.sku)).toEqual(['SKU-1-1+SKU-2-1', 'SKU-1-2+SKU-2-2']);
+    });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+    countVariantCombinations,
+    generateChildVariants,
+    iterateVariantKeys,
+    validateVariantTypes,
+    variantKeyToLabel,
+    variantKeyToSelection,
+    variantValuesToKey
+} from '../index';
+import type { ChildVariant, VariantType } from '../index';
+import { isConditionMet, validateSelection } from '../constraints';
+import type { VariantConstraint } from '../constraints';
+import { compileConstraints } from '../compiler';
+import { applyModifiers } from '../modifiers';
+import type { VariantModifier } from '../modifiers';
+import { convertVariantKey, createVariantKeyCodec } from '../keys';
+import { createConfigurator } from '../configurator';
+
+describe('Selection Modes', () => {
+    const variantTypes: VariantType[] = [
+        { value: 'Color', variantOptions: [{ value: 'Black' }, { value: 'White' }] },
+        { value: 'Engraving', selectionMode: 'optional-single', variantOptions: [{ value: 'Text' }, { value: 'Logo' }] },
+        {
+            value: 'Accessories',
+            selectionMode: 'multi',
+            maxSelections: 2,
+            variantOptions: [
+                { value: 'Case', id: 'acc-case', attributes: { price: 20 } },
+                { value: 'Charger', id: 'acc-charger', attributes: { price: 35 } },
+                { value: 'Strap', id: 'acc-strap', attributes: { price: 10 } }
+            ]
+        }
+    ];
+
+    it('should generate optional and multi-select combinations', () => {
+        // 2 colors x (none + 2 engravings) x (0, 1 or 2 of 3 accessories)
+        expect(countVariantCombinations(variantTypes)).toBe(42);
+
+        const keys = Array.from(iterateVariantKeys(variantTypes));
+        expect(keys).toHaveLength(42);
+        expect(keys.slice(0, 8)).toEqual(['1-0-0', '1-0-1', '1-0-2', '1-0-1+2', '1-0-3', '1-0-1+3', '1-0-2+3', '1-1-0']);
+        expect(keys).not.toContain('1-0-1+2+3');
+        expect(Array.from(iterateVariantKeys(variantTypes, { offset: 5, limit: 3 }))).toEqual(keys.slice(5, 8));
+        expect(generateChildVariants(variantTypes).map(c => c.variantKey)).toEqual(keys);
+    });
+
+    it('should build labels, selections and keys', () => {
+        expect(variantKeyToLabel('1-0-1+3', variantTypes)).toBe('Black - Case + Strap');
+        expect(variantKeyToLabel('2-1-0', variantTypes)).toBe('White - Text');
+        expect(variantKeyToSelection('2-0-1+3', variantTypes).map(s => s.optionValue)).toEqual(['White', 'Case', 'Strap']);
+        expect(variantValuesToKey(['White', '', ['Case', 'Strap']], variantTypes)).toBe('2-0-1+3');
+
+        const codec = createVariantKeyCodec(variantTypes, { keyScheme: 'id' });
+        expect(codec.format([2, 0, 5])).toBe('White||acc-case+acc-strap');
+        expect(codec.parse('White||acc-case+acc-strap')).toEqual([2, 0, 5]);
+        expect(codec.parse('White||acc-case+acc-belt')).toEqual([2, 0, -1]);
+        expect(convertVariantKey('2-0-1+3', variantTypes, { to: { keyScheme: 'id' } })).toBe('White||acc-case+acc-strap');
+        expect(convertVariantKey('2-0-9', variantTypes, { to: { keyScheme: 'id' } })).toBeNull();
+    });
+
+    it('should evaluate conditions and effects against multi-selections', () => {
+        const caseAndCharger = variantKeyToSelection('1-0-1+2', variantTypes);
+        const inCondition = (operator: 'in' | 'not_in', options: string[]) =>
+            isConditionMet(caseAndCharger, { typeValue: 'Accessories', optionValue: options, operator });
+        expect(inCondition('in', ['Charger'])).toBe(true);
+        expect(inCondition('not_in', ['Charger'])).toBe(false);
+        expect(inCondition('not_in', ['Strap'])).toBe(true);
+
+        const constraints: VariantConstraint[] = [
+            { id: 'white-no-strap', if: { typeValue: 'Color', optionValue: 'White' }, then: { typeValue: 'Accessories', action: 'disallow', options: ['Strap'] } },
+            { id: 'logo-black', if: { typeValue: 'Engraving', optionValue: 'Logo' }, then: { typeValue: 'Color', action: 'allow', options: ['Black'] } },
+            { id: 'charger-case', if: { typeValue: 'Accessories', optionValue: 'Charger' }, then: { typeValue: 'Accessories', action: 'require', options: ['Case'] } }
+        ];
+        const compiled = compileConstraints(variantTypes, constraints);
+        for (const key of iterateVariantKeys(variantTypes)) {
+            const expected = validateSelection(variantKeyToSelection(key, variantTypes), constraints);
+            expect(compiled.validateVariantKey(key), key).toEqual(expected);
+        }
+        expect(compiled.validateVariantKey('2-0-1+3').blockedBy).toEqual(['white-no-strap']);
+        expect(compiled.validateVariantKey('1-0-2').blockedBy).toEqual(['charger-case']);
+
+        const generated = generateChildVariants(variantTypes, { constraints }).map(c => c.variantKey);
+        expect(generated).toEqual(
+            Array.from(iterateVariantKeys(variantTypes)).filter(k => compiled.validateVariantKey(k).valid)
+        );
+    });
+
+    it('should apply modifiers per selected option', () => {
+        const modifiers: VariantModifier[] = [
+            { id: 'case', if: { typeValue: 'Accessories', optionValue: 'Case' }, then: [{ field: 'cost', operation: 'add', value: 20 }] },
+            { id: 'strap', if: { typeValue: 'Accessories', optionValue: 'Strap' }, then: [{ field: 'cost', operation: 'add', value: 10 }] },
+            { id: 'engraving', if: { typeValue: 'Engraving', operator: 'selected' }, then: [{ field: 'cost', operation: 'add', value: 5 }] }
+        ];
+        const base: ChildVariant = { variantKey: '', cost: 100 };
+        expect(applyModifiers(base, variantKeyToSelection('1-0-1+3', variantTypes), modifiers).cost).toBe(130);
+        expect(applyModifiers(base, variantKeyToSelection('1-2-0', variantTypes), modifiers).cost).toBe(105);
+
+        const byAttribute: VariantModifier[] = [
+            { id: 'accessories', if: { typeValue: 'Accessories', operator: 'selected' }, then: [{ field: 'cost', operation: 'set', expression: 'cost + {Accessories:price}' }] }
+        ];
+        expect(applyModifiers(base, variantKeyToSelection('1-0-1+2', variantTypes), byAttribute).cost).toBe(155);
+    });
+
+    it('should validate selection limits and leave optional types out of missing', () => {
+        const invalid: VariantType[] = [
+            { value: 'Extras', selectionMode: 'multi', minSelections: 3, variantOptions: [{ value: 'A' }, { value: 'B' }] },
+            { value: 'Size', maxSelections: 1, variantOptions: [{ value: 'S' }] }
+        ];
+        const { errors, warnings } = validateVariantTypes(invalid);
+        expect(errors).toEqual(['Multi-select type "Extras" can\'t have between 3 and 2 of its 2 options.']);
+        expect(warnings).toEqual(['Variant type "Size" sets minSelections/maxSelections but isn\'t "multi".']);
+
+        const configurator = createConfigurator({ variantTypes });
+        expect(configurator.select('Color', 'White')).toMatchObject({ complete: true, missing: [], variantKey: '2-0-0' });
+        expect(configurator.select('Accessories', 'Strap').variantKey).toBe('2-0-3');
+    });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { propagateConstraints } from '../solver';
+import { getAvailableOptions } from '../constraints';
+import type { VariantConstraint } from '../constraints';
+import type { VariantSelectionItem, VariantType } from '../index';
+
+describe('Constraint Propagation', () => {
+    const variantTypes: VariantType[] = [
+        { value: 'Color', variantOptions: [{ value: 'Red' }, { value: 'Blue' }] },
+        { value: 'Material', variantOptions: [{ value: 'Cotton' }, { value: 'Leather' }] },
+        { value: 'Size', variantOptions: [{ value: 'S' }, { value: 'M' }, { value: 'L' }] }
+    ];
+
+    // Red only comes in Leather, and Leather only comes in S.
+    // Red + S is also forbidden, so Red has no valid completion at all.
+    const constraints: VariantConstraint[] = [
+        {
+            id: 'red-leather',
+            if: { typeValue: 'Color', optionValue: 'Red' },
+            then: { typeValue: 'Material', action: 'allow', options: ['Leather'] }
+        },
+        {
+            id: 'leather-small',
+            if: { typeValue: 'Material', optionValue: 'Leather' },
+            then: { typeValue: 'Size', action: 'allow', options: ['S'] }
+        },
+        {
+            id: 'red-not-small',
+            if: { typeValue: 'Color', optionValue: 'Red' },
+            then: { typeValue: 'Size', action: 'disallow', options: ['S'] }
+        }
+    ];
+
+    const pick = (typeValue: string, optionValue: string): VariantSelectionItem => ({
+        typeValue,
+        optionValue,
+        typeIndex: variantTypes.findIndex(t => t.value === typeValue),
+        optionIndex1Based: 1
+    });
+
+    it('should prune options that have no valid completion', () => {
+        const result = propagateConstraints(variantTypes, [], constraints);
+        expect(result.satisfiable).toBe(true);
+        expect(result.domains[0].options.map(o => o.value)).toEqual(['Blue']);
+        expect(result.domains[0].pruned.map(o => o.value)).toEqual(['Red']);
+        expect(result.domains[1].options.map(o => o.value)).toEqual(['Cotton', 'Leather']);
+        expect(result.domains[2].options.map(o => o.value)).toEqual(['S', 'M', 'L']);
+    });
+
+    it('should narrow the remaining types after a pick', () => {
+        const result = propagateConstraints(variantTypes, [pick('Material', 'Leather')], constraints);
+        expect(result.domains[0].options.map(o => o.value)).toEqual(['Blue']);
+        expect(result.domains[1].options.map(o => o.value)).toEqual(['Leather']);
+        expect(result.domains[2].options.map(o => o.value)).toEqual(['S']);
+    });
+
+    it('should report dead ends when the selection cannot be completed', () => {
+        const result = propagateConstraints(variantTypes, [pick('Color', 'Red')], constraints);
+        expect(result.satisfiable).toBe(false);
+        expect(result.deadEnds).toEqual(['Color', 'Material', 'Size']);
+        // The selection on its own does not violate anything yet.
+        expect(result.blockedBy).toEqual([]);
+    });
+
+    it('should report constraints violated by the selection itself', () => {
+        const result = propagateConstraints(
+            variantTypes,
+            [pick('Material', 'Leather'), pick('Size', 'M')],
+            constraints
+        );
+        expect(result.satisfiable).toBe(false);
+        expect(result.blockedBy).toEqual(['leather-small']);
+
+        // Requirements on types nobody has picked yet aren't broken yet
+        const needsSize: VariantConstraint[] = [
+            { id: 'red-needs-size', if: { typeValue: 'Color', optionValue: 'Red' }, then: { typeValue: 'Size', action: 'require', options: [] } }
+        ];
+        expect(propagateConstraints(variantTypes, [pick('Color', 'Red')], needsSize).blockedBy).toEqual([]);
+        expect(propagateConstraints(variantTypes.slice(0, 2), [pick('Color', 'Red')], needsSize).blockedBy).toEqual(['red-needs-size']);
+    });
+
+    it('should look ahead in getAvailableOptions when variantTypes are given', () => {
+        // Without look-ahead Red looks fine, since nothing is violated yet.
+        expect(getAvailableOptions(variantTypes[0], [], constraints).map(o => o.value))
+            .toEqual(['Red', 'Blue']);
+
+        expect(getAvailableOptions(variantTypes[0], [], constraints, { variantTypes }).map(o => o.value))
+            .toEqual(['Blue']);
+
+        // The type's own current pick is ignored, as without look-ahead.
+        expect(getAvailableOptions(variantTypes[2], [pick('Size', 'M'), pick('Material', 'Leather')], constraints, { variantTypes }).map(o => o.value))
+            .toEqual(['S']);
+    });
+
+    it('should not prune on conditions that later picks can still change', () => {
+        // "Unless Engraving is picked, Size must be S": before Engraving is decided
+        // M and L are still reachable.
+        const types: VariantType[] = [
+            { value: 'Size', variantOptions: [{ value: 'S' }, { value: 'M' }, { value: 'L' }] },
+            { value: 'Engraving', variantOptions: [{ value: 'None' }, { value: 'Text' }] }
+        ];
+        const rules: VariantConstraint[] = [
+            {
+                id: 'plain-small',
+                if: { operator: 'NOT', conditions: [{ typeValue: 'Engraving', optionValue: 'Text' }] },
+                then: { typeValue: 'Size', action: 'allow', options: ['S'] }
+            }
+        ];
+        const result = propagateConstraints(types, [], rules);
+        expect(result.domains[0].options.map(o => o.value)).toEqual(['S', 'M', 'L']);
+        expect(result.domains[1].options.map(o => o.value)).toEqual(['None', 'Text']);
+
+        const afterPick = propagateConstraints(types, [{ typeValue: 'Size', optionValue: 'M', typeIndex: 0, optionIndex1Based: 2 }], rules);
+        expect(afterPick.domains[1].options.map(o => o.value)).toEqual(['Text']);
+    });
+
+    it('should let optional types stay empty and multi-select types take several options', () => {
+        const types: VariantType[] = [
+            { value: 'Color', variantOptions: [{ value: 'Red' }, { value: 'Blue' }] },
+            { value: 'Engraving', selectionMode: 'optional-single', variantOptions: [{ value: 'Yes' }] },
+            { value: 'Extras', selectionMode: 'multi', variantOptions: [{ value: 'Case' }, { value: 'Strap' }] }
+        ];
+        const rules: VariantConstraint[] = [
+            {
+                id: 'red-no-engraving',
+                if: { typeValue: 'Color', optionValue: 'Red' },
+                then: { typeValue: 'Engraving', action: 'disallow', options: ['Yes'] }
+            }
+        ];
+
+        // Red is fine as long as Engraving stays empty
+        const result = propagateConstraints(types, [], rules);
+        expect(result.domains[0].options.map(o => o.value)).toEqual(['Red', 'Blue']);
+        expect(result.domains[1].selections).toEqual([0, 1]);
+        expect(result.domains[2].selections).toEqual([0, 1, 2, 3]);
+
+        const red = propagateConstraints(types, [{ typeValue: 'Color', optionValue: 'Red', typeIndex: 0, optionIndex1Based: 1 }], rules);
+        expect(red).toMatchObject({ satisfiable: true, deadEnds: [] });
+        expect(red.domains[1]).toMatchObject({ options: [], selections: [0] });
+
+        const both = propagateConstraints(types, [
+            { typeValue: 'Extras', optionValue: 'Case', typeIndex: 2, optionIndex1Based: 1 },
+            { typeValue: 'Extras', optionValue: 'Strap', typeIndex: 2, optionIndex1Based: 2 }
+        ], rules);
+        expect(both.domains[2].options.map(o => o.value)).toEqual(['Case', 'Strap']);
+        expect(both.domains[2].selections).toEqual([3]);
+    });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { suggestValidCombinations } from '../suggestions';
+import { createConfigurator } from '../configurator';
+import type { VariantConstraint } from '../constraints';
+import type { VariantModifier } from '../modifiers';
+import type { ChildVariant, VariantSelectionItem, VariantType } from '../index';
+
+describe('Valid Combination Suggestions', () => {
+    const variantTypes: VariantType[] = [
+        { value: 'Color', variantOptions: [{ value: 'Red' }, { value: 'Blue' }, { value: 'Green' }] },
+        { value: 'Size', variantOptions: [{ value: 'S' }, { value: 'M' }, { value: 'L' }] }
+    ];
+
+    const constraints: VariantConstraint[] = [
+        {
+            id: 'red-small',
+            if: { typeValue: 'Color', optionValue: 'Red' },
+            then: { typeValue: 'Size', action: 'allow', options: ['S'] }
+        },
+        {
+            id: 'green-no-m',
+            if: { typeValue: 'Color', optionValue: 'Green' },
+            then: { typeValue: 'Size', action: 'disallow', options: ['M'] }
+        }
+    ];
+
+    // Red / L, picked in that order
+    const redLarge: VariantSelectionItem[] = [
+        { typeValue: 'Color', optionValue: 'Red', typeIndex: 0, optionIndex1Based: 1 },
+        { typeValue: 'Size', optionValue: 'L', typeIndex: 1, optionIndex1Based: 3 }
+    ];
+
+    const keys = (suggestions: { variantKey: string }[]) => suggestions.map(s => s.variantKey);
+
+    it('should return the fewest changes, preferring recent picks', () => {
+        const suggestions = suggestValidCombinations(variantTypes, redLarge, constraints);
+        expect(keys(suggestions)).toEqual(['1-1', '2-3', '3-3']);
+        expect(suggestions[0]).toMatchObject({
+            values: { Color: 'Red', Size: 'S' },
+            changes: [{ typeValue: 'Size', from: 'L', to: 'S' }]
+        });
+
+        const sizeFirst = suggestValidCombinations(variantTypes, redLarge, constraints, { pickOrder: ['Size', 'Color'] });
+        expect(keys(sizeFirst)).toEqual(['2-3', '3-3', '1-1']);
+    });
+
+    it('should complete partial selections without counting changes', () => {
+        const red = redLarge.slice(0, 1);
+        expect(suggestValidCombinations(variantTypes, red, constraints)).toMatchObject([
+            { variantKey: '1-1', changes: [] }
+        ]);
+        expect(keys(suggestValidCombinations(variantTypes, [], constraints, { limit: 3 }))).toEqual(['1-1', '2-1', '2-2']);
+    });
+
+    it('should prefer in-stock and cheaper combinations', () => {
+        const modifiers: VariantModifier[] = [
+            { id: 'blue', if: { typeValue: 'Color', optionValue: 'Blue' }, then: [{ field: 'cost', operation: 'add', value: 10 }] }
+        ];
+        const baseProduct: ChildVariant = { variantKey: '', cost: 100 };
+        const options = { pickOrder: ['Size', 'Color'], modifiers, baseProduct };
+
+        const cheapest = suggestValidCombinations(variantTypes, redLarge, constraints, options);
+        expect(keys(cheapest)).toEqual(['3-3', '2-3', '1-1']);
+        expect(cheapest.map(s => s.price)).toEqual([100, 110, 100]);
+
+        const children: ChildVariant[] = [{ variantKey: '3-3', cost: 100, stock: 0 }];
+        const inStock = suggestValidCombinations(variantTypes, redLarge, constraints, { ...options, children });
+        expect(keys(inStock)).toEqual(['2-3', '3-3', '1-1']);
+        expect(inStock[1].inStock).toBe(false);
+
+        const custom = suggestValidCombinations(variantTypes, redLarge, constraints, {
+            cost: s => (s.values.Size === 'S' ? 0 : 1)
+        });
+        expect(keys(custom)).toEqual(['1-1', '2-3', '3-3']);
+    });
+
+    it('should return nothing when no combination is valid', () => {
+        const impossible: VariantConstraint[] = [
+            { id: 'none', if: { typeValue: 'Color', operator: 'selected' }, then: { typeValue: 'Size', action: 'allow', options: [] } }
+        ];
+        expect(suggestValidCombinations(variantTypes, redLarge, impossible)).toEqual([]);
+    });
+
+    it('should offer one-click fixes in the configurator', () => {
+        const configurator = createConfigurator({ variantTypes, constraints });
+        configurator.select('Size', 'L');
+        configurator.select('Color', 'Red');
+        expect(configurator.getState().valid).toBe(false);
+
+        const [fix] = configurator.suggest(1);
+        expect(fix.changes).toEqual([{ typeValue: 'Color', from: 'Red', to: 'Blue' }]);
+        expect(configurator.applySuggestion(fix)).toMatchObject({ valid: true, values: { Color: 'Blue', Size: 'L' } });
+        expect(configurator.undo().values).toEqual({ Color: 'Red', Size: 'L' });
+    });
+
+    it('should leave optional types empty and suggest several multi-select options', () => {
+        const types: VariantType[] = [
+            { value: 'Color', variantOptions: [{ value: 'Red' }, { value: 'Blue' }] },
+            { value: 'Engraving', selectionMode: 'optional-single', variantOptions: [{ value: 'Yes' }] },
+            { value: 'Extras', selectionMode: 'multi', minSelections: 2, variantOptions: [{ value: 'Case' }, { value: 'Strap' }] }
+        ];
+        const rules: VariantConstraint[] = [
+            { id: 'red-plain', if: { typeValue: 'Color', optionValue: 'Red' }, then: { typeValue: 'Engraving', action: 'disallow', options: ['Yes'] } }
+        ];
+        const red: VariantSelectionItem[] = [{ typeValue: 'Color', optionValue: 'Red', typeIndex: 0, optionIndex1Based: 1 }];
+
+        const [suggestion] = suggestValidCombinations(types, red, rules);
+        expect(suggestion).toMatchObject({ variantKey: '1-0-1+2', changes: [] });
+        expect(suggestion.values).toEqual({ Color: 'Red', Extras: ['Case', 'Strap'] });
+    });
+});
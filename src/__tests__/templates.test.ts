@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import {
+    applyVariantTemplates,
+    findDuplicateSkus,
+    renderVariantTemplate,
+    validateVariantTemplate
+} from '../templates';
+import { generateChildVariants } from '../index';
+import type { VariantType } from '../index';
+
+const variantTypes: VariantType[] = [
+    {
+        value: 'Color',
+        variantOptions: [
+            { value: 'Space Gray', code: 'SG', label: 'Space Gray (matte)' },
+            { value: 'Crème', id: 'c-creme', attributes: { hex: 'f5e6c8' } }
+        ]
+    },
+    {
+        value: 'Size',
+        variantOptions: [{ value: 'xl' }, { value: 'xxl' }]
+    }
+];
+
+describe('Variant Templates', () => {
+    it('should render placeholders with codes, attributes and transforms', () => {
+        const render = (template: string, key = '1-1') =>
+            renderVariantTemplate(template, key, variantTypes, { variables: { product: 'TEE' } });
+
+        expect(render('{product}-{Color:code}-{Size:upper}')).toBe('TEE-SG-XL');
+        expect(render('{product}-{Color:code}-{Size:upper}', '2-2')).toBe('TEE-Crème-XXL');
+        expect(render('{Color:slug}/{Color:id}/{Color:hex}', '2-1')).toBe('creme/c-creme/f5e6c8');
+        expect(render('{Color:code:lower}_{Color:truncate(5):upper}')).toBe('sg_SPACE');
+        expect(render('{product} {label} [{variantKey}] {{x}}')).toBe('TEE Space Gray (matte) - xl [1-1] {x}');
+        expect(render('{unknown}')).toBe('');
+        // Only the variables' own keys count, not inherited object members
+        expect(render('{toString}{constructor}')).toBe('');
+    });
+
+    it('should render keys of other schemes', () => {
+        expect(renderVariantTemplate('{Color}', 'c-creme|xl', variantTypes, { keyScheme: 'id' })).toBe('Crème');
+    });
+
+    it('should validate templates', () => {
+        expect(validateVariantTemplate('{product}-{Color:code}', variantTypes, { product: 'TEE' })).toEqual([]);
+        expect(validateVariantTemplate('{Colour}-{Color:weight}', variantTypes)).toEqual([
+            { message: 'Unknown placeholder "Colour"', position: 0 },
+            { message: 'No option of "Color" has an attribute "weight"', position: 9 }
+        ]);
+        expect(validateVariantTemplate('{hasOwnProperty}', variantTypes, { product: 'TEE' })).toEqual([
+            { message: 'Unknown placeholder "hasOwnProperty"', position: 0 }
+        ]);
+        expect(validateVariantTemplate('{Size:code:shout}', variantTypes)).toEqual([
+            { message: "Unknown transform 'shout'", position: 0 }
+        ]);
+        expect(validateVariantTemplate('SKU-{Size', variantTypes)).toMatchObject([{ position: 4 }]);
+        expect(() => renderVariantTemplate('{Size', '1-1', variantTypes)).toThrow(SyntaxError);
+    });
+
+    it('should fill in SKUs and titles of generated children', () => {
+        const children = generateChildVariants(variantTypes);
+        const { children: result, renamed, duplicates } = applyVariantTemplates(children, variantTypes, {
+            sku: '{product}-{Color:code:upper}-{Size:upper}',
+            title: '{product} {label}',
+            variables: { product: 'TEE' }
+        });
+
+        expect(result.map(c => c.sku)).toEqual(['TEE-SG-XL', 'TEE-SG-XXL', 'TEE-CRÈME-XL', 'TEE-CRÈME-XXL']);
+        expect(result[0].title).toBe('TEE Space Gray (matte) - xl');
+        expect(renamed).toEqual([]);
+        expect(duplicates).toEqual([]);
+        expect(children[0].sku).toBe('');
+    });
+
+    it('should keep existing SKUs unless asked to overwrite', () => {
+        const children = generateChildVariants(variantTypes).map(c =>
+            c.variantKey === '1-1' ? { ...c, sku: 'CUSTOM', title: 'Kept' } : c
+        );
+        const templates = { sku: '{Size}', title: '{label}' };
+
+        const kept = applyVariantTemplates(children, variantTypes, templates).children;
+        expect(kept[0]).toMatchObject({ sku: 'CUSTOM', title: 'Kept' });
+
+        const overwritten = applyVariantTemplates(children, variantTypes, { ...templates, overwrite: true }).children;
+        expect(overwritten[0]).toMatchObject({ sku: 'xl', title: 'Space Gray (matte) - xl' });
+    });
+
+    it('should resolve SKU collisions with the configured strategy', () => {
+        const children = generateChildVariants(variantTypes).map(c =>
+            c.variantKey === '2-2' ? { ...c, sku: 'TEE-XL' } : c
+        );
+        const templates = { sku: 'TEE-{Size:upper}', reservedSkus: ['TEE-XXL'] };
+
+        const suffixed = applyVariantTemplates(children, variantTypes, templates);
+        expect(suffixed.children.map(c => c.sku)).toEqual(['TEE-XL-2', 'TEE-XXL-2', 'TEE-XL-3', 'TEE-XL']);
+        expect(suffixed.renamed).toEqual([
+            { variantKey: '1-1', sku: 'TEE-XL', resolvedSku: 'TEE-XL-2' },
+            { variantKey: '1-2', sku: 'TEE-XXL', resolvedSku: 'TEE-XXL-2' },
+            { variantKey: '2-1', sku: 'TEE-XL', resolvedSku: 'TEE-XL-3' }
+        ]);
+        expect(suffixed.duplicates).toEqual([]);
+
+        const hashed = applyVariantTemplates(children, variantTypes, { ...templates, onDuplicateSku: 'hash' });
+        expect(hashed.children[0].sku).toMatch(/^TEE-XL-[0-9A-F]{4}$/);
+        expect(new Set(hashed.children.map(c => c.sku)).size).toBe(4);
+
+        // A hashed SKU that is taken as well is hashed again
+        const hashedSku = hashed.children[0].sku!;
+        const rehashed = applyVariantTemplates(children, variantTypes, {
+            ...templates,
+            reservedSkus: [...templates.reservedSkus, hashedSku],
+            onDuplicateSku: 'hash'
+        });
+        expect(rehashed.children[0].sku).toMatch(/^TEE-XL-[0-9A-F]{4}$/);
+        expect(rehashed.children[0].sku).not.toBe(hashedSku);
+        expect(new Set(rehashed.children.map(c => c.sku)).size).toBe(4);
+        expect(rehashed.duplicates).toEqual([]);
+
+        const reported = applyVariantTemplates(children, variantTypes, { ...templates, onDuplicateSku: 'report' });
+        expect(reported.renamed).toEqual([]);
+        expect(reported.duplicates).toEqual([
+            { sku: 'TEE-XL', variantKeys: ['1-1', '2-1', '2-2'] },
+            { sku: 'TEE-XXL', variantKeys: ['1-2'] }
+        ]);
+    });
+
+    it('should find duplicate SKUs', () => {
+        expect(findDuplicateSkus([
+            { variantKey: '1', sku: 'A' },
+            { variantKey: '2', sku: '' },
+            { variantKey: '3', sku: '' },
+            { variantKey: '4', sku: 'A' }
+        ])).toEqual([{ sku: 'A', variantKeys: ['1', '4'] }]);
+    });
+});
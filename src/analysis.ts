@@ -0,0 +1,402 @@
+import type { VariantOption, VariantType } from "./index";
+import {
+  countVariantCombinations,
+  getSelectionChoices,
+  iterateVariantIndices,
+  variantIndicesToSelection,
+} from "./index";
+import {
+  collectContextConditions,
+  collectLeafConditions,
+  getOptionNumber,
+  isConditionMet,
+  isConditionalConstraint,
+  isContextCondition,
+  isLeafCondition,
+  isNumericCondition,
+  isSimpleCondition,
+} from "./constraints";
+import type {
+  ConditionalConstraint,
+  ConditionRef,
+  EvaluationContext,
+  OptionPair,
+  LogicCondition,
+  RecursiveCondition,
+  VariantConstraint,
+} from "./constraints";
+import { propagateConstraints } from "./solver";
+
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+export type ConstraintDiagnosticCode =
+  /** Two or more constraints share the same id */
+  | "duplicate-id"
+  /** A condition or effect references a variant type that doesn't exist */
+  | "unknown-type"
+  /** A condition or effect references an option value that doesn't exist */
+  | "unknown-option"
+  /** A numeric comparison on a type none of whose options has a numeric value */
+  | "no-numeric-value"
+  /** An AND/OR/XOR/NOT group without conditions, which is always false */
+  | "empty-group"
+  /** The `if` condition is false for every combination */
+  | "unsatisfiable-condition"
+  /** When the constraint applies, no option of the target type is allowed */
+  | "blocks-all-options"
+  /** A `disallow` effect that lists no existing option */
+  | "no-effect"
+  /** Two constraints can apply together and leave no option of their target type */
+  | "conflict"
+  /** An option that is not part of any valid combination */
+  | "unreachable-option"
+  /** The constraints rule out every combination */
+  | "no-valid-combination";
+
+export type ConstraintDiagnostic = {
+  severity: DiagnosticSeverity;
+  code: ConstraintDiagnosticCode;
+  message: string;
+  /** Constraints involved, in declaration order (empty for product-wide findings) */
+  constraintIds: string[];
+  typeValue?: string;
+  optionValue?: string;
+};
+
+export type AnalyzeConstraintsOptions = {
+  /**
+   * Upper bound on combinations enumerated when checking whether a condition
+   * can ever be true. Checks that would exceed it are skipped. Defaults to 100000.
+   */
+  maxCombinations?: number;
+  /**
+   * Values `ContextCondition`s test. Without it, conditions that test the
+   * context are never reported as unsatisfiable.
+   */
+  context?: EvaluationContext;
+};
+
+export type AnalyzeConstraintsResult = {
+  /** True when no diagnostic has severity "error" */
+  valid: boolean;
+  diagnostics: ConstraintDiagnostic[];
+};
+
+function refersTo(t: VariantType, typeRef: string, ref: ConditionRef = "value"): boolean {
+  return (ref === "id" ? t.id : t.value) === typeRef;
+}
+
+function countEmptyGroups(condition: LogicCondition): number {
+  if (isLeafCondition(condition) || isContextCondition(condition)) return 0;
+  const { conditions } = condition as RecursiveCondition;
+  if (!conditions || conditions.length === 0) return 1;
+  return conditions.reduce((n, c) => n + countEmptyGroups(c), 0);
+}
+
+/**
+ * Returns whether some complete combination satisfies `condition`,
+ * or undefined when that would take more than `maxCombinations` checks.
+ */
+function isSatisfiable(
+  condition: LogicCondition,
+  variantTypes: readonly VariantType[],
+  maxCombinations: number,
+  context: EvaluationContext | undefined
+): boolean | undefined {
+  if (!context && collectContextConditions(condition).length > 0) return undefined;
+
+  const leaves = collectLeafConditions(condition);
+  // Types without options are never selected, so they can't help either.
+  const types = variantTypes.filter(
+    (t, i) =>
+      leaves.some((l) => refersTo(t, l.typeValue, l.ref)) &&
+      (t.variantOptions?.length ?? 0) > 0 &&
+      variantTypes.findIndex((x) => x.value === t.value) === i
+  );
+
+  if (types.length === 0) return isConditionMet([], condition, context);
+  if (countVariantCombinations(types) > maxCombinations) return undefined;
+
+  for (const indices of iterateVariantIndices(types)) {
+    const selection = variantIndicesToSelection(indices, types);
+    if (isConditionMet(selection, condition, context)) return true;
+  }
+  return false;
+}
+
+/**
+ * Lints a constraint set against its variant types: broken references,
+ * conditions that can never be true, contradicting rules and options that
+ * end up unselectable in every combination.
+ */
+export function analyzeConstraints(
+  variantTypes: readonly VariantType[],
+  constraints: VariantConstraint[],
+  options: AnalyzeConstraintsOptions = {}
+): AnalyzeConstraintsResult {
+  const { maxCombinations = 100_000, context } = options;
+  const diagnostics: ConstraintDiagnostic[] = [];
+
+  const findType = (typeRef: string, ref?: ConditionRef) =>
+    variantTypes.find((t) => refersTo(t, typeRef, ref));
+  const optionRef = (o: VariantOption, ref?: ConditionRef) =>
+    ref === "id" ? o.id : o.value;
+  const hasOption = (t: VariantType, value: string, ref?: ConditionRef) =>
+    t.variantOptions.some((o) => optionRef(o, ref) === value);
+
+  // 1. Ids
+  const idCounts = new Map<string, number>();
+  for (const c of constraints) idCounts.set(c.id, (idCounts.get(c.id) ?? 0) + 1);
+  for (const [id, count] of idCounts.entries()) {
+    if (count > 1) {
+      diagnostics.push({
+        severity: "error",
+        code: "duplicate-id",
+        message: `Constraint id "${id}" is used ${count} times.`,
+        constraintIds: [id],
+      });
+    }
+  }
+
+  // Options listed by constraints without `if`/`then`
+  const listedOptions = (c: Exclude<VariantConstraint, ConditionalConstraint>): OptionPair[] => {
+    switch (c.kind) {
+      case "mutually-exclusive":
+        return c.options;
+      case "non-default":
+        return c.types.map((t) => ({ typeValue: t.typeValue, optionValue: t.defaultOption }));
+      case "forbidden-tuples":
+        return c.tuples.flatMap((tuple) =>
+          c.typeValues.map((typeValue, i) => ({ typeValue, optionValue: tuple[i] }))
+        );
+      default:
+        return [];
+    }
+  };
+
+  // 2. References and per-constraint checks
+  const satisfiable = new Map<VariantConstraint, boolean | undefined>();
+  // Allowed option indices of the target type whenever the constraint applies.
+  const allowedWhenApplied = new Map<VariantConstraint, Set<number>>();
+
+  for (const c of constraints) {
+    if (!isConditionalConstraint(c)) {
+      const reported = new Set<string>();
+      for (const { typeValue, optionValue } of listedOptions(c)) {
+        const t = findType(typeValue, c.ref);
+        if (!t) {
+          if (reported.has(typeValue)) continue;
+          reported.add(typeValue);
+          diagnostics.push({
+            severity: "error",
+            code: "unknown-type",
+            message: `Constraint "${c.id}" lists unknown variant type "${typeValue}".`,
+            constraintIds: [c.id],
+            typeValue,
+          });
+        } else if (!hasOption(t, optionValue, c.ref)) {
+          diagnostics.push({
+            severity: "error",
+            code: "unknown-option",
+            message: `Constraint "${c.id}" lists unknown option "${optionValue}" of type "${t.value}".`,
+            constraintIds: [c.id],
+            typeValue: t.value,
+            optionValue,
+          });
+        }
+      }
+      continue;
+    }
+
+    for (const leaf of collectLeafConditions(c.if)) {
+      const t = findType(leaf.typeValue, leaf.ref);
+      if (!t) {
+        diagnostics.push({
+          severity: "error",
+          code: "unknown-type",
+          message: `Constraint "${c.id}" checks unknown variant type "${leaf.typeValue}".`,
+          constraintIds: [c.id],
+          typeValue: leaf.typeValue,
+        });
+        continue;
+      }
+      if (isNumericCondition(leaf)) {
+        const numeric = t.variantOptions.some(
+          (o) => getOptionNumber(o, leaf.attribute) !== undefined
+        );
+        if (!numeric) {
+          const source = leaf.attribute ? `attribute "${leaf.attribute}"` : "numeric value";
+          diagnostics.push({
+            severity: "warning",
+            code: "no-numeric-value",
+            message: `Constraint "${c.id}" compares numbers, but no option of type "${t.value}" has a ${source}.`,
+            constraintIds: [c.id],
+            typeValue: t.value,
+          });
+        }
+      }
+      if (!isSimpleCondition(leaf)) continue;
+
+      const values = Array.isArray(leaf.optionValue) ? leaf.optionValue : [leaf.optionValue];
+      for (const v of values) {
+        if (hasOption(t, v, leaf.ref)) continue;
+        diagnostics.push({
+          severity: "error",
+          code: "unknown-option",
+          message: `Constraint "${c.id}" checks unknown option "${v}" of type "${t.value}".`,
+          constraintIds: [c.id],
+          typeValue: t.value,
+          optionValue: v,
+        });
+      }
+    }
+
+    const emptyGroups = countEmptyGroups(c.if);
+    if (emptyGroups > 0) {
+      diagnostics.push({
+        severity: "warning",
+        code: "empty-group",
+        message: `Constraint "${c.id}" has ${emptyGroups} empty condition group(s), which are always false.`,
+        constraintIds: [c.id],
+      });
+    }
+
+    const sat = isSatisfiable(c.if, variantTypes, maxCombinations, context);
+    satisfiable.set(c, sat);
+    if (sat === false) {
+      diagnostics.push({
+        severity: "warning",
+        code: "unsatisfiable-condition",
+        message: `Constraint "${c.id}" never applies: its condition is false for every combination.`,
+        constraintIds: [c.id],
+      });
+    }
+
+    const target = findType(c.then.typeValue, c.then.ref);
+    if (!target) {
+      diagnostics.push({
+        severity: "error",
+        code: "unknown-type",
+        message: `Constraint "${c.id}" targets unknown variant type "${c.then.typeValue}".`,
+        constraintIds: [c.id],
+        typeValue: c.then.typeValue,
+      });
+      continue;
+    }
+
+    for (const v of c.then.options) {
+      if (hasOption(target, v, c.then.ref)) continue;
+      diagnostics.push({
+        severity: "error",
+        code: "unknown-option",
+        message: `Constraint "${c.id}" lists unknown option "${v}" of type "${target.value}".`,
+        constraintIds: [c.id],
+        typeValue: target.value,
+        optionValue: v,
+      });
+    }
+
+    const { action } = c.then;
+    const allowed = new Set<number>();
+    target.variantOptions.forEach((o, oi) => {
+      const r = optionRef(o, c.then.ref);
+      const listed = r !== undefined && c.then.options.includes(r);
+      // A requirement without options accepts any option.
+      const accepted = action === "disallow" ? !listed : listed || (action === "require" && c.then.options.length === 0);
+      if (accepted) allowed.add(oi);
+    });
+    allowedWhenApplied.set(c, allowed);
+
+    // An optional or multi-select type that may stay empty still has a way out
+    // of allow/disallow rules, so leaving no option is fine there.
+    const mayStayEmpty = action !== "require" && getSelectionChoices(target).includes(0);
+    if (allowed.size === 0 && target.variantOptions.length > 0 && !mayStayEmpty) {
+      diagnostics.push({
+        severity: "warning",
+        code: "blocks-all-options",
+        message: `Constraint "${c.id}" allows no option of type "${target.value}", so every combination it applies to is invalid.`,
+        constraintIds: [c.id],
+        typeValue: target.value,
+      });
+    } else if (allowed.size === target.variantOptions.length && c.then.action === "disallow") {
+      diagnostics.push({
+        severity: "info",
+        code: "no-effect",
+        message: `Constraint "${c.id}" disallows no existing option of type "${target.value}".`,
+        constraintIds: [c.id],
+        typeValue: target.value,
+      });
+    }
+  }
+
+  // 3. Pairs that can apply together but leave nothing for their shared target
+  const active = constraints.filter(
+    (c): c is ConditionalConstraint => allowedWhenApplied.has(c) && satisfiable.get(c) !== false
+  );
+  for (let i = 0; i < active.length; i++) {
+    for (let j = i + 1; j < active.length; j++) {
+      const a = active[i];
+      const b = active[j];
+      if (findType(a.then.typeValue, a.then.ref) !== findType(b.then.typeValue, b.then.ref)) continue;
+
+      const allowedA = allowedWhenApplied.get(a)!;
+      const allowedB = allowedWhenApplied.get(b)!;
+      // A constraint that blocks everything on its own is already reported.
+      if (allowedA.size === 0 || allowedB.size === 0) continue;
+      if ([...allowedA].some((oi) => allowedB.has(oi))) continue;
+
+      const target = findType(a.then.typeValue, a.then.ref)!;
+      const requires = a.then.action === "require" || b.then.action === "require";
+      if (!requires && getSelectionChoices(target).includes(0)) continue;
+      const both: LogicCondition = { operator: "AND", conditions: [a.if, b.if] };
+      if (isSatisfiable(both, variantTypes, maxCombinations, context) === false) continue;
+
+      diagnostics.push({
+        severity: "error",
+        code: "conflict",
+        message: `Constraints "${a.id}" and "${b.id}" can apply together and leave no option of type "${target.value}".`,
+        constraintIds: [a.id, b.id],
+        typeValue: target.value,
+      });
+    }
+  }
+
+  // 4. Product-wide reachability (validateVariantTypes reports types without options)
+  const hasCombinations =
+    variantTypes.length > 0 &&
+    variantTypes.every((t) => (t.variantOptions?.length ?? 0) > 0);
+  if (hasCombinations) {
+    const { satisfiable: anyValid, domains } = propagateConstraints(
+      variantTypes,
+      [],
+      constraints,
+      { context }
+    );
+    if (!anyValid) {
+      diagnostics.push({
+        severity: "error",
+        code: "no-valid-combination",
+        message: "The constraints rule out every combination.",
+        constraintIds: [],
+      });
+    } else {
+      for (const d of domains) {
+        for (const o of d.pruned) {
+          diagnostics.push({
+            severity: "warning",
+            code: "unreachable-option",
+            message: `Option "${o.value}" of type "${d.typeValue}" is not part of any valid combination.`,
+            constraintIds: [],
+            typeValue: d.typeValue,
+            optionValue: o.value,
+          });
+        }
+      }
+    }
+  }
+
+  return {
+    valid: !diagnostics.some((d) => d.severity === "error"),
+    diagnostics,
+  };
+}
@@ -0,0 +1,198 @@
+import type { ChildVariant, VariantOption, VariantSelectionItem, VariantType } from "./index";
+import { getSelectionChoices, getSelectionMode, selectedOptionIndices, toSelectionIndex, variantIndicesToSelection } from "./index";
+import type { EvaluationContext, VariantConstraint } from "./constraints";
+import { compileConstraints } from "./compiler";
+import { resolveBomForSelection } from "./bom";
+import type { BomRule } from "./bom";
+import { createVariantKeyCodec } from "./keys";
+import type { VariantKeyFormat } from "./keys";
+
+/**
+ * What happens to options that only lead to sold-out combinations:
+ * - `hide`: they're left out (`state: "hidden"`)
+ * - `disable`: they're shown disabled, with an "out-of-stock" reason
+ * - `backorder`: they stay selectable and are flagged `backorder`
+ */
+export type StockMode = "hide" | "disable" | "backorder";
+
+export type AvailabilityReason =
+  | {
+      kind: "constraint";
+      /** Constraints the option breaks with the current selection; empty when it only leads to dead ends */
+      constraintIds: string[];
+    }
+  | {
+      kind: "out-of-stock";
+      /** With component stock: the parts every sold-out combination ran short of, else empty */
+      parts: string[];
+    };
+
+export type OptionAvailability = {
+  option: VariantOption;
+  /** False when the option breaks a constraint or can't be completed to a valid combination */
+  valid: boolean;
+  /** False when every combination with the option (every valid one, for valid options) is sold out */
+  inStock: boolean;
+  /** What the UI should do with the option */
+  state: "enabled" | "disabled" | "hidden";
+  /** True when the option is only selectable as a backorder ("backorder" mode) */
+  backorder: boolean;
+  /** Why the option is invalid and/or out of stock; empty when it's neither */
+  reasons: AvailabilityReason[];
+};
+
+/** Stock per part for the components the BOM rules add */
+export type ComponentStock = {
+  rules: readonly BomRule[];
+  /** Units on hand by part number; parts that aren't listed aren't tracked */
+  stock: Record<string, number>;
+};
+
+export type GetOptionAvailabilityOptions = VariantKeyFormat & {
+  /** Children with their `stock`; combinations without a child, or with `stock` unset, aren't tracked */
+  children?: readonly ChildVariant[];
+  /** Component stock; when set, it's used instead of the children's stock */
+  components?: ComponentStock;
+  /** Defaults to "disable" */
+  stockMode?: StockMode;
+  /** What happens to options that break constraints. Defaults to "disable". */
+  invalidMode?: "hide" | "disable";
+  context?: EvaluationContext;
+  /**
+   * Maximum number of combinations checked per option. Defaults to 10000;
+   * options with more combinations than that count as in stock.
+   */
+  maxCombinations?: number;
+};
+
+type SearchResult = {
+  /** Some combination passed (the constraints, when checked) */
+  found: boolean;
+  inStock: boolean;
+  /** Parts every combination checked ran short of; undefined before the first one */
+  shortParts?: Set<string>;
+};
+
+/**
+ * Evaluates every option of every type against the constraints and the stock
+ * in one call, e.g. to render a storefront configurator. An option is in stock
+ * when some combination with it and the rest of `selection` is: for valid
+ * options only valid combinations count, so an option whose in-stock
+ * combinations all break constraints is out of stock. A combination is sold
+ * out when its child has `stock` 0 or less, or, with `options.components`,
+ * when a part its BOM needs has fewer units than the BOM quantity.
+ *
+ * Types without a pick in `selection` are completed with every option; for a
+ * multi-select type, an option is evaluated added to the type's current picks.
+ * Returns the options per type value, in `variantOptions` order.
+ */
+export function getOptionAvailability(
+  variantTypes: readonly VariantType[],
+  selection: VariantSelectionItem[],
+  constraints: VariantConstraint[],
+  options: GetOptionAvailabilityOptions = {}
+): Record<string, OptionAvailability[]> {
+  const {
+    children = [],
+    components,
+    stockMode = "disable",
+    invalidMode = "disable",
+    context,
+    maxCombinations = 10000,
+  } = options;
+  const typeCount = variantTypes.length;
+  const validator = compileConstraints(variantTypes, constraints, { context });
+  const codec = createVariantKeyCodec(variantTypes, options);
+  const childByKey = new Map(children.map((c) => [c.variantKey, c]));
+  const choices = variantTypes.map(getSelectionChoices);
+
+  // Selection index per type, undefined when the type has no pick yet
+  const picked = variantTypes.map((t) => {
+    const indices = selection
+      .filter((s) => s.typeValue === t.value)
+      .map((s) => t.variantOptions.findIndex((o) => o.value === s.optionValue) + 1)
+      .filter((oi) => oi > 0);
+    return indices.length > 0 ? toSelectionIndex(t, indices) : undefined;
+  });
+
+  // Parts that run short for a combination; undefined when it's in stock
+  const shortParts = (indices: number[]): string[] | undefined => {
+    if (components) {
+      const bom = resolveBomForSelection(variantIndicesToSelection(indices, variantTypes), components.rules, {
+        context,
+      });
+      const short = bom.lines
+        .filter((l) => components.stock[l.part] !== undefined && components.stock[l.part] < l.quantity)
+        .map((l) => l.part);
+      return short.length > 0 ? short : undefined;
+    }
+    const stock = childByKey.get(codec.format(indices))?.stock;
+    return stock !== undefined && stock !== null && stock <= 0 ? [] : undefined;
+  };
+
+  // Depth-first over the combinations that keep `fixed`; stops at the first in-stock one
+  const search = (fixed: (number | undefined)[], checkConstraints: boolean): SearchResult => {
+    const result: SearchResult = { found: false, inStock: false };
+    const current: number[] = new Array(typeCount).fill(0);
+    let checked = 0;
+
+    const visit = (depth: number): boolean => {
+      if (depth === typeCount) {
+        result.found = true;
+        const short = shortParts(current);
+        if (!short) result.inStock = true;
+        else result.shortParts = new Set(short.filter((p) => result.shortParts?.has(p) ?? true));
+        // Too many to check: the stock is unknown, so it counts as in stock
+        if (++checked >= maxCombinations) result.inStock = true;
+        return result.inStock;
+      }
+      const domain = fixed[depth] === undefined ? choices[depth] : [fixed[depth]];
+      for (const idx of domain) {
+        current[depth] = idx;
+        if (checkConstraints) {
+          const check = depth === typeCount - 1 ? validator.validateIndices : validator.validatePartial;
+          if (!check(current).valid) continue;
+        }
+        if (visit(depth + 1)) return true;
+      }
+      current[depth] = 0;
+      return false;
+    };
+    if (typeCount > 0) visit(0);
+    return result;
+  };
+
+  const tracksStock = components !== undefined || children.some((c) => c.stock !== undefined && c.stock !== null);
+  const availability: Record<string, OptionAvailability[]> = {};
+
+  variantTypes.forEach((type, ti) => {
+    const isMulti = getSelectionMode(type) === "multi";
+    const ownPicks = picked[ti] === undefined || !isMulti ? [] : selectedOptionIndices(type, picked[ti]);
+
+    availability[type.value] = type.variantOptions.map((option, oi) => {
+      const indices = ownPicks.includes(oi + 1) ? ownPicks : [...ownPicks, oi + 1];
+      const fixed = picked.slice();
+      fixed[ti] = toSelectionIndex(type, indices);
+
+      const { valid: fits, blockedBy } = validator.validatePartial(fixed.map((idx) => idx ?? 0));
+      const withConstraints = fits ? search(fixed, true) : undefined;
+      const valid = withConstraints?.found ?? false;
+      // Valid options only count valid combinations; invalid ones count every combination
+      let stock: SearchResult | undefined;
+      if (tracksStock) stock = valid ? withConstraints : search(fixed, false);
+      const inStock = !stock || stock.inStock || !stock.found;
+
+      const reasons: AvailabilityReason[] = [];
+      if (!valid) reasons.push({ kind: "constraint", constraintIds: blockedBy });
+      if (!inStock) reasons.push({ kind: "out-of-stock", parts: Array.from(stock!.shortParts ?? []) });
+
+      let state: OptionAvailability["state"] = "enabled";
+      if (!valid) state = invalidMode === "hide" ? "hidden" : "disabled";
+      else if (!inStock && stockMode !== "backorder") state = stockMode === "hide" ? "hidden" : "disabled";
+
+      return { option, valid, inStock, state, backorder: valid && !inStock && stockMode === "backorder", reasons };
+    });
+  });
+
+  return availability;
+}
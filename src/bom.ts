@@ -0,0 +1,184 @@
+import type { VariantSelectionItem, VariantType } from "./index";
+import { isSelectionIndex, variantIndicesToSelection } from "./index";
+import { isConditionMet } from "./constraints";
+import type { EvaluationContext, LogicCondition } from "./constraints";
+import { createVariantKeyCodec } from "./keys";
+import type { VariantKeyFormat } from "./keys";
+import { addDecimals, decimalToNumber, multiplyDecimals, parseDecimal, roundDecimal, resolveMoneyScale } from "./money";
+import type { ExactDecimal, MoneyOptions } from "./money";
+
+/** Part data that doesn't depend on the variant, e.g. from a parts catalog */
+export type BomPart = {
+  description?: string;
+  /** Unit of measure, e.g. "pcs" or "m". Lines only aggregate with the same unit. */
+  unit?: string;
+  /** Cost of one unit */
+  unitCost?: number;
+  /** Weight of one unit, in whatever unit your app uses */
+  unitWeight?: number;
+};
+
+/** A part a rule adds, e.g. `{ part: "SCR-M3", quantity: 4 }` */
+export type BomComponent = BomPart & {
+  /** Part number; components with the same part (and unit) become one line */
+  part: string;
+  quantity: number;
+};
+
+/**
+ * Adds components to the bill of materials of every variant whose selection
+ * meets `if`. Options contribute through a leaf condition
+ * (`{ typeValue: "Color", optionValue: "Red" }`), combinations through groups.
+ */
+export type BomRule = {
+  id: string;
+  description?: string;
+  /** Omit for components every variant has */
+  if?: LogicCondition;
+  components: BomComponent[];
+};
+
+/** Part data (unit, unit cost...) comes from the part's first component. */
+export type BomLine = BomPart & {
+  part: string;
+  /** Sum of the quantities of every component for this part */
+  quantity: number;
+  /** Sum of quantity times unit cost per component; undefined when a component has no unit cost */
+  cost?: number;
+  /** Sum of quantity times unit weight per component; undefined when a component has no unit weight */
+  weight?: number;
+  /** IDs of the rules that contributed, in rule order */
+  sources: string[];
+};
+
+export type ResolvedBom = {
+  /** One line per part (and unit), in the order parts first appear */
+  lines: BomLine[];
+  /** Sum of the line costs that are known */
+  totalCost: number;
+  /** Sum of the line weights that are known */
+  totalWeight: number;
+  /** Parts whose cost is unknown, so `totalCost` leaves them out */
+  missingCost: string[];
+  /** Parts whose weight is unknown, so `totalWeight` leaves them out */
+  missingWeight: string[];
+  /** IDs of the rules whose condition held, in rule order */
+  appliedRules: string[];
+};
+
+export type ResolveBomOptions = {
+  /** Values `ContextCondition`s test, e.g. the plant or the order quantity */
+  context?: EvaluationContext;
+  /**
+   * Part data by part number. Fields a component sets itself win, so a rule
+   * can override the catalog cost of a part.
+   */
+  parts?: Record<string, BomPart>;
+  /** Rounds line costs and `totalCost` to the money scale (exact decimals are used either way) */
+  money?: MoneyOptions;
+};
+
+type LineTotals = {
+  line: BomLine;
+  cost: ExactDecimal | undefined;
+  weight: ExactDecimal | undefined;
+  quantity: ExactDecimal;
+};
+
+const ZERO: ExactDecimal = { digits: 0n, scale: 0 };
+
+// Multiplies exactly; undefined (unknown) stays unknown
+const times = (quantity: ExactDecimal, perUnit: number | undefined) =>
+  perUnit === undefined ? undefined : multiplyDecimals(quantity, parseDecimal(perUnit));
+
+/**
+ * Resolves the bill of materials for a selection: collects the components of
+ * every rule whose condition holds, aggregates them per part and rolls up cost
+ * and weight. Quantities, costs and weights are summed as exact decimals.
+ */
+export function resolveBomForSelection(
+  selection: VariantSelectionItem[],
+  rules: readonly BomRule[],
+  options: ResolveBomOptions = {}
+): ResolvedBom {
+  const { context, parts = {}, money } = options;
+  const totals = new Map<string, LineTotals>();
+  const appliedRules: string[] = [];
+
+  for (const rule of rules) {
+    if (rule.if && !isConditionMet(selection, rule.if, context)) continue;
+    appliedRules.push(rule.id);
+
+    for (const component of rule.components) {
+      const resolved: BomComponent = { ...parts[component.part], ...component };
+      const quantity = parseDecimal(resolved.quantity);
+      const cost = times(quantity, resolved.unitCost);
+      const weight = times(quantity, resolved.unitWeight);
+      const key = `${resolved.part}\u0000${resolved.unit ?? ""}`;
+
+      const existing = totals.get(key);
+      if (!existing) {
+        totals.set(key, { line: { ...resolved, quantity: 0, sources: [rule.id] }, cost, weight, quantity });
+        continue;
+      }
+      existing.quantity = addDecimals(existing.quantity, quantity);
+      existing.cost = existing.cost && cost && addDecimals(existing.cost, cost);
+      existing.weight = existing.weight && weight && addDecimals(existing.weight, weight);
+      if (!existing.line.sources.includes(rule.id)) existing.line.sources.push(rule.id);
+    }
+  }
+
+  const roundCost = (d: ExactDecimal) =>
+    money ? roundDecimal(d, resolveMoneyScale(money), money.rounding) : d;
+
+  const lines: BomLine[] = [];
+  const missingCost: string[] = [];
+  const missingWeight: string[] = [];
+  let totalCost = ZERO;
+  let totalWeight = ZERO;
+
+  for (const { line, cost, weight, quantity } of totals.values()) {
+    const result: BomLine = { ...line, quantity: decimalToNumber(quantity) };
+    if (cost) {
+      const rounded = roundCost(cost);
+      result.cost = decimalToNumber(rounded);
+      totalCost = addDecimals(totalCost, rounded);
+    } else {
+      missingCost.push(line.part);
+    }
+    if (weight) {
+      result.weight = decimalToNumber(weight);
+      totalWeight = addDecimals(totalWeight, weight);
+    } else {
+      missingWeight.push(line.part);
+    }
+    lines.push(result);
+  }
+
+  return {
+    lines,
+    totalCost: decimalToNumber(roundCost(totalCost)),
+    totalWeight: decimalToNumber(totalWeight),
+    missingCost,
+    missingWeight,
+    appliedRules,
+  };
+}
+
+/**
+ * Resolves the bill of materials of one variant (see `resolveBomForSelection`).
+ * Returns null when `variantKey` doesn't resolve against `variantTypes`.
+ */
+export function resolveBom(
+  variantKey: string,
+  variantTypes: readonly VariantType[],
+  rules: readonly BomRule[],
+  options: ResolveBomOptions & VariantKeyFormat = {}
+): ResolvedBom | null {
+  const indices = createVariantKeyCodec(variantTypes, options).parse(variantKey);
+  const resolves =
+    indices.length === variantTypes.length &&
+    indices.every((idx, ti) => isSelectionIndex(variantTypes[ti], idx));
+  if (!resolves) return null;
+  return resolveBomForSelection(variantIndicesToSelection(indices, variantTypes), rules, options);
+}
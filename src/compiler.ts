@@ -0,0 +1,388 @@
+import type { VariantOption, VariantSelectionItem, VariantType } from "./index";
+import { getSelectionMode, selectedOptionIndices, toSelectionItem } from "./index";
+import { createVariantKeyCodec } from "./keys";
+import type { VariantKeyFormat } from "./keys";
+import {
+  combineGroup,
+  compareNumbers,
+  evaluateContextCondition,
+  getOptionNumber,
+  isConditionalConstraint,
+  isContextCondition,
+  isLeafCondition,
+  isNumericCondition,
+  isSelectionCondition,
+  matchesOptionValue,
+  validateSelection,
+} from "./constraints";
+import type {
+  ConditionRef,
+  EvaluationContext,
+  LeafCondition,
+  LogicCondition,
+  RecursiveCondition,
+  SimpleCondition,
+  ValidatorResult,
+  VariantConstraint,
+} from "./constraints";
+
+/**
+ * A constraint set pre-indexed against a fixed list of variant types.
+ * Produces the same `ValidatorResult` as `validateSelection`, but only evaluates
+ * constraints that could block one of the selected options (plus requirements
+ * and constraints of other kinds, which are checked every time).
+ * Selections with several options of one type go through `validateSelection`.
+ */
+export type CompiledConstraints = {
+  /** Equivalent to `validateSelection(selection, constraints)` */
+  validate(selection: VariantSelectionItem[]): ValidatorResult;
+  /**
+   * Validates one 1-based option index per type (same layout as a `variantKey`,
+   * with bitmasks for multi-select types, see `VariantSelectionMode`).
+   * Indices outside a type's options (e.g. 0) are treated as not selected.
+   */
+  validateIndices(indices1Based: readonly number[]): ValidatorResult;
+  /**
+   * Validates a combination that is still being built: 0 (or a missing position)
+   * marks a type that is not decided yet rather than unselected. Only constraints
+   * violated however the pending types are filled in are reported.
+   */
+  validatePartial(indices1Based: readonly number[]): ValidatorResult;
+  /**
+   * Validates a stored `variantKey` without building a selection first. Keys are
+   * read in the format given when compiling; `keySeparator` overrides its separator.
+   */
+  validateVariantKey(variantKey: string, keySeparator?: string): ValidatorResult;
+};
+
+export type CompileConstraintsOptions = VariantKeyFormat & {
+  /**
+   * Values `ContextCondition`s test (e.g. the sales channel). They are fixed
+   * when compiling, so compile again when the context changes.
+   */
+  context?: EvaluationContext;
+};
+
+/** Picked option per type: 0-based option index, or one of these markers */
+const UNSELECTED = -1;
+const PENDING = -2;
+
+/**
+ * Evaluates a condition against picked options per type.
+ * Returns undefined when the result depends on a pending type.
+ */
+type CompiledCondition = (picked: Int32Array) => boolean | undefined;
+
+type Bitset = Uint32Array;
+
+function createBitset(size: number): Bitset {
+  return new Uint32Array(Math.ceil(size / 32) || 1);
+}
+
+function setBit(bits: Bitset, i: number): void {
+  bits[i >>> 5] |= 1 << (i & 31);
+}
+
+function hasBit(bits: Bitset, i: number): boolean {
+  return ((bits[i >>> 5] >>> (i & 31)) & 1) === 1;
+}
+
+/**
+ * Pre-indexes `constraints` by target type/option so validating a combination
+ * costs time proportional to the constraints that can affect it, not the whole set.
+ *
+ * Leaf conditions are turned into bitsets over option indices, so evaluating
+ * an `if` tree no longer searches the selection per leaf.
+ */
+export function compileConstraints(
+  variantTypes: readonly VariantType[],
+  constraints: VariantConstraint[],
+  options: CompileConstraintsOptions = {}
+): CompiledConstraints {
+  const { context } = options;
+  const codec = createVariantKeyCodec(variantTypes, options);
+  const typeIndexByValue = new Map<string, number>();
+  const typeIndexById = new Map<string, number>();
+  variantTypes.forEach((t, ti) => {
+    if (!typeIndexByValue.has(t.value)) typeIndexByValue.set(t.value, ti);
+    if (t.id !== undefined && !typeIndexById.has(t.id)) typeIndexById.set(t.id, ti);
+  });
+  const resolveType = (typeRef: string, ref: ConditionRef = "value") =>
+    (ref === "id" ? typeIndexById : typeIndexByValue).get(typeRef);
+  const optionRef = (o: VariantOption, ref: ConditionRef = "value") =>
+    ref === "id" ? o.id : o.value;
+
+  const optionIndexByValue = variantTypes.map((t) => {
+    const map = new Map<string, number>();
+    (t.variantOptions ?? []).forEach((o, oi) => {
+      if (!map.has(o.value)) map.set(o.value, oi);
+    });
+    return map;
+  });
+
+  const optionCount = (ti: number) => variantTypes[ti].variantOptions?.length ?? 0;
+
+  // Bitset of the options of type `ti` that pass `test`.
+  const optionsWhere = (
+    ti: number,
+    test: (option: VariantOption) => boolean
+  ): Bitset => {
+    const bits = createBitset(optionCount(ti));
+    (variantTypes[ti].variantOptions ?? []).forEach((o, oi) => {
+      if (test(o)) setBit(bits, oi);
+    });
+    return bits;
+  };
+
+  const compileLeaf = (condition: LeafCondition): CompiledCondition => {
+    const ti = resolveType(condition.typeValue, condition.ref);
+    // Types outside `variantTypes` can never be selected here.
+    if (ti === undefined) {
+      return () => isSelectionCondition(condition) && condition.operator === "unselected";
+    }
+
+    if (isSelectionCondition(condition)) {
+      const wantSelected = condition.operator === "selected";
+      return (picked) =>
+        picked[ti] === PENDING ? undefined : (picked[ti] >= 0) === wantSelected;
+    }
+
+    let bits: Bitset;
+    if (isNumericCondition(condition)) {
+      bits = optionsWhere(ti, (o) => {
+        const n = getOptionNumber(o, condition.attribute);
+        return n !== undefined && compareNumbers(n, condition.operator, condition.value);
+      });
+    } else {
+      bits = optionsWhere(ti, (o) =>
+        matchesOptionValue(optionRef(o, condition.ref), condition as SimpleCondition)
+      );
+    }
+
+    return (picked) => {
+      const oi = picked[ti];
+      if (oi === PENDING) return undefined;
+      return oi >= 0 && hasBit(bits, oi);
+    };
+  };
+
+  const compileCondition = (condition: LogicCondition): CompiledCondition => {
+    if (isLeafCondition(condition)) return compileLeaf(condition);
+    if (isContextCondition(condition)) {
+      const result = evaluateContextCondition(condition, context);
+      return () => result;
+    }
+
+    const { operator, conditions } = condition as RecursiveCondition;
+    if (!conditions || conditions.length === 0) return () => false;
+
+    const compiled = conditions.map(compileCondition);
+    if (operator === "AND") {
+      return (picked) => {
+        let unknown = false;
+        for (const c of compiled) {
+          const r = c(picked);
+          if (r === false) return false;
+          if (r === undefined) unknown = true;
+        }
+        return unknown ? undefined : true;
+      };
+    }
+    if (operator === "OR") {
+      return (picked) => {
+        let unknown = false;
+        for (const c of compiled) {
+          const r = c(picked);
+          if (r === true) return true;
+          if (r === undefined) unknown = true;
+        }
+        return unknown ? undefined : false;
+      };
+    }
+    return (picked) => combineGroup(operator, compiled.map((c) => c(picked)));
+  };
+
+  // Option index per type of a `{ typeValue, optionValue }` pair, or undefined
+  // when either is unknown (such options can never be picked here).
+  const resolveOption = (typeValue: string, optionValue: string, ref?: ConditionRef) => {
+    const ti = resolveType(typeValue, ref);
+    if (ti === undefined) return undefined;
+    const oi = (variantTypes[ti].variantOptions ?? []).findIndex((o) => optionRef(o, ref) === optionValue);
+    return oi < 0 ? undefined : { ti, oi };
+  };
+
+  // Constraints that can be broken without one of their options being picked
+  // (requirements, non-default and exclusion rules); checked every time.
+  // Each returns true when the constraint is definitely violated.
+  const compileRule = (constraint: VariantConstraint): CompiledCondition => {
+    if (isConditionalConstraint(constraint)) {
+      const condition = compileCondition(constraint.if);
+      const { ref, options } = constraint.then;
+      const ti = resolveType(constraint.then.typeValue, ref);
+      const accepted =
+        ti === undefined
+          ? undefined
+          : optionsWhere(ti, (o) => {
+              const r = optionRef(o, ref);
+              return options.length === 0 || (r !== undefined && options.includes(r));
+            });
+      return (picked) => {
+        const oi = ti === undefined ? UNSELECTED : picked[ti];
+        if (oi === PENDING) return undefined;
+        if (oi >= 0 && hasBit(accepted!, oi)) return false;
+        return condition(picked);
+      };
+    }
+
+    const { ref } = constraint;
+    switch (constraint.kind) {
+      case "mutually-exclusive": {
+        const listed = constraint.options.flatMap((o) => resolveOption(o.typeValue, o.optionValue, ref) ?? []);
+        return (picked) => listed.filter(({ ti, oi }) => picked[ti] === oi).length > 1;
+      }
+      case "non-default": {
+        const types = constraint.types.map(({ typeValue, defaultOption }) => {
+          const ti = resolveType(typeValue, ref);
+          return { ti, oi: resolveOption(typeValue, defaultOption, ref)?.oi ?? -1 };
+        });
+        return (picked) => {
+          let unknown = false;
+          for (const { ti, oi } of types) {
+            if (ti === undefined) continue;
+            if (picked[ti] === PENDING) unknown = true;
+            else if (picked[ti] >= 0 && picked[ti] !== oi) return false;
+          }
+          return unknown ? undefined : true;
+        };
+      }
+      case "forbidden-tuples": {
+        const tuples = constraint.tuples.flatMap((tuple) => {
+          const resolved = constraint.typeValues.map((t, i) => resolveOption(t, tuple[i], ref));
+          return resolved.every((r) => r !== undefined) ? [resolved as { ti: number; oi: number }[]] : [];
+        });
+        return (picked) => tuples.some((tuple) => tuple.every(({ ti, oi }) => picked[ti] === oi));
+      }
+      default:
+        return () => false;
+    }
+  };
+
+  // blockers[typeIndex][optionIndex] -> indices of constraints that reject
+  // that option whenever their `if` holds, in constraint order.
+  const blockers: number[][][] = variantTypes.map((_, ti) =>
+    Array.from({ length: optionCount(ti) }, () => [])
+  );
+  const alwaysChecked: number[] = [];
+  const conditions: CompiledCondition[] = [];
+
+  constraints.forEach((constraint, ci) => {
+    if (!isConditionalConstraint(constraint) || constraint.then.action === "require") {
+      conditions.push(compileRule(constraint));
+      alwaysChecked.push(ci);
+      return;
+    }
+    conditions.push(compileCondition(constraint.if));
+
+    const { ref } = constraint.then;
+    const ti = resolveType(constraint.then.typeValue, ref);
+    if (ti === undefined) return;
+
+    const listed = optionsWhere(ti, (o) => {
+      const r = optionRef(o, ref);
+      return r !== undefined && constraint.then.options.includes(r);
+    });
+    const blockListed = constraint.then.action === "disallow";
+    if (!blockListed && constraint.then.action !== "allow") return;
+
+    for (let oi = 0; oi < optionCount(ti); oi++) {
+      if (hasBit(listed, oi) === blockListed) blockers[ti][oi].push(ci);
+    }
+  });
+
+  const evaluate = (picked: Int32Array): ValidatorResult => {
+    const candidates: number[] = [...alwaysChecked];
+    for (let ti = 0; ti < picked.length; ti++) {
+      if (picked[ti] >= 0) candidates.push(...blockers[ti][picked[ti]]);
+    }
+    if (candidates.length > 1) candidates.sort((a, b) => a - b);
+
+    const blockedBy: string[] = [];
+    for (const ci of candidates) {
+      if (conditions[ci](picked) === true) blockedBy.push(constraints[ci].id);
+    }
+    return { valid: blockedBy.length === 0, blockedBy };
+  };
+
+  // Multi-selections with more than one option need the generic evaluator
+  // (0 still marks a missing or, for partial combinations, pending type).
+  const validateGeneric = (indices1Based: readonly number[], missing: number): ValidatorResult => {
+    const selection: VariantSelectionItem[] = [];
+    const pendingTypes = new Set<string>();
+    variantTypes.forEach((t, ti) => {
+      const idx = indices1Based[ti] ?? 0;
+      if (idx === 0 && missing === PENDING) {
+        pendingTypes.add(t.value);
+        if (t.id !== undefined) pendingTypes.add(t.id);
+      }
+      for (const oi of selectedOptionIndices(t, idx)) selection.push(toSelectionItem(t, ti, oi));
+    });
+    return validateSelection(selection, constraints, { context, pendingTypes });
+  };
+
+  const multiTypes = new Set(
+    variantTypes.flatMap((t, ti) => (getSelectionMode(t) === "multi" ? [ti] : []))
+  );
+
+  const fromIndices = (indices1Based: readonly number[], missing: number): ValidatorResult => {
+    const picked = new Int32Array(variantTypes.length).fill(missing);
+    for (let ti = 0; ti < variantTypes.length; ti++) {
+      let idx = indices1Based[ti] ?? 0;
+      if (multiTypes.has(ti) && idx !== 0) {
+        const selected = selectedOptionIndices(variantTypes[ti], idx);
+        if (selected.length > 1) return validateGeneric(indices1Based, missing);
+        idx = selected[0] ?? -1;
+      }
+      if (idx >= 1 && idx <= optionCount(ti)) picked[ti] = idx - 1;
+      else if (idx !== 0) picked[ti] = UNSELECTED;
+    }
+    return evaluate(picked);
+  };
+
+  const validateIndices = (indices1Based: readonly number[]): ValidatorResult =>
+    fromIndices(indices1Based, UNSELECTED);
+
+  const validate = (selection: VariantSelectionItem[]): ValidatorResult => {
+    const picked = new Int32Array(variantTypes.length).fill(UNSELECTED);
+    for (const item of selection) {
+      const ti = typeIndexByValue.get(item.typeValue);
+      const oi = ti === undefined ? undefined : optionIndexByValue[ti].get(item.optionValue);
+      // Types or values the index doesn't know about (or items whose ids
+      // disagree with it) need the generic evaluator.
+      if (
+        ti === undefined ||
+        oi === undefined ||
+        item.typeId !== variantTypes[ti].id ||
+        item.optionId !== variantTypes[ti].variantOptions[oi].id
+      ) {
+        return validateSelection(selection, constraints, { context });
+      }
+      // A second option of a type is a multi-selection.
+      if (picked[ti] >= 0) return validateSelection(selection, constraints, { context });
+      picked[ti] = oi;
+    }
+    return evaluate(picked);
+  };
+
+  return {
+    validate,
+    validateIndices,
+    validatePartial: (indices1Based) => fromIndices(indices1Based, PENDING),
+    validateVariantKey: (variantKey, keySeparator) => {
+      const keyCodec =
+        keySeparator === undefined || keySeparator === codec.keySeparator
+          ? codec
+          : createVariantKeyCodec(variantTypes, { ...options, keySeparator });
+      return validateIndices(keyCodec.parse(variantKey));
+    },
+  };
+}
@@ -0,0 +1,737 @@
+import type { ChildVariant, VariantType } from "./index";
+import { isSelectionIndex, validateVariantTypes } from "./index";
+import type { VariantConstraint } from "./constraints";
+import type { VariantModifier } from "./modifiers";
+import type { BomPart, BomRule } from "./bom";
+import { parseExpression } from "./expression";
+import { createVariantKeyCodec } from "./keys";
+import type { VariantKeyFormat } from "./keys";
+
+/** Version of the document format `serializeProductConfig` writes */
+export const PRODUCT_CONFIG_VERSION = 1;
+
+/**
+ * Everything that defines a configurable product, as one versioned document.
+ * It has the same field names as the options of `createConfigurator`, so a
+ * parsed config can be passed to it as is.
+ */
+export type ProductConfig<TChild extends ChildVariant = ChildVariant> = VariantKeyFormat & {
+  /** Lets editors find the schema; not used otherwise */
+  $schema?: string;
+  version: typeof PRODUCT_CONFIG_VERSION;
+  name?: string;
+  variantTypes: VariantType[];
+  constraints: VariantConstraint[];
+  modifiers: VariantModifier<TChild>[];
+  /** Existing children; their `variantKey`s use `keyScheme`/`keySeparator` */
+  children: TChild[];
+  bomRules?: BomRule[];
+  /** Part data for `bomRules`, by part number */
+  parts?: Record<string, BomPart>;
+};
+
+/** What `serializeProductConfig` takes: the version is filled in and empty lists may be left out */
+export type ProductConfigInput<TChild extends ChildVariant = ChildVariant> = Omit<
+  ProductConfig<TChild>,
+  "version" | "constraints" | "modifiers" | "children"
+> &
+  Partial<Pick<ProductConfig<TChild>, "version" | "constraints" | "modifiers" | "children">>;
+
+/**
+ * - `invalid-json`: the text isn't JSON
+ * - `unsupported-version`: no migration leads from the document's version to this one
+ * - `migration-failed`: a migration threw
+ * - `schema`: the document doesn't match `PRODUCT_CONFIG_SCHEMA`
+ * - `invalid-variant-types`: an error `validateVariantTypes` reports
+ * - `duplicate-id`: two constraints, modifiers, BOM rules or children share an id (or `variantKey`)
+ * - `unknown-variant-key`: a child's `variantKey` doesn't resolve against the variant types
+ * - `invalid-expression`: a modifier action's expression doesn't parse
+ */
+export type ProductConfigErrorCode =
+  | "invalid-json"
+  | "unsupported-version"
+  | "migration-failed"
+  | "schema"
+  | "invalid-variant-types"
+  | "duplicate-id"
+  | "unknown-variant-key"
+  | "invalid-expression";
+
+export type ProductConfigError = {
+  code: ProductConfigErrorCode;
+  /** JSON Pointer to the offending value, e.g. "/constraints/2/then/action"; "" for the whole document */
+  path: string;
+  message: string;
+};
+
+export type ProductConfigWarning = {
+  path: string;
+  message: string;
+};
+
+export type ParseProductConfigResult<TChild extends ChildVariant = ChildVariant> =
+  | {
+      ok: true;
+      config: ProductConfig<TChild>;
+      /** Warnings `validateVariantTypes` reports */
+      warnings: ProductConfigWarning[];
+      /** The document's version before migrations; equals `config.version` when none ran */
+      migratedFrom: number;
+    }
+  | { ok: false; errors: ProductConfigError[] };
+
+/**
+ * Upgrades documents of version `from` to version `to` (usually `from + 1`; it
+ * must be greater than `from`). Migrations get a copy of the document, so they
+ * may change it in place.
+ */
+export type ProductConfigMigration = {
+  from: number;
+  to: number;
+  description?: string;
+  migrate(document: Record<string, unknown>): Record<string, unknown>;
+};
+
+/**
+ * The migrations `parseProductConfig` runs by default. Version 0 is a document
+ * without `version`, e.g. a `{ variantTypes, constraints, modifiers }` bundle
+ * an app stored before this format existed.
+ */
+export const PRODUCT_CONFIG_MIGRATIONS: readonly ProductConfigMigration[] = [
+  {
+    from: 0,
+    to: 1,
+    description: "Adds `version` to unversioned documents",
+    migrate: (document) => ({ ...document, version: 1 }),
+  },
+];
+
+export type MigrateProductConfigOptions = {
+  /** Defaults to `PRODUCT_CONFIG_MIGRATIONS` */
+  migrations?: readonly ProductConfigMigration[];
+  /** Defaults to `PRODUCT_CONFIG_VERSION` */
+  toVersion?: number;
+};
+
+export type MigrateProductConfigResult =
+  | {
+      ok: true;
+      document: Record<string, unknown>;
+      /** The document's version before migrations */
+      from: number;
+      /** The migrations that ran, in order */
+      applied: ProductConfigMigration[];
+    }
+  | { ok: false; error: ProductConfigError };
+
+export type ParseProductConfigOptions = {
+  /** Defaults to `PRODUCT_CONFIG_MIGRATIONS` */
+  migrations?: readonly ProductConfigMigration[];
+};
+
+export type SerializeProductConfigOptions = {
+  /** Indentation passed to `JSON.stringify`. Defaults to 2; 0 writes one line. */
+  space?: number | string;
+};
+
+/** The subset of JSON Schema (draft 2020-12) `PRODUCT_CONFIG_SCHEMA` uses */
+export type JsonSchema = {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  const?: unknown;
+  enum?: readonly unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  minimum?: number;
+  minLength?: number;
+};
+
+export type JsonSchemaType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/$defs/${name}` });
+const strings: JsonSchema = { type: "array", items: { type: "string" } };
+const conditionRef: JsonSchema = { enum: ["value", "id"] };
+const comparisonOperators = ["equals", "not_equals", "in", "not_in"];
+const numericOperators = ["eq", "neq", "gt", "gte", "lt", "lte"];
+const contextValue: JsonSchema = { type: ["string", "number", "boolean"] };
+
+/** Properties every constraint kind has, plus `kind` */
+const constraintProperties = (kind: JsonSchema): Record<string, JsonSchema> => ({
+  id: { type: "string" },
+  description: { type: "string" },
+  kind,
+  ref: conditionRef,
+});
+
+/**
+ * JSON Schema (draft 2020-12) of the document `serializeProductConfig` writes.
+ * `parseProductConfig` validates against it, then checks what a schema can't
+ * (see `ProductConfigErrorCode`). Publish it with `JSON.stringify` for editors
+ * and other languages.
+ */
+export const PRODUCT_CONFIG_SCHEMA: JsonSchema = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  title: "Product configuration",
+  description: `A product-variants-core product configuration, version ${PRODUCT_CONFIG_VERSION}`,
+  type: "object",
+  required: ["version", "variantTypes"],
+  additionalProperties: false,
+  properties: {
+    $schema: { type: "string" },
+    version: { const: PRODUCT_CONFIG_VERSION },
+    name: { type: "string" },
+    keyScheme: { enum: ["index", "id", "hash"] },
+    keySeparator: { type: "string", minLength: 1 },
+    variantTypes: { type: "array", items: ref("variantType") },
+    constraints: { type: "array", items: ref("constraint") },
+    modifiers: { type: "array", items: ref("modifier") },
+    children: { type: "array", items: ref("child") },
+    bomRules: { type: "array", items: ref("bomRule") },
+    parts: { type: "object", additionalProperties: ref("bomPart") },
+  },
+  $defs: {
+    variantOption: {
+      type: "object",
+      required: ["value"],
+      additionalProperties: false,
+      properties: {
+        value: { type: "string" },
+        id: { type: "string" },
+        label: { type: "string" },
+        code: { type: "string" },
+        swatch: { type: "string" },
+        image: { type: "string" },
+        sortWeight: { type: "number" },
+        numericValue: { type: "number" },
+        attributes: { type: "object", additionalProperties: { type: ["string", "number", "boolean"] } },
+      },
+    },
+    variantType: {
+      type: "object",
+      required: ["value", "variantOptions"],
+      additionalProperties: false,
+      properties: {
+        value: { type: "string" },
+        id: { type: "string" },
+        label: { type: "string" },
+        selectionMode: { enum: ["single", "optional-single", "multi"] },
+        minSelections: { type: "integer", minimum: 0 },
+        maxSelections: { type: "integer", minimum: 0 },
+        variantOptions: { type: "array", items: ref("variantOption") },
+      },
+    },
+    condition: {
+      anyOf: [
+        ref("simpleCondition"),
+        ref("selectionCondition"),
+        ref("numericCondition"),
+        ref("contextCondition"),
+        ref("groupCondition"),
+      ],
+    },
+    simpleCondition: {
+      type: "object",
+      required: ["typeValue", "optionValue"],
+      additionalProperties: false,
+      properties: {
+        typeValue: { type: "string" },
+        optionValue: { anyOf: [{ type: "string" }, strings] },
+        operator: { enum: comparisonOperators },
+        ref: conditionRef,
+      },
+    },
+    selectionCondition: {
+      type: "object",
+      required: ["typeValue", "operator"],
+      additionalProperties: false,
+      properties: {
+        typeValue: { type: "string" },
+        operator: { enum: ["selected", "unselected"] },
+        ref: conditionRef,
+      },
+    },
+    numericCondition: {
+      type: "object",
+      required: ["typeValue", "operator", "value"],
+      additionalProperties: false,
+      properties: {
+        typeValue: { type: "string" },
+        operator: { enum: numericOperators },
+        value: { type: "number" },
+        attribute: { type: "string" },
+        ref: conditionRef,
+      },
+    },
+    contextCondition: {
+      type: "object",
+      required: ["context", "value"],
+      additionalProperties: false,
+      properties: {
+        context: { type: "string" },
+        operator: { enum: [...comparisonOperators, ...numericOperators, "between"] },
+        // Dates are written as ISO strings
+        value: { anyOf: [contextValue, { type: "array", items: contextValue }] },
+      },
+    },
+    groupCondition: {
+      type: "object",
+      required: ["operator", "conditions"],
+      additionalProperties: false,
+      properties: {
+        operator: { enum: ["AND", "OR", "XOR", "NOT"] },
+        conditions: { type: "array", items: ref("condition") },
+      },
+    },
+    optionPair: {
+      type: "object",
+      required: ["typeValue", "optionValue"],
+      additionalProperties: false,
+      properties: { typeValue: { type: "string" }, optionValue: { type: "string" } },
+    },
+    constraint: {
+      anyOf: [
+        ref("conditionalConstraint"),
+        ref("mutualExclusionConstraint"),
+        ref("nonDefaultConstraint"),
+        ref("forbiddenTuplesConstraint"),
+      ],
+    },
+    conditionalConstraint: {
+      type: "object",
+      required: ["id", "if", "then"],
+      additionalProperties: false,
+      properties: {
+        ...constraintProperties({ const: "conditional" }),
+        if: ref("condition"),
+        then: {
+          type: "object",
+          required: ["typeValue", "action", "options"],
+          additionalProperties: false,
+          properties: {
+            typeValue: { type: "string" },
+            action: { enum: ["allow", "disallow", "require"] },
+            options: strings,
+            ref: conditionRef,
+          },
+        },
+      },
+    },
+    mutualExclusionConstraint: {
+      type: "object",
+      required: ["id", "kind", "options"],
+      additionalProperties: false,
+      properties: {
+        ...constraintProperties({ const: "mutually-exclusive" }),
+        options: { type: "array", items: ref("optionPair") },
+      },
+    },
+    nonDefaultConstraint: {
+      type: "object",
+      required: ["id", "kind", "types"],
+      additionalProperties: false,
+      properties: {
+        ...constraintProperties({ const: "non-default" }),
+        types: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["typeValue", "defaultOption"],
+            additionalProperties: false,
+            properties: { typeValue: { type: "string" }, defaultOption: { type: "string" } },
+          },
+        },
+      },
+    },
+    forbiddenTuplesConstraint: {
+      type: "object",
+      required: ["id", "kind", "typeValues", "tuples"],
+      additionalProperties: false,
+      properties: {
+        ...constraintProperties({ const: "forbidden-tuples" }),
+        typeValues: strings,
+        tuples: { type: "array", items: strings },
+      },
+    },
+    modifierAction: {
+      type: "object",
+      required: ["field", "operation"],
+      additionalProperties: false,
+      properties: {
+        field: { type: "string" },
+        operation: { enum: ["add", "subtract", "multiply", "set", "round", "append", "remove", "toggle"] },
+        // Any JSON value; which ones fit depends on the field
+        value: {},
+        expression: { type: "string" },
+      },
+    },
+    modifier: {
+      type: "object",
+      required: ["id", "if", "then"],
+      additionalProperties: false,
+      properties: {
+        id: { type: "string" },
+        description: { type: "string" },
+        phase: { enum: ["base", "surcharge", "multiplier", "rounding", "override"] },
+        priority: { type: "number" },
+        stop: { type: "boolean" },
+        exclusive: { type: "boolean" },
+        if: ref("condition"),
+        then: { type: "array", items: ref("modifierAction") },
+      },
+    },
+    child: {
+      // Children may carry custom fields (weight, tags...)
+      type: "object",
+      required: ["variantKey"],
+      properties: {
+        variantKey: { type: "string" },
+        title: { type: "string" },
+        sku: { type: "string" },
+        cost: { type: ["number", "null"] },
+        stock: { type: ["number", "null"] },
+        imageIds: { type: "array", items: { type: "integer" } },
+      },
+    },
+    bomPart: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        description: { type: "string" },
+        unit: { type: "string" },
+        unitCost: { type: "number" },
+        unitWeight: { type: "number" },
+      },
+    },
+    bomRule: {
+      type: "object",
+      required: ["id", "components"],
+      additionalProperties: false,
+      properties: {
+        id: { type: "string" },
+        description: { type: "string" },
+        if: ref("condition"),
+        components: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["part", "quantity"],
+            additionalProperties: false,
+            properties: {
+              part: { type: "string" },
+              quantity: { type: "number" },
+              description: { type: "string" },
+              unit: { type: "string" },
+              unitCost: { type: "number" },
+              unitWeight: { type: "number" },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// JSON Pointer escaping (RFC 6901)
+const pointer = (path: string, key: string | number) =>
+  `${path}/${String(key).replace(/~/g, "~0").replace(/\//g, "~1")}`;
+
+const typeOf = (value: unknown): JsonSchemaType | "undefined" => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  const type = typeof value;
+  return type === "string" || type === "number" || type === "boolean" || type === "object" ? type : "undefined";
+};
+
+const matchesType = (value: unknown, type: JsonSchemaType) =>
+  type === "integer" ? Number.isInteger(value) : typeOf(value) === type;
+
+const describeValues = (values: readonly unknown[]) => values.map((v) => JSON.stringify(v)).join(", ");
+
+/**
+ * Validates `value` against the keywords `JsonSchema` lists. For `anyOf`,
+ * reports the errors of the branch that came closest: the one whose type,
+ * `const` or `enum` matched `value` itself, then the one with fewest errors.
+ */
+function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  root: JsonSchema,
+  errors: ProductConfigError[]
+): void {
+  const fail = (message: string, at = path) => errors.push({ code: "schema", path: at, message });
+
+  if (schema.$ref !== undefined) {
+    const name = schema.$ref.replace("#/$defs/", "");
+    validateSchema(value, root.$defs![name], path, root, errors);
+    return;
+  }
+
+  if (schema.anyOf) {
+    const distance = (branchErrors: ProductConfigError[]) =>
+      branchErrors.filter((e) => e.path === path).length * 1000 + branchErrors.length;
+    let closest: ProductConfigError[] | undefined;
+    for (const branch of schema.anyOf) {
+      const branchErrors: ProductConfigError[] = [];
+      validateSchema(value, branch, path, root, branchErrors);
+      if (branchErrors.length === 0) return;
+      if (!closest || distance(branchErrors) < distance(closest)) closest = branchErrors;
+    }
+    errors.push(...closest!);
+    return;
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      fail(`Expected ${types.join(" or ")}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+  if ("const" in schema && value !== schema.const) {
+    fail(`Expected ${JSON.stringify(schema.const)}`);
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    fail(`Expected one of ${describeValues(schema.enum)}`);
+    return;
+  }
+  if (schema.minimum !== undefined && typeof value === "number" && value < schema.minimum) {
+    fail(`Expected a number >= ${schema.minimum}`);
+  }
+  if (schema.minLength !== undefined && typeof value === "string" && value.length < schema.minLength) {
+    fail(`Expected at least ${schema.minLength} character(s)`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => validateSchema(item, schema.items!, pointer(path, i), root, errors));
+  }
+
+  if (isObject(value)) {
+    const properties = schema.properties ?? {};
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) fail(`Missing required property "${key}"`, pointer(path, key));
+    }
+    for (const [key, item] of Object.entries(value)) {
+      if (item === undefined) continue;
+      const propertySchema = properties[key];
+      if (propertySchema) {
+        validateSchema(item, propertySchema, pointer(path, key), root, errors);
+      } else if (schema.additionalProperties === false) {
+        fail(`Unknown property "${key}"`, pointer(path, key));
+      } else if (isObject(schema.additionalProperties)) {
+        validateSchema(item, schema.additionalProperties, pointer(path, key), root, errors);
+      }
+    }
+  }
+}
+
+/**
+ * Brings a document up to `options.toVersion` by running migrations one
+ * version at a time. The input isn't changed. A document without `version`
+ * is version 0.
+ */
+export function migrateProductConfig(
+  document: unknown,
+  options: MigrateProductConfigOptions = {}
+): MigrateProductConfigResult {
+  const { migrations = PRODUCT_CONFIG_MIGRATIONS, toVersion = PRODUCT_CONFIG_VERSION } = options;
+  if (!isObject(document)) {
+    return { ok: false, error: { code: "schema", path: "", message: `Expected object, got ${typeOf(document)}` } };
+  }
+
+  const from = document.version ?? 0;
+  if (typeof from !== "number" || !Number.isInteger(from) || from < 0) {
+    return { ok: false, error: { code: "schema", path: "/version", message: "Expected a non-negative integer" } };
+  }
+  if (from > toVersion) {
+    return {
+      ok: false,
+      error: {
+        code: "unsupported-version",
+        path: "/version",
+        message: `Version ${from} is newer than the supported version ${toVersion}`,
+      },
+    };
+  }
+
+  let migrated: Record<string, unknown> = structuredClone(document);
+  const applied: ProductConfigMigration[] = [];
+  for (let version = from; version < toVersion; ) {
+    const migration = migrations.find((m) => m.from === version);
+    if (!migration) {
+      return {
+        ok: false,
+        error: { code: "unsupported-version", path: "/version", message: `No migration from version ${version}` },
+      };
+    }
+    // A migration that doesn't move forward would loop forever
+    if (!(migration.to > version)) {
+      return {
+        ok: false,
+        error: {
+          code: "migration-failed",
+          path: "",
+          message: `Migration from version ${version} must go to a newer version, not ${migration.to}`,
+        },
+      };
+    }
+    try {
+      migrated = migration.migrate(migrated);
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : String(e);
+      return {
+        ok: false,
+        error: {
+          code: "migration-failed",
+          path: "",
+          message: `Migration from version ${migration.from} to ${migration.to} failed: ${reason}`,
+        },
+      };
+    }
+    applied.push(migration);
+    version = migration.to;
+  }
+  return { ok: true, document: migrated, from, applied };
+}
+
+// Errors for ids that appear more than once in `items`, at the later occurrences
+function findDuplicates<T>(
+  items: readonly T[],
+  getId: (item: T) => string,
+  path: string,
+  field: string
+): ProductConfigError[] {
+  const seen = new Set<string>();
+  const errors: ProductConfigError[] = [];
+  items.forEach((item, i) => {
+    const id = getId(item);
+    if (seen.has(id)) {
+      errors.push({ code: "duplicate-id", path: pointer(pointer(path, i), field), message: `Duplicate ${field} "${id}"` });
+    }
+    seen.add(id);
+  });
+  return errors;
+}
+
+/**
+ * Parses a product configuration (JSON text or an already parsed value):
+ * migrates it to `PRODUCT_CONFIG_VERSION`, validates it against
+ * `PRODUCT_CONFIG_SCHEMA`, then checks the variant types, ids, child keys and
+ * modifier expressions. Errors carry a JSON Pointer to the offending value.
+ * Lists the document leaves out are empty in `config`. Dates in context
+ * conditions stay ISO strings, which conditions compare like the Dates they were.
+ */
+export function parseProductConfig<TChild extends ChildVariant = ChildVariant>(
+  input: unknown,
+  options: ParseProductConfigOptions = {}
+): ParseProductConfigResult<TChild> {
+  let document = input;
+  if (typeof input === "string") {
+    try {
+      document = JSON.parse(input);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      return { ok: false, errors: [{ code: "invalid-json", path: "", message }] };
+    }
+  }
+
+  const migration = migrateProductConfig(document, options);
+  if (!migration.ok) return { ok: false, errors: [migration.error] };
+
+  const errors: ProductConfigError[] = [];
+  validateSchema(migration.document, PRODUCT_CONFIG_SCHEMA, "", PRODUCT_CONFIG_SCHEMA, errors);
+  if (errors.length > 0) return { ok: false, errors };
+
+  const config = {
+    ...migration.document,
+    constraints: migration.document.constraints ?? [],
+    modifiers: migration.document.modifiers ?? [],
+    children: migration.document.children ?? [],
+  } as ProductConfig<TChild>;
+
+  const typesReport = validateVariantTypes(config.variantTypes);
+  for (const message of typesReport.errors) {
+    errors.push({ code: "invalid-variant-types", path: "/variantTypes", message });
+  }
+
+  errors.push(
+    ...findDuplicates(config.constraints, (c) => c.id, "/constraints", "id"),
+    ...findDuplicates(config.modifiers, (m) => m.id, "/modifiers", "id"),
+    ...findDuplicates(config.bomRules ?? [], (r) => r.id, "/bomRules", "id"),
+    ...findDuplicates(config.children, (c) => c.variantKey, "/children", "variantKey")
+  );
+
+  config.modifiers.forEach((modifier, mi) => {
+    modifier.then.forEach((action, ai) => {
+      if (action.expression === undefined) return;
+      const parsed = parseExpression(action.expression);
+      if (parsed.ok) return;
+      errors.push({
+        code: "invalid-expression",
+        path: `/modifiers/${mi}/then/${ai}/expression`,
+        message: `${parsed.error.message} (at position ${parsed.error.position})`,
+      });
+    });
+  });
+
+  // Keys only resolve against valid variant types
+  if (typesReport.errors.length === 0) {
+    const codec = createVariantKeyCodec(config.variantTypes, config);
+    config.children.forEach((child, i) => {
+      const indices = codec.parse(child.variantKey);
+      const resolves =
+        indices.length === config.variantTypes.length &&
+        indices.every((idx, ti) => isSelectionIndex(config.variantTypes[ti], idx));
+      if (!resolves) {
+        errors.push({
+          code: "unknown-variant-key",
+          path: `/children/${i}/variantKey`,
+          message: `Variant key "${child.variantKey}" doesn't resolve against the variant types`,
+        });
+      }
+    });
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  const warnings = typesReport.warnings.map((message) => ({ path: "/variantTypes", message }));
+  return { ok: true, config, warnings, migratedFrom: migration.from };
+}
+
+/**
+ * Writes a product configuration as a `PRODUCT_CONFIG_VERSION` document, with
+ * its fields in a fixed order so stored configs diff cleanly. Dates in context
+ * conditions are written as ISO strings and aren't turned back into Dates on parse.
+ */
+export function serializeProductConfig<TChild extends ChildVariant = ChildVariant>(
+  config: ProductConfigInput<TChild>,
+  options: SerializeProductConfigOptions = {}
+): string {
+  const { space = 2 } = options;
+  const document: ProductConfig<TChild> = {
+    $schema: config.$schema,
+    version: PRODUCT_CONFIG_VERSION,
+    name: config.name,
+    keyScheme: config.keyScheme,
+    keySeparator: config.keySeparator,
+    variantTypes: config.variantTypes,
+    constraints: config.constraints ?? [],
+    modifiers: config.modifiers ?? [],
+    children: config.children ?? [],
+    bomRules: config.bomRules,
+    parts: config.parts,
+  };
+  // JSON.stringify leaves out the fields that are undefined
+  return JSON.stringify(document, null, space);
+}
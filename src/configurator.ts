@@ -0,0 +1,387 @@
+import type { ChildVariant, VariantOption, VariantSelectionItem, VariantType } from "./index";
+import { getSelectionMode, selectedOptionIndices, toSelectionIndex, toSelectionItem } from "./index";
+import { getAvailableOptions, validateSelection } from "./constraints";
+import type { EvaluationContext, VariantConstraint } from "./constraints";
+import { applyModifiers } from "./modifiers";
+import type { MoneyModeOptions, VariantModifier } from "./modifiers";
+import { propagateConstraints } from "./solver";
+import { suggestValidCombinations } from "./suggestions";
+import type { SelectionValue, ValidCombinationSuggestion } from "./suggestions";
+import { createVariantKeyCodec } from "./keys";
+import type { VariantKeyFormat } from "./keys";
+
+/**
+ * What `select` does with earlier picks that no longer fit the new one:
+ * - `keep`: nothing; the state just becomes invalid (`blockedBy`)
+ * - `deselect`: removes them
+ * - `correct`: switches them to the first option that fits, or removes them if none does
+ *
+ * Picks are kept most-recent first, so the oldest conflicting picks give way.
+ */
+export type ConflictResolution = "keep" | "deselect" | "correct";
+
+export type CreateConfiguratorOptions<TChild extends ChildVariant = ChildVariant> = VariantKeyFormat & {
+  variantTypes: readonly VariantType[];
+  constraints?: VariantConstraint[];
+  modifiers?: readonly VariantModifier<NoInfer<TChild>>[];
+  /** What modifiers are applied to for the price and the resolved child. Defaults to `{ variantKey: "" }`. */
+  baseProduct?: TChild;
+  /** Existing children (e.g. with SKUs); a complete selection resolves to the one with its `variantKey` */
+  children?: readonly TChild[];
+  /** Defaults to "keep" */
+  onConflict?: ConflictResolution;
+  /** Option value(s) per type value to start from, e.g. `{ Color: "Red", Extras: ["Case"] }` */
+  initialSelection?: Record<string, SelectionValue>;
+  context?: EvaluationContext;
+  money?: MoneyModeOptions;
+};
+
+export type SelectionAdjustment = {
+  typeValue: string;
+  /** The option(s) that conflicted with the new pick */
+  from: SelectionValue;
+  /** The option(s) it was switched to; undefined when it was deselected */
+  to?: SelectionValue;
+};
+
+export type ConfiguratorState<TChild extends ChildVariant = ChildVariant> = {
+  /** Selected option value per type value; an array of them for multi-select types */
+  values: Record<string, SelectionValue>;
+  /** The selection, in `variantTypes` order */
+  selection: VariantSelectionItem[];
+  /**
+   * Per type value, the options that fit the other picks and can still be
+   * completed to a valid combination (the type's own pick doesn't count; for a
+   * multi-select type, the options that can join its current picks)
+   */
+  available: Record<string, VariantOption[]>;
+  /**
+   * False when the picks so far break a constraint (types not picked yet count
+   * as pending) or a multi-select type has more picks than its `maxSelections`
+   */
+  valid: boolean;
+  /** IDs of constraints the selection breaks */
+  blockedBy: string[];
+  /**
+   * True when every type has an option, and every multi-select type at least
+   * its `minSelections` (optional and multi-select types without a minimum may stay empty)
+   */
+  complete: boolean;
+  /** Type values that still need an option (or more of them), in `variantTypes` order */
+  missing: string[];
+  /** Set once the selection is complete and no multi-select type has too many picks */
+  variantKey?: string;
+  /** The child with modifiers applied; set once the selection is complete and valid */
+  child?: TChild;
+  /** `cost` after modifiers, for the selection so far */
+  price?: number | null;
+  /** Picks the last `select` changed to resolve conflicts */
+  adjustments: SelectionAdjustment[];
+  canUndo: boolean;
+  canRedo: boolean;
+};
+
+export type ConfiguratorListener<TChild extends ChildVariant = ChildVariant> = (
+  state: ConfiguratorState<TChild>
+) => void;
+
+/**
+ * A step-by-step configuration session. Every change returns the new state and
+ * notifies subscribers; unknown types and options leave the state unchanged.
+ */
+export type Configurator<TChild extends ChildVariant = ChildVariant> = {
+  getState(): ConfiguratorState<TChild>;
+  /** Calls `listener` after every change; returns a function that unsubscribes */
+  subscribe(listener: ConfiguratorListener<TChild>): () => void;
+  /** Picks an option; for a multi-select type, adds it to the type's picks */
+  select(typeValue: string, optionValue: string): ConfiguratorState<TChild>;
+  /** Removes the type's pick, or with `optionValue` only that option (e.g. one of a multi-select type's picks) */
+  deselect(typeValue: string, optionValue?: string): ConfiguratorState<TChild>;
+  /** Clears the selection (undoable) */
+  reset(): ConfiguratorState<TChild>;
+  undo(): ConfiguratorState<TChild>;
+  redo(): ConfiguratorState<TChild>;
+  /** Replaces the evaluation context, e.g. when the quantity changes (not part of the history) */
+  setContext(context: EvaluationContext): ConfiguratorState<TChild>;
+  /** Nearest valid complete combinations, see `suggestValidCombinations` */
+  suggest(limit?: number): ValidCombinationSuggestion<TChild>[];
+  /** Selects a suggestion's options in one (undoable) step */
+  applySuggestion(suggestion: ValidCombinationSuggestion<TChild>): ConfiguratorState<TChild>;
+};
+
+const toList = (value: SelectionValue | undefined): string[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const sameValue = (a: SelectionValue | undefined, b: SelectionValue | undefined) => {
+  const x = toList(a);
+  const y = toList(b);
+  return x.length === y.length && x.every((v, i) => v === y[i]);
+};
+
+type Snapshot = {
+  /** Option value per type value; an array (in `variantOptions` order) for multi-select types */
+  values: Record<string, SelectionValue>;
+  /** Picked type values, oldest first */
+  order: string[];
+};
+
+/**
+ * Creates a framework-agnostic configurator: holds a partial selection and
+ * derives available options, validity, completeness, price and the resolved
+ * child from `validateSelection`, `getAvailableOptions` and `applyModifiers`.
+ * Multi-select types hold several options: `select` adds one, `deselect` with
+ * an option value removes it.
+ */
+export function createConfigurator<TChild extends ChildVariant = ChildVariant>(
+  options: CreateConfiguratorOptions<TChild>
+): Configurator<TChild> {
+  const {
+    variantTypes,
+    constraints = [],
+    modifiers = [],
+    baseProduct = { variantKey: "" } as TChild,
+    children = [],
+    onConflict = "keep",
+    initialSelection = {},
+    money,
+  } = options;
+  let context = options.context;
+
+  const codec = createVariantKeyCodec(variantTypes, options);
+  const childByKey = new Map(children.map((c) => [c.variantKey, c]));
+  const listeners = new Set<ConfiguratorListener<TChild>>();
+  const undoStack: Snapshot[] = [];
+  const redoStack: Snapshot[] = [];
+
+  const hasOption = (typeValue: string, optionValue: string) =>
+    variantTypes.some((t) => t.value === typeValue && t.variantOptions.some((o) => o.value === optionValue));
+  const isMulti = (typeValue: string) =>
+    getSelectionMode(variantTypes.find((t) => t.value === typeValue)) === "multi";
+
+  // 1-based indices of the options a value picks, in `variantOptions` order
+  const pickedIndices = (t: VariantType, value: SelectionValue | undefined): number[] => {
+    const picked = toList(value);
+    return t.variantOptions.flatMap((o, oi) => (picked.includes(o.value) ? [oi + 1] : []));
+  };
+
+  // The value a selection index stands for, in the shape `values` holds it
+  const toValue = (t: VariantType, idx: number): SelectionValue | undefined => {
+    const picked = selectedOptionIndices(t, idx).map((oi) => t.variantOptions[oi - 1].value);
+    return getSelectionMode(t) === "multi" ? (picked.length > 0 ? picked : undefined) : picked[0];
+  };
+
+  // Known options only: an array for multi-select types, else the first option
+  const normalize = (typeValue: string, value: SelectionValue): SelectionValue | undefined => {
+    const t = variantTypes.find((vt) => vt.value === typeValue);
+    if (!t) return undefined;
+    const picked = pickedIndices(t, getSelectionMode(t) === "multi" ? value : toList(value)[0]);
+    return picked.length > 0 ? toValue(t, toSelectionIndex(t, picked)) : undefined;
+  };
+
+  const toSelection = (values: Record<string, SelectionValue>): VariantSelectionItem[] =>
+    variantTypes.flatMap((t, ti) => pickedIndices(t, values[t.value]).map((oi) => toSelectionItem(t, ti, oi)));
+
+  const canComplete = (values: Record<string, SelectionValue>) =>
+    propagateConstraints(variantTypes, toSelection(values), constraints, { context }).satisfiable;
+
+  const buildState = (snapshot: Snapshot, adjustments: SelectionAdjustment[]): ConfiguratorState<TChild> => {
+    const { values } = snapshot;
+    const selection = toSelection(values);
+    const picks = (t: VariantType) => pickedIndices(t, values[t.value]).length;
+    const minPicks = (t: VariantType) =>
+      getSelectionMode(t) === "single" ? 1 : getSelectionMode(t) === "multi" ? t.minSelections ?? 0 : 0;
+    const maxPicks = (t: VariantType) =>
+      getSelectionMode(t) === "multi" ? t.maxSelections ?? t.variantOptions.length : 1;
+    const missingTypes = variantTypes.filter((t) => picks(t) < minPicks(t));
+    const overfull = variantTypes.some((t) => picks(t) > maxPicks(t));
+    // Types still to be picked are pending, so requirements on them don't count yet.
+    const pendingTypes = new Set(
+      missingTypes.flatMap((t) => (t.id === undefined ? [t.value] : [t.value, t.id]))
+    );
+    const validation = validateSelection(selection, constraints, { context, pendingTypes });
+    const valid = validation.valid && !overfull;
+    const { blockedBy } = validation;
+
+    const available: Record<string, VariantOption[]> = {};
+    for (const type of variantTypes) {
+      // A multi-select type's own picks count, so its options are the ones that can join them
+      const others =
+        getSelectionMode(type) === "multi" ? selection : selection.filter((s) => s.typeValue !== type.value);
+      available[type.value] = getAvailableOptions(type, others, constraints, { variantTypes, context });
+    }
+
+    const missing = missingTypes.map((t) => t.value);
+    const complete = missing.length === 0;
+    const variantKey =
+      complete && !overfull
+        ? codec.format(variantTypes.map((t) => toSelectionIndex(t, pickedIndices(t, values[t.value]))))
+        : undefined;
+
+    const modifierOptions = { context, money };
+    let child: TChild | undefined;
+    let price: number | null | undefined;
+    if (variantKey !== undefined && valid) {
+      const resolved = childByKey.get(variantKey) ?? { ...baseProduct, variantKey };
+      child = applyModifiers(resolved, selection, modifiers, modifierOptions);
+      price = child.cost;
+    } else {
+      price = applyModifiers(baseProduct, selection, modifiers, modifierOptions).cost;
+    }
+
+    return {
+      values: { ...values },
+      selection,
+      available,
+      valid,
+      blockedBy,
+      complete,
+      missing,
+      variantKey,
+      child,
+      price,
+      adjustments,
+      canUndo: undoStack.length > 0,
+      canRedo: redoStack.length > 0,
+    };
+  };
+
+  let current: Snapshot = { values: {}, order: [] };
+  for (const [typeValue, value] of Object.entries(initialSelection)) {
+    const normalized = normalize(typeValue, value);
+    if (normalized === undefined) continue;
+    current.values[typeValue] = normalized;
+    current.order.push(typeValue);
+  }
+  let state = buildState(current, []);
+
+  const commit = (next: Snapshot, adjustments: SelectionAdjustment[] = [], record = true) => {
+    if (record) {
+      undoStack.push(current);
+      redoStack.length = 0;
+    }
+    current = next;
+    state = buildState(current, adjustments);
+    for (const listener of listeners) listener(state);
+    return state;
+  };
+
+  // Keeps the new pick, then earlier picks most-recent first while they still fit.
+  const resolveConflicts = (typeValue: string, value: SelectionValue) => {
+    const values: Record<string, SelectionValue> = { [typeValue]: value };
+    const order = [typeValue];
+    const conflicting: string[] = [];
+    const adjustments: SelectionAdjustment[] = [];
+    if (!canComplete(values)) return undefined;
+
+    const earlier = current.order.filter((t) => t !== typeValue).reverse();
+    for (const t of earlier) {
+      if (canComplete({ ...values, [t]: current.values[t] })) {
+        values[t] = current.values[t];
+        order.unshift(t);
+      } else {
+        conflicting.push(t);
+      }
+    }
+
+    for (const t of conflicting) {
+      const from = current.values[t];
+      if (onConflict === "correct") {
+        const { domains } = propagateConstraints(variantTypes, toSelection(values), constraints, { context });
+        const domain = domains.find((d) => d.typeValue === t);
+        const idx = domain?.selections.find((i) => i !== 0);
+        const to = domain && idx !== undefined ? toValue(variantTypes[domain.typeIndex], idx) : undefined;
+        if (to !== undefined) {
+          values[t] = to;
+          order.unshift(t);
+          adjustments.push({ typeValue: t, from, to });
+          continue;
+        }
+      }
+      adjustments.push({ typeValue: t, from });
+    }
+    return { snapshot: { values, order }, adjustments };
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    select(typeValue, optionValue) {
+      const picked = current.values[typeValue];
+      if (!hasOption(typeValue, optionValue) || toList(picked).includes(optionValue)) return state;
+      const value = isMulti(typeValue) ? normalize(typeValue, [...toList(picked), optionValue])! : optionValue;
+
+      if (onConflict !== "keep") {
+        const resolved = resolveConflicts(typeValue, value);
+        if (resolved) return commit(resolved.snapshot, resolved.adjustments);
+      }
+      return commit({
+        values: { ...current.values, [typeValue]: value },
+        order: [...current.order.filter((t) => t !== typeValue), typeValue],
+      });
+    },
+
+    deselect(typeValue, optionValue) {
+      const picked = toList(current.values[typeValue]);
+      if (picked.length === 0 || (optionValue !== undefined && !picked.includes(optionValue))) return state;
+      const rest = optionValue === undefined ? [] : picked.filter((v) => v !== optionValue);
+      const values = { ...current.values };
+      if (rest.length > 0) {
+        values[typeValue] = rest;
+        return commit({ values, order: current.order });
+      }
+      delete values[typeValue];
+      return commit({ values, order: current.order.filter((t) => t !== typeValue) });
+    },
+
+    reset() {
+      if (current.order.length === 0) return state;
+      return commit({ values: {}, order: [] });
+    },
+
+    undo() {
+      const previous = undoStack.pop();
+      if (!previous) return state;
+      redoStack.push(current);
+      return commit(previous, [], false);
+    },
+
+    redo() {
+      const next = redoStack.pop();
+      if (!next) return state;
+      undoStack.push(current);
+      return commit(next, [], false);
+    },
+
+    setContext(next) {
+      context = next;
+      return commit(current, [], false);
+    },
+
+    suggest(limit) {
+      return suggestValidCombinations(variantTypes, state.selection, constraints, {
+        ...options,
+        pickOrder: current.order,
+        context,
+        limit,
+      });
+    },
+
+    applySuggestion(suggestion) {
+      const values: Record<string, SelectionValue> = {};
+      for (const [typeValue, value] of Object.entries(suggestion.values)) {
+        const normalized = normalize(typeValue, value);
+        if (normalized !== undefined) values[typeValue] = normalized;
+      }
+      const order = current.order.filter((t) => values[t] !== undefined && sameValue(values[t], current.values[t]));
+      const changed = Object.keys(values).filter((t) => !order.includes(t));
+      return commit({ values, order: [...order, ...changed] });
+    },
+  };
+}
@@ -1,26 +1,120 @@
 import type { VariantOption, VariantSelectionItem, VariantType } from "./index";
+import { getSelectionMode, toSelectionItem } from "./index";
+import { propagateConstraints } from "./solver";
 
 export type ConstraintOperator = "equals" | "not_equals" | "in" | "not_in";
 
+/**
+ * What a rule's `typeValue`/`optionValue`(s) refer to: the `value` of types and
+ * options (default), or their stable `id`. Rules by id survive relabeling.
+ */
+export type ConditionRef = "value" | "id";
+
 export type SimpleCondition = {
   typeValue: string;
   optionValue: string | string[];
   operator?: ConstraintOperator;
+  ref?: ConditionRef;
+};
+
+/**
+ * Tests whether a type has an option selected at all,
+ * e.g. "if Engraving is unselected".
+ */
+export type SelectionCondition = {
+  typeValue: string;
+  operator: "selected" | "unselected";
+  ref?: ConditionRef;
+};
+
+export type NumericOperator = "eq" | "neq" | "gt" | "gte" | "lt" | "lte";
+
+/**
+ * Compares a numeric value of the selected option, e.g. "RAM >= 16".
+ * False when the type is not selected or the option has no numeric value.
+ */
+export type NumericCondition = {
+  typeValue: string;
+  operator: NumericOperator;
+  value: number;
+  /**
+   * Numeric entry of the option's `attributes` to compare.
+   * If omitted, the number the option value starts with is used ("16GB" -> 16).
+   */
+  attribute?: string;
+  ref?: ConditionRef;
+};
+
+export type LeafCondition = SimpleCondition | SelectionCondition | NumericCondition;
+
+/**
+ * What conditions can test besides the selection: order quantity, customer
+ * group, sales channel, date, plus any keys your app adds (a region, a loyalty tier...).
+ */
+export type EvaluationContext = {
+  quantity?: number;
+  customerGroup?: string;
+  channel?: string;
+  /** When the evaluation happens (Date, timestamp or ISO string). Defaults to now. */
+  date?: Date | string | number;
+  [key: string]: unknown;
+};
+
+/** `between` takes `[min, max]` (inclusive) */
+export type ContextOperator = ConstraintOperator | NumericOperator | "between";
+
+export type ContextValue = string | number | boolean | Date;
+
+/**
+ * Tests a value of the `EvaluationContext`, e.g. "quantity >= 10",
+ * "customerGroup is b2b" or "date between Nov 27 and Nov 30".
+ * Numbers and dates (Date objects or ISO strings) are compared by value.
+ * A key missing from the context only satisfies `not_equals`/`not_in`.
+ */
+export type ContextCondition = {
+  context: "quantity" | "customerGroup" | "channel" | "date" | (string & {});
+  /** Defaults to "in" for array values, "equals" otherwise */
+  operator?: ContextOperator;
+  value: ContextValue | ContextValue[];
 };
 
+/**
+ * - AND: all conditions hold
+ * - OR: at least one condition holds
+ * - XOR: exactly one condition holds
+ * - NOT: none of the conditions hold (with one condition, its negation)
+ *
+ * An empty group is always false, whatever its operator.
+ */
+export type GroupOperator = "AND" | "OR" | "XOR" | "NOT";
+
 export type RecursiveCondition = {
-  operator: "AND" | "OR";
+  operator: GroupOperator;
   conditions: LogicCondition[];
 };
 
-export type LogicCondition = SimpleCondition | RecursiveCondition;
+export type LogicCondition = LeafCondition | ContextCondition | RecursiveCondition;
 
 // Backward compatibility or alias for cleaner code
 export type ConstraintCondition = LogicCondition;
 
-export type VariantConstraint = {
+export type ConstraintEffect = {
+  typeValue: string;
+  /**
+   * If 'allowed', only these options are valid.
+   * If 'disallowed', these options are invalid.
+   * If 'require', the type must be selected, with one of these options
+   * (any option when the list is empty).
+   */
+  action: "allow" | "disallow" | "require";
+  options: string[];
+  ref?: ConditionRef;
+};
+
+export type ConditionalConstraint = {
   id: string;
   description?: string;
+  kind?: "conditional";
   /**
    * The condition that triggers this constraint.
    * Can be a simple check (e.g. "Color is Red") or a complex recursive logic ("A AND (B OR C)")
@@ -30,70 +124,360 @@ export type VariantConstraint = {
    * The effect enforced when the condition is met.
    * e.g. "THEN Size must be in [S, M]"
    */
-  then: {
-    typeValue: string;
-    /**
-     * If 'allowed', only these options are valid.
-     * If 'disallowed', these options are invalid.
-     */
-    action: "allow" | "disallow";
-    options: string[];
-  };
+  then: ConstraintEffect;
+};
+
+/** An option of a type, as listed by `MutualExclusionConstraint` */
+export type OptionPair = {
+  typeValue: string;
+  optionValue: string;
 };
 
-function isSimpleCondition(c: LogicCondition): c is SimpleCondition {
-  return (c as SimpleCondition).typeValue !== undefined;
+/**
+ * At most one of `options` may be selected, e.g. "Red (Color) and
+ * Leather (Material) exclude each other".
+ */
+export type MutualExclusionConstraint = {
+  id: string;
+  description?: string;
+  kind: "mutually-exclusive";
+  options: OptionPair[];
+  ref?: ConditionRef;
+};
+
+/**
+ * At least one of `types` must have another option than its default, e.g.
+ * "choose an engraving or a gift wrap". An unselected type counts as default.
+ */
+export type NonDefaultConstraint = {
+  id: string;
+  description?: string;
+  kind: "non-default";
+  types: { typeValue: string; defaultOption: string }[];
+  ref?: ConditionRef;
+};
+
+/**
+ * Combinations that are never valid: each tuple lists one option per entry
+ * of `typeValues`, e.g. `typeValues: ["Color", "Size"], tuples: [["Red", "XL"]]`.
+ */
+export type ForbiddenTuplesConstraint = {
+  id: string;
+  description?: string;
+  kind: "forbidden-tuples";
+  typeValues: string[];
+  tuples: string[][];
+  ref?: ConditionRef;
+};
+
+export type VariantConstraint =
+  | ConditionalConstraint
+  | MutualExclusionConstraint
+  | NonDefaultConstraint
+  | ForbiddenTuplesConstraint;
+
+/** True for `if`/`then` constraints (the ones without a `kind`, or `kind: "conditional"`) */
+export function isConditionalConstraint(c: VariantConstraint): c is ConditionalConstraint {
+  return c.kind === undefined || c.kind === "conditional";
+}
+
+/** True for any leaf condition (as opposed to an AND/OR/XOR/NOT group) */
+export function isLeafCondition(c: LogicCondition): c is LeafCondition {
+  return (c as LeafCondition).typeValue !== undefined;
+}
+
+/** True for leaves that compare option values (`equals`, `in`, ...) */
+export function isSimpleCondition(c: LogicCondition): c is SimpleCondition {
+  return isLeafCondition(c) && (c as SimpleCondition).optionValue !== undefined;
+}
+
+export function isSelectionCondition(c: LogicCondition): c is SelectionCondition {
+  const op = (c as SelectionCondition).operator;
+  return isLeafCondition(c) && (op === "selected" || op === "unselected");
+}
+
+export function isNumericCondition(c: LogicCondition): c is NumericCondition {
+  return isLeafCondition(c) && typeof (c as NumericCondition).value === "number";
+}
+
+export function isContextCondition(c: LogicCondition): c is ContextCondition {
+  return (c as ContextCondition).context !== undefined;
 }
 
 /**
- * Checks if a specific selection satisfies a condition (Recursive).
+ * Returns the leaf conditions of a (possibly nested) condition, depth-first.
+ * Context conditions are not included (see `collectContextConditions`).
  */
-export function isConditionMet(
-  selection: VariantSelectionItem[],
-  condition: LogicCondition
+export function collectLeafConditions(condition: LogicCondition): LeafCondition[] {
+  if (isLeafCondition(condition)) return [condition];
+  if (isContextCondition(condition)) return [];
+  const { conditions } = condition as RecursiveCondition;
+  return (conditions ?? []).flatMap((c) => collectLeafConditions(c));
+}
+
+/** Returns the context conditions of a (possibly nested) condition, depth-first */
+export function collectContextConditions(condition: LogicCondition): ContextCondition[] {
+  if (isContextCondition(condition)) return [condition];
+  if (isLeafCondition(condition)) return [];
+  const { conditions } = condition as RecursiveCondition;
+  return (conditions ?? []).flatMap((c) => collectContextConditions(c));
+}
+
+/**
+ * Finds the selected item for a type referenced by value or by id
+ * (the first one, for multi-select types; see `findSelectedItems`).
+ */
+export function findSelectedItem(
+  selection: readonly VariantSelectionItem[],
+  typeRef: string,
+  ref: ConditionRef = "value"
+): VariantSelectionItem | undefined {
+  return selection.find((s) => (ref === "id" ? s.typeId : s.typeValue) === typeRef);
+}
+
+/** Finds every selected item for a type (several for multi-select types) */
+export function findSelectedItems(
+  selection: readonly VariantSelectionItem[],
+  typeRef: string,
+  ref: ConditionRef = "value"
+): VariantSelectionItem[] {
+  return selection.filter((s) => (ref === "id" ? s.typeId : s.typeValue) === typeRef);
+}
+
+/**
+ * Whether a leaf holds for the selected items of its type: some item has to
+ * match, except for `not_equals`/`not_in`, which every item has to match
+ * ("Accessories not in [Case]" is false once Case is one of them).
+ */
+function matchesSelectedItems(
+  items: readonly VariantSelectionItem[],
+  condition: SimpleCondition | NumericCondition
 ): boolean {
-  // Case 1: Simple Leaf Condition
-  if (isSimpleCondition(condition)) {
-    const selectedItem = selection.find((s) => s.typeValue === condition.typeValue);
-    // If the variant type is not selected at all, the condition assumes "false" unless we assume strictly negation?
-    // Generally, "If Color is Red" -> if Color not selected, it's not Red.
-    if (!selectedItem) return false;
+  const matches = (item: VariantSelectionItem) => {
+    if (isNumericCondition(condition)) {
+      const n = getOptionNumber(
+        { value: item.optionValue, numericValue: item.numericValue, attributes: item.attributes },
+        condition.attribute
+      );
+      return n !== undefined && compareNumbers(n, condition.operator, condition.value);
+    }
+    return matchesOptionValue(getSelectedOptionRef(item, condition.ref), condition);
+  };
+  const negated =
+    !isNumericCondition(condition) &&
+    (condition.operator === "not_equals" || condition.operator === "not_in");
+  return negated ? items.every(matches) : items.some(matches);
+}
+
+/** The selected option's value or id, whichever `ref` names */
+export function getSelectedOptionRef(
+  item: VariantSelectionItem,
+  ref: ConditionRef = "value"
+): string | undefined {
+  return ref === "id" ? item.optionId : item.optionValue;
+}
+
+/**
+ * Resolves the number a `NumericCondition` compares for an option:
+ * the named attribute, or else `numericValue`, or else the leading number of the value.
+ */
+export function getOptionNumber(
+  option: Pick<VariantOption, "value" | "numericValue" | "attributes">,
+  attribute?: string
+): number | undefined {
+  const raw =
+    attribute === undefined
+      ? option.numericValue ?? option.value
+      : option.attributes?.[attribute];
+  const n = typeof raw === "number" ? raw : parseFloat(String(raw ?? ""));
+  return Number.isFinite(n) ? n : undefined;
+}
+
+export function compareNumbers(a: number, op: NumericOperator, b: number): boolean {
+  switch (op) {
+    case "eq":
+      return a === b;
+    case "neq":
+      return a !== b;
+    case "gt":
+      return a > b;
+    case "gte":
+      return a >= b;
+    case "lt":
+      return a < b;
+    case "lte":
+      return a <= b;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Applies a `SimpleCondition`'s operator to a selected option value
+ * (undefined when the option has no id but the condition refers to ids).
+ */
+export function matchesOptionValue(
+  val: string | undefined,
+  condition: SimpleCondition
+): boolean {
+  const target = condition.optionValue;
 
-    const val = selectedItem.optionValue;
-    const target = condition.optionValue;
+  let op = condition.operator;
+  if (!op) {
+    op = Array.isArray(target) ? "in" : "equals";
+  }
+
+  switch (op) {
+    case "equals":
+      return val === target;
+    case "not_equals":
+      return val !== target;
+    case "in":
+      return Array.isArray(target) && val !== undefined && target.includes(val);
+    case "not_in":
+      return Array.isArray(target) && (val === undefined || !target.includes(val));
+    default:
+      return false;
+  }
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+
+/** Numbers as-is, dates (Date or ISO string) as timestamps, anything else undefined */
+function toOrderable(value: unknown): number | undefined {
+  if (typeof value === "number") return value;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "string" && ISO_DATE.test(value)) {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? undefined : time;
+  }
+  return undefined;
+}
 
-    let op = condition.operator;
-    if (!op) {
-      op = Array.isArray(target) ? "in" : "equals";
+function sameContextValue(a: unknown, b: unknown): boolean {
+  const x = toOrderable(a);
+  const y = toOrderable(b);
+  return x !== undefined && y !== undefined ? x === y : a === b;
+}
+
+/**
+ * Evaluates a `ContextCondition`. `date` defaults to the current time.
+ */
+export function evaluateContextCondition(
+  condition: ContextCondition,
+  context: EvaluationContext = {}
+): boolean {
+  let actual = context[condition.context];
+  if (actual === undefined && condition.context === "date") actual = new Date();
+  const target = condition.value;
+  const op = condition.operator ?? (Array.isArray(target) ? "in" : "equals");
+  const targets = Array.isArray(target) ? target : [target];
+
+  if (actual === undefined || actual === null) return op === "not_equals" || op === "not_in";
+
+  switch (op) {
+    case "equals":
+    case "eq":
+      return !Array.isArray(target) && sameContextValue(actual, target);
+    case "not_equals":
+    case "neq":
+      return Array.isArray(target) || !sameContextValue(actual, target);
+    case "in":
+      return targets.some((t) => sameContextValue(actual, t));
+    case "not_in":
+      return !targets.some((t) => sameContextValue(actual, t));
+    case "between": {
+      const [min, max] = targets.map(toOrderable);
+      const n = toOrderable(actual);
+      return n !== undefined && min !== undefined && max !== undefined && n >= min && n <= max;
+    }
+    default: {
+      const n = toOrderable(actual);
+      const t = Array.isArray(target) ? undefined : toOrderable(target);
+      return n !== undefined && t !== undefined && compareNumbers(n, op, t);
     }
+  }
+}
+
+/**
+ * Combines the results of a group's conditions (three-valued: undefined = not known yet).
+ */
+export function combineGroup(
+  operator: GroupOperator,
+  results: readonly (boolean | undefined)[]
+): boolean | undefined {
+  if (results.length === 0) return false;
+
+  const trueCount = results.filter((r) => r === true).length;
+  const unknownCount = results.filter((r) => r === undefined).length;
+
+  switch (operator) {
+    case "AND":
+      if (results.includes(false)) return false;
+      return unknownCount > 0 ? undefined : true;
+    case "OR":
+      if (trueCount > 0) return true;
+      return unknownCount > 0 ? undefined : false;
+    case "XOR":
+      if (trueCount > 1) return false;
+      return unknownCount > 0 ? undefined : trueCount === 1;
+    case "NOT":
+      if (trueCount > 0) return false;
+      return unknownCount > 0 ? undefined : true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluates a condition against a selection that may still be incomplete.
+ * Leaves on `pendingTypes` (types whose option is not decided yet) are unknown,
+ * so the result is undefined when it depends on how those types are filled in.
+ * Context conditions are tested against `context`.
+ */
+export function evaluateCondition(
+  selection: VariantSelectionItem[],
+  condition: LogicCondition,
+  pendingTypes?: ReadonlySet<string>,
+  context?: EvaluationContext
+): boolean | undefined {
+  if (isContextCondition(condition)) return evaluateContextCondition(condition, context);
 
-    switch (op) {
-      case "equals":
-        return val === target;
-      case "not_equals":
-        return val !== target;
-      case "in":
-        return Array.isArray(target) && target.includes(val);
-      case "not_in":
-        return Array.isArray(target) && !target.includes(val);
-      default:
-        return false;
+  // Case 1: Leaf Condition
+  if (isLeafCondition(condition)) {
+    const selectedItems = findSelectedItems(selection, condition.typeValue, condition.ref);
+    if (selectedItems.length === 0 && pendingTypes?.has(condition.typeValue)) return undefined;
+
+    if (isSelectionCondition(condition)) {
+      return (condition.operator === "selected") === selectedItems.length > 0;
     }
+
+    // If the variant type is not selected at all, the condition assumes "false" unless we assume strictly negation?
+    // Generally, "If Color is Red" -> if Color not selected, it's not Red.
+    if (selectedItems.length === 0) return false;
+
+    return matchesSelectedItems(selectedItems, condition as SimpleCondition | NumericCondition);
   }
 
-  // Case 2: Recursive Group (AND / OR)
+  // Case 2: Recursive Group (AND / OR / XOR / NOT)
   const { operator, conditions } = condition as RecursiveCondition;
   if (!conditions || conditions.length === 0) return false;
 
-  if (operator === "AND") {
-    // All must be true
-    return conditions.every((c) => isConditionMet(selection, c));
-  } else if (operator === "OR") {
-    // At least one must be true
-    return conditions.some((c) => isConditionMet(selection, c));
-  }
+  return combineGroup(
+    operator,
+    conditions.map((c) => evaluateCondition(selection, c, pendingTypes, context))
+  );
+}
 
-  return false;
+/**
+ * Checks if a specific selection satisfies a condition (Recursive).
+ */
+export function isConditionMet(
+  selection: VariantSelectionItem[],
+  condition: LogicCondition,
+  context?: EvaluationContext
+): boolean {
+  return evaluateCondition(selection, condition, undefined, context) === true;
 }
 
 export type ValidatorResult = {
@@ -101,39 +485,105 @@ export type ValidatorResult = {
   blockedBy: string[]; // IDs of constraints that blocked this
 };
 
+export type ValidateSelectionOptions = {
+  /**
+   * Types whose option is not decided yet (e.g. while searching for completions).
+   * Unlike unselected types, conditions on them are treated as unknown, and a
+   * constraint is only reported if it is violated however they are filled in.
+   * Holds type values, plus type ids for rules with `ref: "id"`.
+   */
+  pendingTypes?: ReadonlySet<string>;
+  /** Values `ContextCondition`s test, e.g. the sales channel */
+  context?: EvaluationContext;
+};
+
+/**
+ * Whether the selection definitely breaks a constraint without `if`/`then`.
+ * Pending types are neither selected nor unselected, so they never cause a violation.
+ */
+function violatesRule(
+  selection: VariantSelectionItem[],
+  constraint: Exclude<VariantConstraint, ConditionalConstraint>,
+  pendingTypes?: ReadonlySet<string>
+): boolean {
+  const { ref } = constraint;
+  const selectedRefs = (typeValue: string) =>
+    findSelectedItems(selection, typeValue, ref).map((item) => getSelectedOptionRef(item, ref));
+
+  switch (constraint.kind) {
+    case "mutually-exclusive":
+      return constraint.options.filter((o) => selectedRefs(o.typeValue).includes(o.optionValue)).length > 1;
+    case "non-default":
+      return constraint.types.every(({ typeValue, defaultOption }) => {
+        const picked = selectedRefs(typeValue);
+        if (picked.length === 0) return !pendingTypes?.has(typeValue);
+        return picked.every((value) => value === defaultOption);
+      });
+    case "forbidden-tuples": {
+      const picked = constraint.typeValues.map(selectedRefs);
+      return constraint.tuples.some((tuple) => picked.every((values, i) => values.includes(tuple[i])));
+    }
+    default:
+      return false;
+  }
+}
+
 /**
  * Checks if a partial or complete selection is valid against a set of constraints.
+ *
+ * Types missing from `selection` count as unselected (unless they are
+ * `pendingTypes`), so a `require` effect or a `non-default` constraint on them
+ * is reported. Multi-select types have one item per selected option; an
+ * `allow`/`disallow` effect on them checks every one of them.
  */
 export function validateSelection(
   selection: VariantSelectionItem[],
-  constraints: VariantConstraint[]
+  constraints: VariantConstraint[],
+  options: ValidateSelectionOptions = {}
 ): ValidatorResult {
+  const { pendingTypes, context } = options;
   const blockedBy: string[] = [];
 
   for (const constraint of constraints) {
-    if (isConditionMet(selection, constraint.if)) {
+    if (!isConditionalConstraint(constraint)) {
+      if (violatesRule(selection, constraint, pendingTypes)) blockedBy.push(constraint.id);
+      continue;
+    }
+
+    if (evaluateCondition(selection, constraint.if, pendingTypes, context) === true) {
       // The "IF" condition is active. Now check the "THEN" rule.
-      const targetType = constraint.then.typeValue;
-      const targetSelection = selection.find((s) => s.typeValue === targetType);
+      const { ref, action } = constraint.then;
+      const targetSelection = findSelectedItems(selection, constraint.then.typeValue, ref);
 
       // If the user hasn't made a selection for the target type yet, strictly speaking,
       // it's not invalid *yet* (unless we enforce completeness).
-      // But if they HAVE selected something, we must check it.
-      if (targetSelection) {
-        const val = targetSelection.optionValue;
+      // But if they HAVE selected something, we must check it (every option of a multi-selection).
+      if (targetSelection.length > 0) {
         const allowedList = constraint.then.options;
+        const listed = targetSelection.map((item) => {
+          const val = getSelectedOptionRef(item, ref);
+          return val !== undefined && allowedList.includes(val);
+        });
 
-        if (constraint.then.action === "allow") {
+        if (action === "allow") {
           // MUST be in the list
-          if (!allowedList.includes(val)) {
+          if (listed.includes(false)) {
             blockedBy.push(constraint.id);
           }
-        } else if (constraint.then.action === "disallow") {
+        } else if (action === "disallow") {
           // MUST NOT be in the list
-          if (allowedList.includes(val)) {
+          if (listed.includes(true)) {
+            blockedBy.push(constraint.id);
+          }
+        } else if (action === "require") {
+          // Any option satisfies an empty list
+          if (!listed.includes(true) && allowedList.length > 0) {
             blockedBy.push(constraint.id);
           }
         }
+      } else if (action === "require" && !pendingTypes?.has(constraint.then.typeValue)) {
+        // Requirements are the one effect an unselected type breaks.
+        blockedBy.push(constraint.id);
       }
     }
   }
@@ -144,33 +594,98 @@ export function validateSelection(
   };
 }
 
+// Type values (or ids, for `ref: "id"` rules) the constraints mention
+function referencedTypes(constraints: VariantConstraint[]): Set<string> {
+  const refs = new Set<string>();
+  for (const c of constraints) {
+    if (isConditionalConstraint(c)) {
+      collectLeafConditions(c.if).forEach((leaf) => refs.add(leaf.typeValue));
+      refs.add(c.then.typeValue);
+    } else if (c.kind === "mutually-exclusive") {
+      c.options.forEach((o) => refs.add(o.typeValue));
+    } else if (c.kind === "non-default") {
+      c.types.forEach((t) => refs.add(t.typeValue));
+    } else if (c.kind === "forbidden-tuples") {
+      c.typeValues.forEach((t) => refs.add(t));
+    }
+  }
+  return refs;
+}
+
+export type GetAvailableOptionsOptions = {
+  /**
+   * All variant types of the product. When provided, options are also checked
+   * for look-ahead: an option is only returned if the remaining types can still
+   * be completed to a valid combination after picking it.
+   */
+  variantTypes?: readonly VariantType[];
+  /** Values `ContextCondition`s test, e.g. the sales channel */
+  context?: EvaluationContext;
+};
+
 /**
  * Returns the list of valid options for a specific variant type,
- * considering the CURRENT selections made in other types.
+ * considering the CURRENT selections made in other types
+ * (and, for a multi-select type, the options it already has).
+ * Types that aren't picked yet are pending (see `ValidateSelectionOptions`),
+ * so a requirement on them doesn't rule an option out.
+ * Stock isn't considered; see `getOptionAvailability` for that.
  */
 export function getAvailableOptions(
   variantType: VariantType,
   currentSelection: VariantSelectionItem[],
-  constraints: VariantConstraint[]
+  constraints: VariantConstraint[],
+  options: GetAvailableOptionsOptions = {}
 ): VariantOption[] {
   // We want to return options from `variantType` that would NOT violate any constraints
   // if added to `currentSelection`.
+  const { variantTypes, context } = options;
 
-  return variantType.variantOptions.filter((opt) => {
+  if (variantTypes) {
+    const types = variantTypes.some((t) => t.value === variantType.value)
+      ? variantTypes.map((t) => (t.value === variantType.value ? variantType : t))
+      : [...variantTypes, variantType];
+    const { domains } = propagateConstraints(
+      types,
+      currentSelection.filter((s) => s.typeValue !== variantType.value),
+      constraints,
+      { context }
+    );
+    const domain = domains.find((d) => d.typeValue === variantType.value);
+    if (!domain || getSelectionMode(variantType) !== "multi") return domain?.options ?? [];
+
+    // A multi-select option is offered if some valid selection has it along with the current picks
+    const picks = variantType.variantOptions.flatMap((o, oi) =>
+      currentSelection.some((s) => s.typeValue === variantType.value && s.optionValue === o.value) ? [oi] : []
+    );
+    return variantType.variantOptions.filter((_, oi) => {
+      const mask = [...picks, oi].reduce((m, i) => m | (1 << i), 0);
+      return domain.selections.some((idx) => (idx & mask) === mask);
+    });
+  }
+
+  const multi = getSelectionMode(variantType) === "multi";
+  const referenced = referencedTypes(constraints);
+  return variantType.variantOptions.filter((_, oi) => {
     // Construct a hypothetical selection: current + this option
-    // (replace existing selection for this type if present)
+    // (replace existing selection for this type if present).
+    // The type index is a placeholder; rules only look at values and ids.
+    const option = variantType.variantOptions[oi];
     const nextSelection = [
-      ...currentSelection.filter((s) => s.typeValue !== variantType.value),
-      {
-        typeValue: variantType.value,
-        optionValue: opt.value,
-        // Mocking indices since they aren't critical for logic, only values
-        typeIndex: -1,
-        optionIndex1Based: -1,
-      },
+      ...currentSelection.filter(
+        (s) => s.typeValue !== variantType.value || (multi && s.optionValue !== option.value)
+      ),
+      toSelectionItem(variantType, -1, oi + 1),
     ];
 
-    const result = validateSelection(nextSelection, constraints);
+    // Types not picked yet may still be, so only constraints they can't fix count.
+    const pendingTypes = new Set(referenced);
+    for (const item of nextSelection) {
+      pendingTypes.delete(item.typeValue);
+      if (item.typeId !== undefined) pendingTypes.delete(item.typeId);
+    }
+
+    const result = validateSelection(nextSelection, constraints, { context, pendingTypes });
     return result.valid;
   });
 }
@@ -0,0 +1,299 @@
+import type { VariantSelectionItem } from "./index";
+import {
+  collectLeafConditions,
+  findSelectedItems,
+  getSelectedOptionRef,
+  isConditionalConstraint,
+  isConditionMet,
+  isContextCondition,
+  isLeafCondition,
+  isNumericCondition,
+  isSelectionCondition,
+  validateSelection,
+} from "./constraints";
+import type {
+  ConditionalConstraint,
+  ContextCondition,
+  ContextValue,
+  EvaluationContext,
+  LeafCondition,
+  LogicCondition,
+  NumericOperator,
+  OptionPair,
+  RecursiveCondition,
+  ValidatorResult,
+  VariantConstraint,
+} from "./constraints";
+
+export type ConstraintViolation = {
+  constraintId: string;
+  constraint: VariantConstraint;
+  /** Leaf conditions of the `if` tree that hold for the selection */
+  satisfiedConditions: LeafCondition[];
+  /** Leaf conditions of the `if` tree that don't hold (e.g. the other branches of an OR) */
+  unsatisfiedConditions: LeafCondition[];
+  /** The selected option that the `then` rule rejected ("" for a required type that isn't selected) */
+  rejected: { typeValue: string; optionValue: string };
+  /**
+   * For constraints without `if`/`then`: the options that break it together
+   * (for `non-default`, the types still at their default)
+   */
+  conflicting: OptionPair[];
+  /** Rendered sentence, e.g. "Size M is not available when Color is Red (allowed: L, XL)." */
+  message: string;
+};
+
+/**
+ * Renders conditions and violations as text. Replace any part of it to
+ * localize messages; the rest falls back to `englishExplanationFormatter`.
+ */
+export type ExplanationFormatter = {
+  /** Renders a single leaf condition, e.g. "Color is Red" */
+  condition(leaf: LeafCondition): string;
+  /** Renders a context condition, e.g. "quantity ≥ 10" */
+  context(condition: ContextCondition): string;
+  /** Joins already rendered parts of an AND/OR/XOR/NOT group */
+  group(operator: RecursiveCondition["operator"], parts: string[]): string;
+  /** Renders the full sentence for a violation, given the rendered `if` condition ("" for constraints without one) */
+  violation(violation: Omit<ConstraintViolation, "message">, condition: string): string;
+};
+
+const listOf = (values: string | string[]) =>
+  Array.isArray(values) ? values.join(", ") : values;
+
+const formatContextValue = (value: ContextValue | ContextValue[]): string =>
+  Array.isArray(value)
+    ? value.map(formatContextValue).join(", ")
+    : value instanceof Date
+      ? value.toISOString()
+      : String(value);
+
+const numericSymbols: Record<NumericOperator, string> = {
+  eq: "=",
+  neq: "≠",
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+};
+
+export const englishExplanationFormatter: ExplanationFormatter = {
+  condition(leaf) {
+    if (isSelectionCondition(leaf)) {
+      return `${leaf.typeValue} is ${leaf.operator === "selected" ? "selected" : "not selected"}`;
+    }
+    if (isNumericCondition(leaf)) {
+      const subject = leaf.attribute ? `${leaf.typeValue} ${leaf.attribute}` : leaf.typeValue;
+      return `${subject} ${numericSymbols[leaf.operator] ?? leaf.operator} ${leaf.value}`;
+    }
+
+    const target = leaf.optionValue;
+    const op = leaf.operator ?? (Array.isArray(target) ? "in" : "equals");
+    switch (op) {
+      case "equals":
+        return `${leaf.typeValue} is ${listOf(target)}`;
+      case "not_equals":
+        return `${leaf.typeValue} is not ${listOf(target)}`;
+      case "in":
+        return `${leaf.typeValue} is one of ${listOf(target)}`;
+      case "not_in":
+        return `${leaf.typeValue} is not one of ${listOf(target)}`;
+      default:
+        return `${leaf.typeValue} ${op} ${listOf(target)}`;
+    }
+  },
+  context({ context, operator, value }) {
+    const op = operator ?? (Array.isArray(value) ? "in" : "equals");
+    switch (op) {
+      case "equals":
+        return `${context} is ${formatContextValue(value)}`;
+      case "not_equals":
+        return `${context} is not ${formatContextValue(value)}`;
+      case "in":
+        return `${context} is one of ${formatContextValue(value)}`;
+      case "not_in":
+        return `${context} is not one of ${formatContextValue(value)}`;
+      case "between": {
+        const [min, max] = Array.isArray(value) ? value : [value, value];
+        return `${context} is between ${formatContextValue(min)} and ${formatContextValue(max)}`;
+      }
+      default:
+        return `${context} ${numericSymbols[op] ?? op} ${formatContextValue(value)}`;
+    }
+  },
+  group(operator, parts) {
+    if (parts.length === 0) return "never";
+    switch (operator) {
+      case "AND":
+        return parts.join(" and ");
+      case "OR":
+        return parts.join(" or ");
+      case "XOR":
+        return `exactly one of (${parts.join("; ")})`;
+      case "NOT":
+        return parts.length === 1 ? `not (${parts[0]})` : `none of (${parts.join("; ")})`;
+      default:
+        return parts.join(` ${operator} `);
+    }
+  },
+  violation({ constraint, rejected, conflicting }, condition) {
+    if (!isConditionalConstraint(constraint)) {
+      if (constraint.kind === "non-default") {
+        const choices = conflicting.map((o) => `${o.typeValue} other than ${o.optionValue}`);
+        return `Choose at least one of: ${choices.join(", ")}.`;
+      }
+      return `${conflicting.map((o) => `${o.typeValue} ${o.optionValue}`).join(" and ")} can't be combined.`;
+    }
+
+    const { action, options } = constraint.then;
+    if (action === "require" && rejected.optionValue === "") {
+      const suffix = options.length > 0 ? ` (one of: ${options.join(", ")})` : "";
+      return `${rejected.typeValue} is required when ${condition}${suffix}.`;
+    }
+    const suffix =
+      action !== "disallow"
+        ? options.length > 0
+          ? ` (allowed: ${options.join(", ")})`
+          : " (no option is allowed)"
+        : "";
+    return `${rejected.typeValue} ${rejected.optionValue} is not available when ${condition}${suffix}.`;
+  },
+};
+
+export type ExplainSelectionOptions = {
+  formatter?: Partial<ExplanationFormatter>;
+  /** Values `ContextCondition`s test, e.g. the sales channel */
+  context?: EvaluationContext;
+};
+
+export type ExplainSelectionResult = ValidatorResult & {
+  /** One entry per blocking constraint, in the same order as `blockedBy` */
+  violations: ConstraintViolation[];
+};
+
+function resolveFormatter(formatter: Partial<ExplanationFormatter> = {}): ExplanationFormatter {
+  return { ...englishExplanationFormatter, ...formatter };
+}
+
+function renderCondition(condition: LogicCondition, formatter: ExplanationFormatter, nested: boolean): string {
+  if (isLeafCondition(condition)) return formatter.condition(condition);
+  if (isContextCondition(condition)) return formatter.context(condition);
+
+  const { operator, conditions = [] } = condition as RecursiveCondition;
+  // A single-member AND/OR/XOR reads the same as the member itself.
+  if (conditions.length === 1 && operator !== "NOT") {
+    return renderCondition(conditions[0], formatter, nested);
+  }
+
+  const text = formatter.group(
+    operator,
+    conditions.map((c) => renderCondition(c, formatter, operator === "AND" || operator === "OR"))
+  );
+  // XOR/NOT render their own brackets; AND/OR need them when nested.
+  const bare = operator === "AND" || operator === "OR";
+  return nested && bare && conditions.length > 1 ? `(${text})` : text;
+}
+
+// The options behind a violated constraint without `if`/`then`
+function findConflicting(
+  selection: VariantSelectionItem[],
+  constraint: Exclude<VariantConstraint, ConditionalConstraint>
+): OptionPair[] {
+  const { ref } = constraint;
+  const isSelected = (typeValue: string, optionValue: string | undefined) =>
+    findSelectedItems(selection, typeValue, ref).some((item) => getSelectedOptionRef(item, ref) === optionValue);
+
+  switch (constraint.kind) {
+    case "mutually-exclusive":
+      return constraint.options.filter((o) => isSelected(o.typeValue, o.optionValue));
+    case "non-default":
+      return constraint.types.map((t) => ({ typeValue: t.typeValue, optionValue: t.defaultOption }));
+    case "forbidden-tuples": {
+      const tuple = constraint.tuples.find((values) =>
+        constraint.typeValues.every((t, i) => isSelected(t, values[i]))
+      );
+      return constraint.typeValues.map((typeValue, i) => ({ typeValue, optionValue: tuple?.[i] ?? "" }));
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Renders a (possibly nested) condition as text,
+ * e.g. "(Color is Red and Size is S) or Material is Leather".
+ */
+export function describeCondition(
+  condition: LogicCondition,
+  formatter?: Partial<ExplanationFormatter>
+): string {
+  return renderCondition(condition, resolveFormatter(formatter), false);
+}
+
+/**
+ * Same as `validateSelection`, plus a structured explanation per violation:
+ * which leaf conditions held, which selected option was rejected, and a
+ * rendered sentence suitable for showing to customers.
+ */
+export function explainSelection(
+  selection: VariantSelectionItem[],
+  constraints: VariantConstraint[],
+  options: ExplainSelectionOptions = {}
+): ExplainSelectionResult {
+  const { context } = options;
+  const formatter = resolveFormatter(options.formatter);
+  const result = validateSelection(selection, constraints, { context });
+
+  const violations: ConstraintViolation[] = [];
+  if (!result.valid) {
+    for (const constraint of constraints) {
+      if (validateSelection(selection, [constraint], { context }).valid) continue;
+
+      if (!isConditionalConstraint(constraint)) {
+        const conflicting = findConflicting(selection, constraint);
+        const details: Omit<ConstraintViolation, "message"> = {
+          constraintId: constraint.id,
+          constraint,
+          satisfiedConditions: [],
+          unsatisfiedConditions: [],
+          rejected: conflicting[conflicting.length - 1] ?? { typeValue: "", optionValue: "" },
+          conflicting,
+        };
+        violations.push({ ...details, message: formatter.violation(details, "") });
+        continue;
+      }
+
+      // The option the effect rejects; for a multi-selection, the first one breaking it
+      const { typeValue, ref, action, options: listed } = constraint.then;
+      const selectedItems = findSelectedItems(selection, typeValue, ref);
+      const selected =
+        selectedItems.find((item) => {
+          const value = getSelectedOptionRef(item, ref);
+          const isListed = value !== undefined && listed.includes(value);
+          return action === "allow" ? !isListed : action === "disallow" && isListed;
+        }) ?? selectedItems[0];
+      const leaves = collectLeafConditions(constraint.if);
+      const details: Omit<ConstraintViolation, "message"> = {
+        constraintId: constraint.id,
+        constraint,
+        satisfiedConditions: leaves.filter((l) => isConditionMet(selection, l)),
+        unsatisfiedConditions: leaves.filter((l) => !isConditionMet(selection, l)),
+        rejected: {
+          typeValue: selected?.typeValue ?? constraint.then.typeValue,
+          optionValue: selected?.optionValue ?? "",
+        },
+        conflicting: [],
+      };
+
+      violations.push({
+        ...details,
+        message: formatter.violation(
+          details,
+          renderCondition(constraint.if, formatter, false)
+        ),
+      });
+    }
+  }
+
+  return { ...result, violations };
+}
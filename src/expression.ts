@@ -0,0 +1,618 @@
+import type { VariantSelectionItem } from "./index";
+import type { EvaluationContext } from "./constraints";
+
+/**
+ * A small expression language for modifier values, e.g.
+ * `base.cost * 1.1 + weight * 0.5` or `"{Model}-{RAM}-{Storage}"`.
+ *
+ * - Numbers, strings ('...' or "..."), `true`, `false`, `null`
+ * - Arithmetic `+ - * / %` (`+` concatenates when either side is a string),
+ *   comparisons `== != < <= > >=`, `&& || !` and `test ? a : b`
+ * - `cost`: a field of the child as modified so far; `base.cost`: the field before any modifier;
+ *   `context.quantity`: a value of the evaluation context (see `EvaluationContext`)
+ * - `{RAM}`: the selected option value of a type (null if not selected);
+ *   `{RAM:gb}` one of its attributes, `{RAM:id}` its id, `{RAM:number}` its numeric value.
+ *   With several options of a multi-select type, numbers are summed (`{Accessories:price}`)
+ *   and anything else is joined with "+"
+ * - Inside strings, `{RAM}` etc. are interpolated; write `{{`/`}}` for literal braces
+ * - Functions: round(x, digits?), floor, ceil, abs, min, max, number, upper, lower
+ *
+ * There is no access to JS globals; expressions are parsed, never `eval`ed.
+ */
+export type Expression =
+  | { kind: "literal"; value: ExpressionValue; position: number }
+  | { kind: "template"; parts: (string | OptionReference)[]; position: number }
+  | { kind: "field"; name: string; scope: "child" | "base" | "context"; position: number }
+  | OptionReference
+  | { kind: "unary"; operator: "-" | "!"; operand: Expression; position: number }
+  | {
+      kind: "binary";
+      operator: BinaryOperator;
+      left: Expression;
+      right: Expression;
+      position: number;
+    }
+  | {
+      kind: "conditional";
+      test: Expression;
+      consequent: Expression;
+      alternate: Expression;
+      position: number;
+    }
+  | { kind: "call"; name: string; args: Expression[]; position: number };
+
+export type OptionReference = {
+  kind: "option";
+  typeValue: string;
+  /** Attribute name, or "id"/"number" */
+  property?: string;
+  position: number;
+};
+
+export type BinaryOperator =
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "%"
+  | "=="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "&&"
+  | "||";
+
+export type ExpressionValue = number | string | boolean | null;
+
+export type ExpressionError = {
+  message: string;
+  /** 0-based offset into the source */
+  position: number;
+};
+
+export type ParseExpressionResult =
+  | { ok: true; expression: Expression }
+  | { ok: false; error: ExpressionError };
+
+export type EvaluateExpressionResult =
+  | { ok: true; value: ExpressionValue }
+  | { ok: false; error: ExpressionError };
+
+export type ExpressionContext = {
+  /** Current field values (what a bare `cost` refers to) */
+  fields: Record<string, unknown>;
+  /** Field values before any modifier ran (`base.cost`). Defaults to `fields`. */
+  base?: Record<string, unknown>;
+  selection: VariantSelectionItem[];
+  /** What `context.quantity` etc. read */
+  context?: EvaluationContext;
+};
+
+export type ValidateExpressionOptions = {
+  /** Known field names; other identifiers are reported */
+  fields?: readonly string[];
+  /** Known type values; other `{Type}` references are reported */
+  typeValues?: readonly string[];
+};
+
+type Token =
+  | { type: "number"; value: number; position: number }
+  | { type: "string"; value: string; position: number }
+  | { type: "identifier"; value: string; position: number }
+  | { type: "reference"; value: string; position: number }
+  | { type: "operator"; value: string; position: number }
+  | { type: "end"; position: number };
+
+const OPERATORS = [
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "<",
+  ">",
+  "!",
+  "?",
+  ":",
+  "(",
+  ")",
+  ",",
+  ".",
+];
+
+const FUNCTIONS: Record<string, { min: number; max: number }> = {
+  round: { min: 1, max: 2 },
+  floor: { min: 1, max: 1 },
+  ceil: { min: 1, max: 1 },
+  abs: { min: 1, max: 1 },
+  min: { min: 1, max: Infinity },
+  max: { min: 1, max: Infinity },
+  number: { min: 1, max: 1 },
+  upper: { min: 1, max: 1 },
+  lower: { min: 1, max: 1 },
+};
+
+class SyntaxFailure {
+  constructor(readonly error: ExpressionError) {}
+}
+
+const fail = (message: string, position: number): never => {
+  throw new SyntaxFailure({ message, position });
+};
+
+function toReference(body: string, position: number): OptionReference {
+  const colon = body.lastIndexOf(":");
+  const typeValue = (colon >= 0 ? body.slice(0, colon) : body).trim();
+  const property = colon >= 0 ? body.slice(colon + 1).trim() : undefined;
+  if (!typeValue) fail("Expected a variant type name inside { }", position);
+  if (property === "") fail("Expected an attribute name after ':'", position);
+  return property === undefined
+    ? { kind: "option", typeValue, position }
+    : { kind: "option", typeValue, property, position };
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === "." && /[0-9]/.test(source[i + 1] ?? ""))) {
+      const match = /^(\d*\.?\d+|\d+\.)([eE][+-]?\d+)?/.exec(source.slice(i))!;
+      tokens.push({ type: "number", value: Number(match[0]), position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ type: "identifier", value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const start = i;
+      let value = "";
+      i++;
+      while (source[i] !== ch) {
+        if (i >= source.length) fail("Unterminated string", start);
+        if (source[i] === "\\") {
+          const next = source[i + 1];
+          if (next === undefined) fail("Unterminated string", start);
+          value += next === "n" ? "\n" : next === "t" ? "\t" : next;
+          i += 2;
+          continue;
+        }
+        value += source[i++];
+      }
+      i++;
+      tokens.push({ type: "string", value, position: start });
+      continue;
+    }
+
+    if (ch === "{") {
+      const end = source.indexOf("}", i);
+      if (end < 0) fail("Missing '}' after '{'", i);
+      tokens.push({ type: "reference", value: source.slice(i + 1, end), position: i });
+      i = end + 1;
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => source.startsWith(o, i));
+    if (!op) fail(`Unexpected character '${ch}'`, i);
+    tokens.push({ type: "operator", value: op!, position: i });
+    i += op!.length;
+  }
+
+  tokens.push({ type: "end", position: source.length });
+  return tokens;
+}
+
+/** Splits an interpolated string literal into text and `{Type}` references */
+function parseTemplate(value: string, position: number): Expression {
+  const parts: (string | OptionReference)[] = [];
+  let text = "";
+  let i = 0;
+  while (i < value.length) {
+    if (value.startsWith("{{", i) || value.startsWith("}}", i)) {
+      text += value[i];
+      i += 2;
+      continue;
+    }
+    if (value[i] === "{") {
+      const end = value.indexOf("}", i);
+      if (end < 0) fail("Missing '}' in string", position);
+      if (text) parts.push(text);
+      text = "";
+      parts.push(toReference(value.slice(i + 1, end), position));
+      i = end + 1;
+      continue;
+    }
+    text += value[i++];
+  }
+  if (text) parts.push(text);
+
+  return parts.every((p) => typeof p === "string")
+    ? { kind: "literal", value: parts.join(""), position }
+    : { kind: "template", parts, position };
+}
+
+function parseTokens(tokens: Token[]): Expression {
+  let index = 0;
+  const peek = () => tokens[index];
+  const isOperator = (value: string) => {
+    const t = peek();
+    return t.type === "operator" && t.value === value;
+  };
+  const expect = (value: string) => {
+    if (!isOperator(value)) fail(`Expected '${value}'`, peek().position);
+    index++;
+  };
+
+  const describe = (t: Token) =>
+    t.type === "end" ? "end of expression" : `'${"value" in t ? t.value : ""}'`;
+
+  const binaryLevels: string[][] = [
+    ["||"],
+    ["&&"],
+    ["==", "!="],
+    ["<", "<=", ">", ">="],
+    ["+", "-"],
+    ["*", "/", "%"],
+  ];
+
+  const parseConditional = (): Expression => {
+    const test = parseBinary(0);
+    if (!isOperator("?")) return test;
+    index++;
+    const consequent = parseConditional();
+    expect(":");
+    const alternate = parseConditional();
+    return { kind: "conditional", test, consequent, alternate, position: test.position };
+  };
+
+  const parseBinary = (level: number): Expression => {
+    if (level >= binaryLevels.length) return parseUnary();
+    let left = parseBinary(level + 1);
+    while (peek().type === "operator" && binaryLevels[level].includes((peek() as { value: string }).value)) {
+      const operator = (tokens[index++] as { value: string }).value as BinaryOperator;
+      const right = parseBinary(level + 1);
+      left = { kind: "binary", operator, left, right, position: left.position };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Expression => {
+    const t = peek();
+    if (t.type === "operator" && (t.value === "-" || t.value === "!")) {
+      index++;
+      return { kind: "unary", operator: t.value, operand: parseUnary(), position: t.position };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Expression => {
+    const t = tokens[index++];
+    switch (t.type) {
+      case "number":
+        return { kind: "literal", value: t.value, position: t.position };
+      case "string":
+        return parseTemplate(t.value, t.position);
+      case "reference":
+        return toReference(t.value, t.position);
+      case "identifier": {
+        if (t.value === "true" || t.value === "false") {
+          return { kind: "literal", value: t.value === "true", position: t.position };
+        }
+        if (t.value === "null") return { kind: "literal", value: null, position: t.position };
+
+        if (isOperator("(")) {
+          index++;
+          const args: Expression[] = [];
+          if (!isOperator(")")) {
+            args.push(parseConditional());
+            while (isOperator(",")) {
+              index++;
+              args.push(parseConditional());
+            }
+          }
+          expect(")");
+          const fn = FUNCTIONS[t.value];
+          if (!fn) fail(`Unknown function '${t.value}'`, t.position);
+          if (args.length < fn.min || args.length > fn.max) {
+            fail(`Wrong number of arguments for '${t.value}'`, t.position);
+          }
+          return { kind: "call", name: t.value, args, position: t.position };
+        }
+
+        if ((t.value === "base" || t.value === "context") && isOperator(".")) {
+          index++;
+          const field = tokens[index++];
+          if (field.type !== "identifier") fail(`Expected a name after '${t.value}.'`, field.position);
+          return { kind: "field", name: (field as { value: string }).value, scope: t.value, position: t.position };
+        }
+        return { kind: "field", name: t.value, scope: "child", position: t.position };
+      }
+      case "operator":
+        if (t.value === "(") {
+          const inner = parseConditional();
+          expect(")");
+          return inner;
+        }
+        return fail(`Unexpected ${describe(t)}`, t.position);
+      default:
+        return fail("Unexpected end of expression", t.position);
+    }
+  };
+
+  const expression = parseConditional();
+  if (peek().type !== "end") fail(`Unexpected ${describe(peek())}`, peek().position);
+  return expression;
+}
+
+/**
+ * Parses an expression without evaluating it.
+ * Syntax errors come with the 0-based position they were found at.
+ */
+export function parseExpression(source: string): ParseExpressionResult {
+  try {
+    if (!source.trim()) return { ok: false, error: { message: "Expression is empty", position: 0 } };
+    return { ok: true, expression: parseTokens(tokenize(source)) };
+  } catch (e) {
+    if (e instanceof SyntaxFailure) return { ok: false, error: e.error };
+    throw e;
+  }
+}
+
+/** Leading number of a value, e.g. "16GB" -> 16 */
+function toNumber(value: ExpressionValue): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (value === null) return null;
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function toExpressionValue(value: unknown): ExpressionValue {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "number" || typeof value === "string" || typeof value === "boolean") {
+    return value;
+  }
+  return String(value);
+}
+
+/** `record[key]` if it's an own property; inherited members like `constructor` are unknown */
+function ownProperty(record: Readonly<Record<string, unknown>> | undefined, key: string): unknown {
+  return record && Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined;
+}
+
+class EvaluationFailure {
+  constructor(readonly error: ExpressionError) {}
+}
+
+function evaluate(node: Expression, context: ExpressionContext): ExpressionValue {
+  const error = (message: string): never => {
+    throw new EvaluationFailure({ message, position: node.position });
+  };
+  const numeric = (value: ExpressionValue, what: string): number => {
+    if (typeof value !== "number") error(`${what} must be a number, got ${value === null ? "null" : typeof value}`);
+    return value as number;
+  };
+
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+    case "template":
+      return node.parts
+        .map((p) => (typeof p === "string" ? p : String(evaluate(p, context) ?? "")))
+        .join("");
+    case "field": {
+      const source =
+        node.scope === "base"
+          ? context.base ?? context.fields
+          : node.scope === "context"
+            ? context.context ?? {}
+            : context.fields;
+      const value = ownProperty(source, node.name);
+      return toExpressionValue(value instanceof Date ? value.toISOString() : value);
+    }
+    case "option": {
+      const items = context.selection.filter((s) => s.typeValue === node.typeValue);
+      const values = items.map((item): ExpressionValue => {
+        switch (node.property) {
+          case undefined:
+            return item.optionValue;
+          case "id":
+            return item.optionId ?? null;
+          case "number":
+            return item.numericValue ?? toNumber(item.optionValue);
+          default:
+            return toExpressionValue(ownProperty(item.attributes, node.property));
+        }
+      });
+      if (values.length <= 1) return values[0] ?? null;
+      return values.every((v) => typeof v === "number")
+        ? values.reduce<number>((sum, v) => sum + (v as number), 0)
+        : values.filter((v) => v !== null).join("+");
+    }
+    case "unary": {
+      const value = evaluate(node.operand, context);
+      return node.operator === "!" ? !value : -numeric(value, "Operand of '-'");
+    }
+    case "conditional":
+      return evaluate(node.test, context)
+        ? evaluate(node.consequent, context)
+        : evaluate(node.alternate, context);
+    case "binary": {
+      if (node.operator === "&&") {
+        return !!evaluate(node.left, context) && !!evaluate(node.right, context);
+      }
+      if (node.operator === "||") {
+        return !!evaluate(node.left, context) || !!evaluate(node.right, context);
+      }
+      const left = evaluate(node.left, context);
+      const right = evaluate(node.right, context);
+      switch (node.operator) {
+        case "==":
+          return left === right;
+        case "!=":
+          return left !== right;
+        case "+":
+          if (typeof left === "string" || typeof right === "string") {
+            return `${left ?? ""}${right ?? ""}`;
+          }
+          return numeric(left, "Left side of '+'") + numeric(right, "Right side of '+'");
+        default: {
+          const a = numeric(left, `Left side of '${node.operator}'`);
+          const b = numeric(right, `Right side of '${node.operator}'`);
+          switch (node.operator) {
+            case "-":
+              return a - b;
+            case "*":
+              return a * b;
+            case "/":
+              return b === 0 ? error("Division by zero") : a / b;
+            case "%":
+              return b === 0 ? error("Division by zero") : a % b;
+            case "<":
+              return a < b;
+            case "<=":
+              return a <= b;
+            case ">":
+              return a > b;
+            default:
+              return a >= b;
+          }
+        }
+      }
+    }
+    case "call": {
+      const args = node.args.map((a) => evaluate(a, context));
+      switch (node.name) {
+        case "round": {
+          const factor = 10 ** (args.length > 1 ? numeric(args[1], "Digits of round()") : 0);
+          return Math.round(numeric(args[0], "Argument of round()") * factor) / factor;
+        }
+        case "floor":
+          return Math.floor(numeric(args[0], "Argument of floor()"));
+        case "ceil":
+          return Math.ceil(numeric(args[0], "Argument of ceil()"));
+        case "abs":
+          return Math.abs(numeric(args[0], "Argument of abs()"));
+        case "min":
+          return Math.min(...args.map((a) => numeric(a, "Argument of min()")));
+        case "max":
+          return Math.max(...args.map((a) => numeric(a, "Argument of max()")));
+        case "number":
+          return toNumber(args[0]);
+        case "upper":
+          return String(args[0] ?? "").toUpperCase();
+        default:
+          return String(args[0] ?? "").toLowerCase();
+      }
+    }
+  }
+}
+
+/**
+ * Evaluates an expression (or its source) against a child's fields and the selection.
+ * Errors (syntax, type mismatches, division by zero) are returned, never thrown.
+ */
+export function evaluateExpression(
+  expression: Expression | string,
+  context: ExpressionContext
+): EvaluateExpressionResult {
+  let node: Expression;
+  if (typeof expression === "string") {
+    const parsed = parseExpression(expression);
+    if (!parsed.ok) return parsed;
+    node = parsed.expression;
+  } else {
+    node = expression;
+  }
+
+  try {
+    return { ok: true, value: evaluate(node, context) };
+  } catch (e) {
+    if (e instanceof EvaluationFailure) return { ok: false, error: e.error };
+    throw e;
+  }
+}
+
+function collectReferences(
+  node: Expression,
+  out: { fields: Expression[]; options: OptionReference[] }
+): void {
+  switch (node.kind) {
+    case "field":
+      if (node.scope !== "context") out.fields.push(node);
+      return;
+    case "option":
+      out.options.push(node);
+      return;
+    case "template":
+      node.parts.forEach((p) => typeof p !== "string" && out.options.push(p));
+      return;
+    case "unary":
+      collectReferences(node.operand, out);
+      return;
+    case "binary":
+      collectReferences(node.left, out);
+      collectReferences(node.right, out);
+      return;
+    case "conditional":
+      collectReferences(node.test, out);
+      collectReferences(node.consequent, out);
+      collectReferences(node.alternate, out);
+      return;
+    case "call":
+      node.args.forEach((a) => collectReferences(a, out));
+      return;
+  }
+}
+
+/**
+ * Checks an expression for editors: syntax errors, plus references to
+ * fields or variant types that aren't in `options` (when given).
+ */
+export function validateExpression(
+  source: string,
+  options: ValidateExpressionOptions = {}
+): ExpressionError[] {
+  const parsed = parseExpression(source);
+  if (!parsed.ok) return [parsed.error];
+
+  const refs = { fields: [] as Expression[], options: [] as OptionReference[] };
+  collectReferences(parsed.expression, refs);
+
+  const errors: ExpressionError[] = [];
+  if (options.fields) {
+    for (const f of refs.fields) {
+      if (f.kind === "field" && !options.fields.includes(f.name)) {
+        errors.push({ message: `Unknown field '${f.name}'`, position: f.position });
+      }
+    }
+  }
+  if (options.typeValues) {
+    for (const o of refs.options) {
+      if (!options.typeValues.includes(o.typeValue)) {
+        errors.push({ message: `Unknown variant type '${o.typeValue}'`, position: o.position });
+      }
+    }
+  }
+  return errors;
+}
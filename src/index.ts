@@ -1,14 +1,176 @@
-export type VariantOption = { value: string };
+import { compileConstraints } from "./compiler";
+import type { VariantConstraint } from "./constraints";
+import { createVariantKeyCodec } from "./keys";
+import type { VariantKeyScheme } from "./keys";
+
+export type OptionAttributes = Record<string, string | number | boolean>;
+
+export type VariantOption<TAttributes extends OptionAttributes = OptionAttributes> = {
+  value: string;
+  /**
+   * Stable identifier. Unlike `value`/`label` it never changes, so rules
+   * (`ref: "id"`), keys and reconciliation can rely on it across renames.
+   */
+  id?: string;
+  /** Display label; falls back to `value` */
+  label?: string;
+  /** Short code for SKU templates (`{Color:code}`), e.g. "RD"; falls back to `value` */
+  code?: string;
+  /** Swatch color for UIs, e.g. "#ff0000" */
+  swatch?: string;
+  /** Image URL or id for UIs */
+  image?: string;
+  /** Display order hint for UIs (lower first); does not affect `variantKey`s */
+  sortWeight?: number;
+  /** Number used by numeric conditions that don't name an attribute (defaults to the leading number of `value`) */
+  numericValue?: number;
+  /** Extra option data, e.g. `{ gb: 16 }` for numeric conditions */
+  attributes?: TAttributes;
+};
+
+/**
+ * How many options of a type one variant has:
+ * - `single`: exactly one (the default)
+ * - `optional-single`: none or one, e.g. "Engraving: none"
+ * - `multi`: between `minSelections` and `maxSelections`, e.g. "Accessories: any of"
+ *
+ * In index combinations (and `validateIndices`) an `optional-single` type is 0
+ * when nothing is picked, and a `multi` type is a bitmask of the picked options
+ * (bit 0 = first option), so 0 is "none" there too. Positional keys write
+ * multi-selections as "1+3" (see `VariantKeyScheme`).
+ */
+export type VariantSelectionMode = "single" | "optional-single" | "multi";
+
+/** `multi` types can have at most this many options (their bitmask has to fit 31 bits) */
+export const MAX_MULTI_SELECT_OPTIONS = 30;
 
 /**
  * Matches your app's shape (`variantTypes: { value, variantOptions: {value}[] }[]`)
  * but is intentionally generic and framework-agnostic.
  */
-export type VariantType = {
+export type VariantType<TAttributes extends OptionAttributes = OptionAttributes> = {
   value: string;
-  variantOptions: VariantOption[];
+  /** Stable identifier, see `VariantOption.id` */
+  id?: string;
+  /** Display label; falls back to `value` */
+  label?: string;
+  /** Defaults to "single" */
+  selectionMode?: VariantSelectionMode;
+  /** Fewest options of a `multi` type a variant has. Defaults to 0. */
+  minSelections?: number;
+  /** Most options of a `multi` type a variant has. Defaults to all of them. */
+  maxSelections?: number;
+  variantOptions: VariantOption<TAttributes>[];
 };
 
+export function getSelectionMode(variantType: VariantType | undefined): VariantSelectionMode {
+  return variantType?.selectionMode ?? "single";
+}
+
+function countBits(mask: number): number {
+  let count = 0;
+  for (let m = mask; m > 0; m >>>= 1) count += m & 1;
+  return count;
+}
+
+function binomial(n: number, k: number): number {
+  let result = 1;
+  for (let i = 1; i <= k; i++) result = (result * (n - k + i)) / i;
+  return Math.round(result);
+}
+
+/** Like `getSelectionChoices(variantType).length`, without listing them */
+function countSelectionChoices(variantType: VariantType): number {
+  const count = variantType.variantOptions?.length ?? 0;
+  if (count === 0) return 0;
+  switch (getSelectionMode(variantType)) {
+    case "optional-single":
+      return count + 1;
+    case "multi": {
+      if (count > MAX_MULTI_SELECT_OPTIONS) return 0;
+      const max = Math.min(variantType.maxSelections ?? count, count);
+      let total = 0;
+      for (let k = Math.max(0, variantType.minSelections ?? 0); k <= max; k++) total += binomial(count, k);
+      return total;
+    }
+    default:
+      return count;
+  }
+}
+
+/**
+ * The per-type values generation expands, in order: option indices 1..n for
+ * `single` types, 0..n for `optional-single` types, and for `multi` types every
+ * bitmask whose number of options is within `minSelections`..`maxSelections`.
+ * Empty for types without options (or `multi` types with too many of them).
+ */
+export function getSelectionChoices(variantType: VariantType): number[] {
+  const count = variantType.variantOptions?.length ?? 0;
+  if (count === 0) return [];
+  const indices = Array.from({ length: count }, (_, i) => i + 1);
+
+  switch (getSelectionMode(variantType)) {
+    case "optional-single":
+      return [0, ...indices];
+    case "multi": {
+      if (count > MAX_MULTI_SELECT_OPTIONS) return [];
+      const min = variantType.minSelections ?? 0;
+      const max = variantType.maxSelections ?? count;
+      const masks: number[] = [];
+      for (let mask = 0; mask < 2 ** count; mask++) {
+        const size = countBits(mask);
+        if (size >= min && size <= max) masks.push(mask);
+      }
+      return masks;
+    }
+    default:
+      return indices;
+  }
+}
+
+/**
+ * The 1-based indices of the options a per-type value stands for (see
+ * `VariantSelectionMode`): all set bits for `multi` types, otherwise the index
+ * itself, or nothing for 0 and indices outside the type's options.
+ */
+export function selectedOptionIndices(variantType: VariantType | undefined, index: number): number[] {
+  const count = variantType?.variantOptions?.length ?? 0;
+  if (getSelectionMode(variantType) !== "multi") {
+    return index >= 1 && index <= count ? [index] : [];
+  }
+  const indices: number[] = [];
+  for (let oi = 0; oi < Math.min(count, MAX_MULTI_SELECT_OPTIONS); oi++) {
+    if ((index >>> oi) & 1) indices.push(oi + 1);
+  }
+  return indices;
+}
+
+/** Whether a per-type value stands for a selection the type allows (its bits within its options, for `multi` types) */
+export function isSelectionIndex(variantType: VariantType, index: number): boolean {
+  const count = variantType.variantOptions?.length ?? 0;
+  switch (getSelectionMode(variantType)) {
+    case "multi":
+      return Number.isInteger(index) && index >= 0 && index < 2 ** Math.min(count, MAX_MULTI_SELECT_OPTIONS);
+    case "optional-single":
+      return index >= 0 && index <= count;
+    default:
+      return index >= 1 && index <= count;
+  }
+}
+
+/**
+ * The per-type value for picked options (1-based indices): their bitmask for
+ * `multi` types, otherwise the first index, or 0 when nothing is picked.
+ */
+export function toSelectionIndex(variantType: VariantType | undefined, optionIndices1Based: readonly number[]): number {
+  if (getSelectionMode(variantType) !== "multi") return optionIndices1Based[0] ?? 0;
+  return optionIndices1Based.reduce((mask, idx) => (idx >= 1 ? mask | (1 << (idx - 1)) : mask), 0);
+}
+
+/**
+ * One selected option. A `multi` type with several options selected has
+ * one item per option; a type with nothing selected has none.
+ */
 export type VariantSelectionItem = {
   /** 0-based index into `variantTypes` */
   typeIndex: number;
@@ -18,8 +180,39 @@ export type VariantSelectionItem = {
   typeValue: string;
   /** `variantTypes[typeIndex].variantOptions[optionIndex1Based-1].value` */
   optionValue: string;
+  /** `id` of the variant type, if any */
+  typeId?: string;
+  /** `id` of the selected option, if any */
+  optionId?: string;
+  /** `numericValue` of the selected option, if any */
+  numericValue?: number;
+  /** `attributes` of the selected option, if any */
+  attributes?: OptionAttributes;
 };
 
+/**
+ * Builds the selection item for an option of `variantType`, copying the
+ * option's ids and metadata that conditions can test.
+ */
+export function toSelectionItem(
+  variantType: VariantType | undefined,
+  typeIndex: number,
+  optionIndex1Based: number
+): VariantSelectionItem {
+  const option = variantType?.variantOptions?.[optionIndex1Based - 1];
+  const item: VariantSelectionItem = {
+    typeIndex,
+    optionIndex1Based,
+    typeValue: variantType?.value ?? "",
+    optionValue: option?.value ?? "",
+  };
+  if (variantType?.id !== undefined) item.typeId = variantType.id;
+  if (option?.id !== undefined) item.optionId = option.id;
+  if (option?.numericValue !== undefined) item.numericValue = option.numericValue;
+  if (option?.attributes) item.attributes = option.attributes;
+  return item;
+}
+
 /**
  * Represents a concrete variant combination (a "child product"/variant row).
  * You can extend this type in your app with more fields if needed.
@@ -54,10 +247,20 @@ export type GenerateChildVariantsOptions<TChild extends ChildVariant> = {
    */
   labelSeparator?: string;
   /**
-   * Separator used to build/parse `variantKey` strings (defaults to "-").
-   * Keep this consistent with the `variantKey` values you store.
+   * Separator used to build/parse `variantKey` strings (defaults to "-",
+   * or "|" for id keys). Keep this consistent with the `variantKey` values you store.
    */
   keySeparator?: string;
+  /**
+   * How `variantKey`s encode options: 1-based positions (default), option ids
+   * or option value hashes. See `VariantKeyScheme`.
+   */
+  keyScheme?: VariantKeyScheme;
+  /**
+   * Only generate combinations that satisfy these constraints.
+   * Invalid partial combinations are pruned without generating their subtrees.
+   */
+  constraints?: VariantConstraint[];
 };
 
 /**
@@ -85,6 +288,11 @@ export function toVariantKey(
   return indices1Based.join(separator);
 }
 
+/**
+ * Parses a positional key ("1-2") into 1-based option indices. Only for keys of
+ * single-select types: a multi-select segment such as "1+3" can't be read
+ * without its variant type, so parse those with `createVariantKeyCodec`.
+ */
 export function parseVariantKey(variantKey: string, separator = "-"): number[] {
   if (!variantKey) return [];
   return variantKey.split(separator).map((s) => {
@@ -93,6 +301,10 @@ export function parseVariantKey(variantKey: string, separator = "-"): number[] {
   });
 }
 
+/**
+ * Orders positional keys of single-select types by their option indices. For
+ * optional, multi-select or `id`/`hash` keys, use `createVariantKeyCodec(...).compare`.
+ */
 export function sortVariantKeysAsc(
   a: string,
   b: string,
@@ -109,9 +321,16 @@ export function sortVariantKeysAsc(
   return 0;
 }
 
+/** Joins the labels of the options a `multi` type has selected */
+export const MULTI_SELECT_LABEL_SEPARATOR = " + ";
+
 /**
- * Builds the human-readable variant label for a given variantKey using option values.
+ * Builds the human-readable variant label for a given variantKey using option labels
+ * (or values, for options without a `label`).
  * Example: variantKey "1-2" with Color=[Red,Blue], Size=[S,M] -> "Red - M"
+ *
+ * Optional and multi-select types with nothing selected are left out; several
+ * selected options read "Case + Strap".
  */
 export function variantKeyToLabel(
   variantKey: string,
@@ -119,36 +338,59 @@ export function variantKeyToLabel(
   labelSeparator = " - ",
   keySeparator = "-"
 ): string {
-  const indices = parseVariantKey(variantKey, keySeparator);
-  const values = indices.map((idx1Based, typeIndex) => {
-    const option =
-      variantTypes[typeIndex]?.variantOptions?.[idx1Based - 1]?.value ?? "";
-    return option;
+  const indices = createVariantKeyCodec(variantTypes, { keySeparator }).parse(variantKey);
+  return indicesToLabel(indices, variantTypes, labelSeparator);
+}
+
+function indicesToLabel(
+  indices1Based: readonly number[],
+  variantTypes: readonly VariantType[],
+  labelSeparator: string
+): string {
+  const values = indices1Based.flatMap((idx1Based, typeIndex) => {
+    const variantType = variantTypes[typeIndex];
+    const label = (oi: number) => {
+      const option = variantType?.variantOptions?.[oi - 1];
+      return option?.label ?? option?.value ?? "";
+    };
+    if (getSelectionMode(variantType) === "single") return [label(idx1Based)];
+    const selected = selectedOptionIndices(variantType, idx1Based);
+    return selected.length > 0 ? [selected.map(label).join(MULTI_SELECT_LABEL_SEPARATOR)] : [];
   });
   return variantTypes.length > 1
     ? values.join(labelSeparator)
     : values.join("");
 }
 
+/**
+ * Builds the selection for one value per type (see `VariantSelectionMode`):
+ * one item per selected option, in `variantTypes` order.
+ * `single` types always get an item, even for indices outside their options.
+ */
+export function variantIndicesToSelection(
+  indices1Based: readonly number[],
+  variantTypes: readonly VariantType[]
+): VariantSelectionItem[] {
+  return indices1Based.flatMap((idx1Based, typeIndex) => {
+    const variantType = variantTypes[typeIndex];
+    const selected =
+      getSelectionMode(variantType) === "single"
+        ? [idx1Based]
+        : selectedOptionIndices(variantType, idx1Based);
+    return selected.map((oi) => toSelectionItem(variantType, typeIndex, oi));
+  });
+}
+
 export function variantKeyToSelection(
   variantKey: string,
   variantTypes: readonly VariantType[],
   keySeparator = "-"
 ): VariantSelectionItem[] {
-  const indices = parseVariantKey(variantKey, keySeparator);
-  return indices.map((idx1Based, typeIndex) => {
-    const typeValue = variantTypes[typeIndex]?.value ?? "";
-    const optionValue =
-      variantTypes[typeIndex]?.variantOptions?.[idx1Based - 1]?.value ?? "";
-    return {
-      typeIndex,
-      optionIndex1Based: idx1Based,
-      typeValue,
-      optionValue,
-    };
-  });
+  const indices = createVariantKeyCodec(variantTypes, { keySeparator }).parse(variantKey);
+  return variantIndicesToSelection(indices, variantTypes);
 }
 
+/** One option value per selection item, so `multi` types may add several (or none) */
 export function variantKeyToValues(
   variantKey: string,
   variantTypes: readonly VariantType[],
@@ -165,28 +407,63 @@ export type VariantValuesToKeyOptions = {
   caseInsensitive?: boolean;
   /** If true, trims input values and option values before matching */
   trim?: boolean;
+  /**
+   * Which option field `values` refer to: `value` (default), the stable `id`,
+   * or the display `label` (falling back to `value`).
+   */
+  matchBy?: OptionMatchField;
 };
 
+export type OptionMatchField = "value" | "id" | "label";
+
+/** Returns the option field used for matching (undefined if the option has no id) */
+export function getOptionMatchValue(
+  option: VariantOption,
+  matchBy: OptionMatchField = "value"
+): string | undefined {
+  if (matchBy === "id") return option.id;
+  if (matchBy === "label") return option.label ?? option.value;
+  return option.value;
+}
+
+/**
+ * Builds a positional `variantKey` from one value per type. `multi` types take
+ * an array of values; an empty value (or array) selects nothing for optional
+ * and multi-select types, which also leave out values that match no option.
+ */
 export function variantValuesToKey(
-  values: readonly string[],
+  values: readonly (string | readonly string[])[],
   variantTypes: readonly VariantType[],
   options: VariantValuesToKeyOptions = {}
 ): string {
-  const { keySeparator = "-", caseInsensitive = false, trim = true } = options;
+  const {
+    keySeparator = "-",
+    caseInsensitive = false,
+    trim = true,
+    matchBy = "value",
+  } = options;
   const normalize = (s: string) => {
     const x = trim ? s.trim() : s;
     return caseInsensitive ? x.toLowerCase() : x;
   };
 
-  const indices1Based = variantTypes.map((t, i) => {
-    const desired = normalize(values[i] ?? "");
-    const idx0 = t.variantOptions.findIndex(
-      (o) => normalize(o.value) === desired
-    );
+  const findIndex = (t: VariantType, value: string) => {
+    const desired = normalize(value);
+    const idx0 = t.variantOptions.findIndex((o) => {
+      const candidate = getOptionMatchValue(o, matchBy);
+      return candidate !== undefined && normalize(candidate) === desired;
+    });
     return idx0 >= 0 ? idx0 + 1 : 0;
+  };
+
+  const indices1Based = variantTypes.map((t, i) => {
+    const value = values[i] ?? "";
+    if (typeof value === "string" && getSelectionMode(t) === "single") return findIndex(t, value);
+    const list = typeof value === "string" ? (value ? [value] : []) : value;
+    return toSelectionIndex(t, list.map((v) => findIndex(t, v)));
   });
 
-  return toVariantKey(indices1Based, keySeparator);
+  return createVariantKeyCodec(variantTypes, { keySeparator }).format(indices1Based);
 }
 
 export function isUsableLabel(label: string, labelSeparator = " - "): boolean {
@@ -199,62 +476,275 @@ export function isUsableLabel(label: string, labelSeparator = " - "): boolean {
   return true;
 }
 
+export type IterateVariantIndicesOptions = {
+  /** Number of combinations to skip before the first one is yielded (for pagination) */
+  offset?: number;
+  /** Maximum number of combinations to yield */
+  limit?: number;
+  /**
+   * Skips combinations that violate these constraints. A partial combination
+   * that is already invalid is skipped together with everything below it.
+   */
+  constraints?: VariantConstraint[];
+  /** Extra per-combination filter. Rejected combinations don't count towards `offset`. */
+  filter?: (indices1Based: readonly number[]) => boolean;
+};
+
+export type IterateVariantKeysOptions = IterateVariantIndicesOptions & {
+  /** Separator used to build `variantKey` strings (defaults to "-", or "|" for id keys) */
+  keySeparator?: string;
+  /** Defaults to positional keys, see `VariantKeyScheme` */
+  keyScheme?: VariantKeyScheme;
+};
+
+export type IterateChildVariantsOptions<TChild extends ChildVariant> =
+  GenerateChildVariantsOptions<TChild> &
+    Omit<IterateVariantIndicesOptions, "filter">;
+
+/**
+ * The types generation actually expands. Like `cartesianIndexProduct`,
+ * expansion stops at the first type without options.
+ */
+function expandedTypes(variantTypes: readonly VariantType[]): readonly VariantType[] {
+  const end = variantTypes.findIndex((t) => countSelectionChoices(t) === 0);
+  return end < 0 ? variantTypes : variantTypes.slice(0, end);
+}
+
 /**
- * Generates all child variants implied by `variantTypes`.
- * - Uses 1-based indices to match your UI (`variantKey` like "1-2")
- * - Preserves existing children when `options.existing` is provided
+ * Returns how many combinations `generateChildVariants` expands, without generating them.
  */
-export function generateChildVariants<
+export function countVariantCombinations(
+  variantTypes: readonly VariantType[]
+): number {
+  const types = expandedTypes(variantTypes);
+  if (types.length === 0) return 0;
+  return types.reduce((total, t) => total * countSelectionChoices(t), 1);
+}
+
+/**
+ * Lazily yields 1-based index combinations in ascending order, the last type
+ * changing fastest (one value per type, see `VariantSelectionMode`).
+ * Only the current combination is kept in memory, so this scales to
+ * products whose full cartesian product would not fit.
+ */
+export function* iterateVariantIndices(
+  variantTypes: readonly VariantType[],
+  options: IterateVariantIndicesOptions = {}
+): Generator<number[]> {
+  const { offset = 0, limit = Infinity, constraints, filter } = options;
+  const types = expandedTypes(variantTypes);
+  const depthCount = types.length;
+  if (depthCount === 0 || limit <= 0) return;
+  const choices = types.map(getSelectionChoices);
+
+  const validator =
+    constraints && constraints.length > 0
+      ? compileConstraints(variantTypes, constraints)
+      : undefined;
+
+  // 0 marks a type that is not assigned yet (treated as not selected);
+  // `positions` tracks where each type is in its choices (-1 = not started).
+  const current: number[] = new Array(depthCount).fill(0);
+  const positions: number[] = new Array(depthCount).fill(-1);
+  let skip = Math.max(0, Math.floor(offset));
+  let remaining = limit;
+  let depth = 0;
+
+  // Without pruning or filtering, jump straight to the `offset`-th combination.
+  if (!validator && !filter && skip > 0) {
+    if (skip >= countVariantCombinations(variantTypes)) return;
+    for (let i = depthCount - 1; i >= 0; i--) {
+      positions[i] = skip % choices[i].length;
+      current[i] = choices[i][positions[i]];
+      skip = Math.floor(skip / choices[i].length);
+    }
+    // The loop below advances the last position before yielding.
+    positions[depthCount - 1]--;
+    depth = depthCount - 1;
+  }
+
+  while (depth >= 0) {
+    positions[depth]++;
+    if (positions[depth] >= choices[depth].length) {
+      positions[depth] = -1;
+      current[depth] = 0;
+      depth--;
+      continue;
+    }
+    current[depth] = choices[depth][positions[depth]];
+    if (validator) {
+      // Deeper types are still pending, so only prune definite violations.
+      const check =
+        depth < depthCount - 1 ? validator.validatePartial : validator.validateIndices;
+      if (!check(current).valid) continue;
+    }
+    if (depth < depthCount - 1) {
+      depth++;
+      continue;
+    }
+    if (filter && !filter(current)) continue;
+    if (skip > 0) {
+      skip--;
+      continue;
+    }
+    yield current.slice();
+    if (--remaining <= 0) return;
+  }
+}
+
+/**
+ * Lazily yields `variantKey` strings in the order of the key codec's `compare`
+ * (`sortVariantKeysAsc` order when every type is single-select and keys are positional).
+ */
+export function* iterateVariantKeys(
+  variantTypes: readonly VariantType[],
+  options: IterateVariantKeysOptions = {}
+): Generator<string> {
+  const { keySeparator, keyScheme, ...rest } = options;
+  const codec = createVariantKeyCodec(variantTypes, { keyScheme, keySeparator });
+  for (const indices of iterateVariantIndices(variantTypes, rest)) {
+    yield codec.format(indices);
+  }
+}
+
+/**
+ * Lazily yields the child variants `generateChildVariants` would return,
+ * in the same order, with support for `offset`/`limit` pagination.
+ */
+export function* iterateChildVariants<
   TChild extends ChildVariant = ChildVariant
 >(
   variantTypes: readonly VariantType[],
-  options: GenerateChildVariantsOptions<TChild> = {}
-): TChild[] {
+  options: IterateChildVariantsOptions<TChild> = {}
+): Generator<TChild> {
   const {
     existing = [],
     createDefault,
     filterInvalidTitles = true,
     labelSeparator = " - ",
-    keySeparator = "-",
+    keySeparator,
+    keyScheme,
+    offset,
+    limit,
+    constraints,
   } = options;
 
-  const counts = variantTypes.map((t) => t.variantOptions?.length ?? 0);
-  const combos = cartesianIndexProduct(counts);
-
+  const codec = createVariantKeyCodec(variantTypes, { keyScheme, keySeparator });
   const existingMap = new Map(existing.map((c) => [c.variantKey, c]));
 
-  const children = combos.map((indices) => {
-    const key = toVariantKey(indices, keySeparator);
-    const existingChild = existingMap.get(key);
-    if (existingChild) return existingChild;
-    if (createDefault) return createDefault(key);
-    // Default is only guaranteed to satisfy the base `ChildVariant` shape.
-    // If consumers use a narrower `TChild`, they should pass `createDefault`.
-    return {
-      variantKey: key,
-      title: "",
-      sku: "",
-      cost: null,
-      stock: null,
-      imageIds: [],
-    } as unknown as TChild;
+  const combos = iterateVariantIndices(variantTypes, {
+    offset,
+    limit,
+    constraints,
+    filter: filterInvalidTitles
+      ? (indices) =>
+          isUsableLabel(
+            indicesToLabel(indices, variantTypes, labelSeparator),
+            labelSeparator
+          )
+      : undefined,
   });
 
-  const sorted = [...children].sort((x, y) =>
-    sortVariantKeysAsc(x.variantKey, y.variantKey, keySeparator)
-  );
+  for (const indices of combos) {
+    const key = codec.format(indices);
+    const existingChild = existingMap.get(key);
+    if (existingChild) {
+      yield existingChild;
+    } else if (createDefault) {
+      yield createDefault(key);
+    } else {
+      // Default is only guaranteed to satisfy the base `ChildVariant` shape.
+      // If consumers use a narrower `TChild`, they should pass `createDefault`.
+      yield {
+        variantKey: key,
+        title: "",
+        sku: "",
+        cost: null,
+        stock: null,
+        imageIds: [],
+      } as unknown as TChild;
+    }
+  }
+}
+
+/**
+ * Generates all child variants implied by `variantTypes`.
+ * - Uses 1-based indices to match your UI (`variantKey` like "1-2")
+ * - Preserves existing children when `options.existing` is provided
+ * - Use `iterateChildVariants` to page through large products lazily
+ */
+export function generateChildVariants<
+  TChild extends ChildVariant = ChildVariant
+>(
+  variantTypes: readonly VariantType[],
+  options: GenerateChildVariantsOptions<TChild> = {}
+): TChild[] {
+  return Array.from(iterateChildVariants<TChild>(variantTypes, options));
+}
+
+export type GenerationReport = {
+  /** Combinations considered (after `filterInvalidTitles`) */
+  total: number;
+  /** Combinations that passed every constraint */
+  valid: number;
+  /** Combinations blocked by at least one constraint */
+  eliminated: number;
+  /**
+   * Number of combinations each constraint blocked, keyed by constraint id.
+   * A combination blocked by several constraints counts towards each of them.
+   */
+  eliminatedBy: Record<string, number>;
+};
+
+export type GenerateChildVariantsWithReportResult<TChild extends ChildVariant> = {
+  children: TChild[];
+  report: GenerationReport;
+};
+
+/**
+ * Like `generateChildVariants` with `constraints`, but also reports which
+ * constraint eliminated how many combinations. Every combination has to be
+ * visited to count them, so prefer `generateChildVariants` when no report is needed.
+ */
+export function generateChildVariantsWithReport<
+  TChild extends ChildVariant = ChildVariant
+>(
+  variantTypes: readonly VariantType[],
+  options: GenerateChildVariantsOptions<TChild> = {}
+): GenerateChildVariantsWithReportResult<TChild> {
+  const { constraints = [], keySeparator, keyScheme, ...rest } = options;
+  const validator = compileConstraints(variantTypes, constraints);
+  const codec = createVariantKeyCodec(variantTypes, { keyScheme, keySeparator });
 
-  if (!filterInvalidTitles) return sorted;
+  const report: GenerationReport = {
+    total: 0,
+    valid: 0,
+    eliminated: 0,
+    eliminatedBy: {},
+  };
 
-  return sorted.filter((child) => {
-    const label = variantKeyToLabel(
-      child.variantKey,
-      variantTypes,
-      labelSeparator,
-      keySeparator
+  const children: TChild[] = [];
+  for (const child of iterateChildVariants<TChild>(variantTypes, {
+    ...rest,
+    keySeparator: codec.keySeparator,
+    keyScheme,
+  })) {
+    report.total++;
+    const { valid, blockedBy } = validator.validateIndices(
+      codec.parse(child.variantKey)
     );
-    return isUsableLabel(label, labelSeparator);
-  });
+    if (valid) {
+      report.valid++;
+      children.push(child);
+      continue;
+    }
+    report.eliminated++;
+    for (const id of blockedBy) {
+      report.eliminatedBy[id] = (report.eliminatedBy[id] ?? 0) + 1;
+    }
+  }
+
+  return { children, report };
 }
 
 export type ValidateVariantTypesResult = {
@@ -274,6 +764,7 @@ export function validateVariantTypes(
   }
 
   const typeNameCounts = new Map<string, number>();
+  const typeIdCounts = new Map<string, number>();
 
   for (let ti = 0; ti < variantTypes.length; ti++) {
     const t = variantTypes[ti];
@@ -282,6 +773,8 @@ export function validateVariantTypes(
       errors.push(`Variant type at index ${ti} is missing a value.`);
 
     typeNameCounts.set(typeName, (typeNameCounts.get(typeName) ?? 0) + 1);
+    if (t?.id !== undefined)
+      typeIdCounts.set(t.id, (typeIdCounts.get(t.id) ?? 0) + 1);
 
     const opts = t?.variantOptions ?? [];
     if (!Array.isArray(opts) || opts.length === 0) {
@@ -289,8 +782,28 @@ export function validateVariantTypes(
       continue;
     }
 
+    const mode = getSelectionMode(t);
+    if (mode !== "multi" && (t.minSelections !== undefined || t.maxSelections !== undefined)) {
+      warnings.push(`Variant type "${typeName || ti}" sets minSelections/maxSelections but isn't "multi".`);
+    } else if (mode === "multi") {
+      const min = t.minSelections ?? 0;
+      const max = t.maxSelections ?? opts.length;
+      if (opts.length > MAX_MULTI_SELECT_OPTIONS)
+        errors.push(
+          `Multi-select type "${typeName || ti}" has more than ${MAX_MULTI_SELECT_OPTIONS} options.`
+        );
+      if (min < 0 || min > max || min > opts.length)
+        errors.push(
+          `Multi-select type "${typeName || ti}" can't have between ${min} and ${max} of its ${opts.length} options.`
+        );
+    }
+
     const optionCounts = new Map<string, number>();
+    const optionIdCounts = new Map<string, number>();
     for (let oi = 0; oi < opts.length; oi++) {
+      const oid = opts[oi]?.id;
+      if (oid !== undefined)
+        optionIdCounts.set(oid, (optionIdCounts.get(oid) ?? 0) + 1);
       const ov = (opts[oi]?.value ?? "").trim();
       if (!ov)
         warnings.push(
@@ -304,6 +817,12 @@ export function validateVariantTypes(
         warnings.push(`Duplicate option "${ov}" in type "${typeName || ti}".`);
       }
     }
+
+    for (const [oid, count] of optionIdCounts.entries()) {
+      if (count > 1) {
+        warnings.push(`Duplicate option id "${oid}" in type "${typeName || ti}".`);
+      }
+    }
   }
 
   for (const [typeName, count] of typeNameCounts.entries()) {
@@ -312,6 +831,12 @@ export function validateVariantTypes(
     }
   }
 
+  for (const [typeId, count] of typeIdCounts.entries()) {
+    if (count > 1) {
+      warnings.push(`Duplicate variant type id "${typeId}".`);
+    }
+  }
+
   return { errors, warnings };
 }
 
@@ -380,7 +905,7 @@ export function normalizeVariantTypes(
         seen.add(key);
       }
 
-      optionsOut.push({ value: v });
+      optionsOut.push({ ...o, value: v });
     }
 
     if (dropEmptyTypes && !typeValue) {
@@ -388,7 +913,7 @@ export function normalizeVariantTypes(
       continue;
     }
 
-    out.push({ value: typeValue, variantOptions: optionsOut });
+    out.push({ ...t, value: typeValue, variantOptions: optionsOut });
   }
 
   return {
@@ -410,37 +935,166 @@ export type ReconcileChildVariantsOptions<TChild extends ChildVariant> = {
   labelSeparator?: string;
   /** Separator used to build/parse `variantKey` strings */
   keySeparator?: string;
+  /** Key scheme of both the existing and the generated `variantKey`s (defaults to positional keys) */
+  keyScheme?: VariantKeyScheme;
   /** If true, filters out combinations where any option value is missing/blank */
   filterInvalidTitles?: boolean;
   /** If true, matches option values case-insensitively when reconciling */
   caseInsensitiveMatch?: boolean;
   /** If true, trims option values before matching */
   trimMatch?: boolean;
+  /**
+   * Match types and options by `value` (default) or by their stable `id`, so
+   * relabeled options keep their children. Entries without an id fall back to their value.
+   */
+  matchBy?: "value" | "id";
+  /** Explicit renames, applied before matching */
+  renames?: ReconcileRenames;
+  /**
+   * How options still unmatched after exact and renamed matching are paired up:
+   * - `none` (default): they aren't, children using them are dropped
+   * - `position`: an old option takes the unmatched new option at the same index
+   * - `fuzzy`: an old option takes the most similar unmatched new option
+   */
+  fallback?: "none" | "position" | "fuzzy";
+  /** Minimum similarity (0-1, edit distance based) for `fuzzy` matches. Defaults to 0.7. */
+  fuzzyThreshold?: number;
+  /**
+   * What happens to existing children when a variant type is added:
+   * - `default` (default): each child moves to the combination with the new
+   *   type's default option (see `defaultOptions`)
+   * - `fan-out`: each child is copied to every option of the new type (see `splitStrategy`)
+   */
+  onTypeAdded?: "default" | "fan-out";
+  /** New type value -> option value used by `onTypeAdded: "default"` (falls back to the first option) */
+  defaultOptions?: Record<string, string>;
+  /**
+   * Builds the children a child is fanned out to, one per key in `variantKeys`.
+   * Defaults to copying every field; return adjusted copies to e.g. split stock or suffix SKUs.
+   */
+  splitStrategy?: (child: TChild, variantKeys: string[]) => TChild[];
+  /**
+   * Combines children that collapse into one combination when a type is removed.
+   * Defaults to `mergeChildVariants`.
+   */
+  mergeStrategy?: ChildMergeStrategy<TChild>;
+};
+
+/**
+ * Combines children that end up on the same combination (in their previous
+ * key order). The returned child's `variantKey` is overwritten with `variantKey`.
+ */
+export type ChildMergeStrategy<TChild extends ChildVariant> = (
+  children: TChild[],
+  variantKey: string
+) => TChild;
+
+/**
+ * Default merge strategy: keeps the first child's fields (SKU, title, images...),
+ * sums `stock` and keeps the first known `cost`. `stock` stays null if no child has one.
+ */
+export function mergeChildVariants<TChild extends ChildVariant>(
+  children: TChild[],
+  variantKey: string
+): TChild {
+  const stocks = children
+    .map((c) => c.stock)
+    .filter((s): s is number => typeof s === "number");
+  const cost = children.find((c) => typeof c.cost === "number")?.cost;
+  return {
+    ...children[0],
+    variantKey,
+    stock: stocks.length ? stocks.reduce((a, b) => a + b, 0) : children[0]?.stock ?? null,
+    cost: cost ?? children[0]?.cost ?? null,
+  };
+}
+
+export type ReconcileRenames = {
+  /** Old type value -> new type value */
+  types?: Record<string, string>;
+  /** Old type value -> (old option value -> new option value) */
+  options?: Record<string, Record<string, string>>;
+};
+
+/** How an old option was mapped to a new one */
+export type OptionMatchKind = "exact" | "renamed" | "position" | "fuzzy";
+
+export type ReconcileReportEntry<TChild extends ChildVariant> = {
+  /** The resulting child for matched/renamed/created entries, the old child otherwise */
+  child: TChild;
+  /** Key of the existing child (not set for created children) */
+  previousKey?: string;
+  /** Key in the new combination list (not set for dropped children) */
+  variantKey?: string;
+  /** Human-readable explanation, e.g. `Color "Grey" -> "Gray" (renamed)` */
+  reason: string;
+};
+
+export type ReconcileReport<TChild extends ChildVariant> = {
+  /** Existing children carried over unchanged apart from their key */
+  matched: ReconcileReportEntry<TChild>[];
+  /** Existing children carried over through a rename, a position or fuzzy match, or an added/removed type */
+  renamed: ReconcileReportEntry<TChild>[];
+  /** New combinations without an existing child */
+  created: ReconcileReportEntry<TChild>[];
+  /** Existing children that map to no new combination */
+  dropped: ReconcileReportEntry<TChild>[];
+  /** Existing children with more than one possible target, or competing for one */
+  ambiguous: ReconcileReportEntry<TChild>[];
+  /** Existing children fanned out to several combinations because a type was added */
+  split: { child: TChild; previousKey: string; variantKeys: string[] }[];
+  /** Combinations that several existing children collapsed into because a type was removed */
+  merged: { child: TChild; previousKeys: string[]; variantKey: string }[];
 };
 
 export type ReconcileChildVariantsResult<TChild extends ChildVariant> = {
   children: TChild[];
-  /** Existing children that could not be mapped to a new combination */
+  /** Existing children that could not be mapped to a new combination (dropped or ambiguous) */
   dropped: TChild[];
+  report: ReconcileReport<TChild>;
 };
 
-function toSignature(
-  optionValues: readonly string[],
-  caseInsensitive: boolean,
-  trim: boolean
-): string {
-  const normalize = (s: string) => {
-    const x = trim ? s.trim() : s;
-    return caseInsensitive ? x.toLowerCase() : x;
-  };
-  // Use a delimiter unlikely to appear in human-entered option values.
-  return optionValues.map((v) => normalize(v)).join("\u0001");
+type OptionMatch = {
+  /** 0-based option index in the new type, -1 if unmatched */
+  index: number;
+  kind?: OptionMatchKind;
+  /** Equally similar new option values when a fuzzy match is ambiguous */
+  candidates?: string[];
+};
+
+/** Option values a per-type value stands for, for reconcile reports */
+function describeSelection(variantType: VariantType, index: number): string {
+  return selectedOptionIndices(variantType, index)
+    .map((oi) => variantType.variantOptions[oi - 1].value)
+    .join(MULTI_SELECT_LABEL_SEPARATOR);
+}
+
+/** 1 - (edit distance / length of the longer string) */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row.push(Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost));
+    }
+    prev = row;
+  }
+  return 1 - prev[b.length] / longest;
 }
 
 /**
  * Reconciles variants across variant type/option changes by matching combinations
  * using option values (not old 1-based indices). This preserves SKUs/prices/etc
- * even if options are re-ordered or inserted.
+ * even if options are re-ordered or inserted, and across renames given in
+ * `renames` or recovered through the `position`/`fuzzy` fallbacks.
+ *
+ * Types are matched by (renamed) value, then leftover types by position. Types
+ * still unmatched were added or removed: see `onTypeAdded` and `mergeStrategy`.
  */
 export function reconcileChildVariants<
   TChild extends ChildVariant = ChildVariant
@@ -453,27 +1107,298 @@ export function reconcileChildVariants<
     existing = [],
     createDefault,
     labelSeparator = " - ",
-    keySeparator = "-",
+    keySeparator,
+    keyScheme,
     filterInvalidTitles = true,
     caseInsensitiveMatch = false,
     trimMatch = true,
+    matchBy = "value",
+    renames = {},
+    fallback = "none",
+    fuzzyThreshold = 0.7,
+    onTypeAdded = "default",
+    defaultOptions = {},
+    splitStrategy = (child, variantKeys) => variantKeys.map(() => child),
+    mergeStrategy = mergeChildVariants,
   } = options;
 
-  const previousBySignature = new Map<string, TChild>();
-  for (const child of existing) {
-    const values = variantKeyToValues(
-      child.variantKey,
-      previousVariantTypes,
-      keySeparator
+  const normalize = (s: string) => {
+    const x = trimMatch ? s.trim() : s;
+    return caseInsensitiveMatch ? x.toLowerCase() : x;
+  };
+  const findRename = (map: Record<string, string> | undefined, from: string) => {
+    if (!map) return undefined;
+    const key = Object.keys(map).find((k) => normalize(k) === normalize(from));
+    return key === undefined ? undefined : map[key];
+  };
+  const matchKey = (entry: { value: string; id?: string }) =>
+    normalize(matchBy === "id" ? entry.id ?? entry.value : entry.value);
+
+  // 1. Types: by (renamed) value or id, then leftovers by position.
+  const typeMap: number[] = previousVariantTypes.map(() => -1);
+  const typeTaken = new Set<number>();
+  previousVariantTypes.forEach((t, ti) => {
+    const renamed = findRename(renames.types, t.value);
+    const wanted = renamed !== undefined ? normalize(renamed) : matchKey(t);
+    const tj = nextVariantTypes.findIndex(
+      (n, j) =>
+        !typeTaken.has(j) &&
+        (renamed !== undefined ? normalize(n.value) : matchKey(n)) === wanted
+    );
+    if (tj >= 0) {
+      typeMap[ti] = tj;
+      typeTaken.add(tj);
+    }
+  });
+  previousVariantTypes.forEach((_, ti) => {
+    if (typeMap[ti] < 0 && ti < nextVariantTypes.length && !typeTaken.has(ti)) {
+      typeMap[ti] = ti;
+      typeTaken.add(ti);
+    }
+  });
+
+  // 2. Options per matched type pair.
+  const optionMaps: OptionMatch[][] = previousVariantTypes.map((t, ti) => {
+    const prevOptions = t.variantOptions ?? [];
+    const matches: OptionMatch[] = prevOptions.map(() => ({ index: -1 }));
+    if (typeMap[ti] < 0) return matches;
+
+    const nextOptions = nextVariantTypes[typeMap[ti]].variantOptions ?? [];
+    const taken = new Set<number>();
+    const optionRenames = renames.options
+      ? Object.entries(renames.options).find(([k]) => normalize(k) === normalize(t.value))?.[1]
+      : undefined;
+
+    prevOptions.forEach((o, oi) => {
+      const renamed = findRename(optionRenames, o.value);
+      const wanted = renamed !== undefined ? normalize(renamed) : matchKey(o);
+      // Explicit renames may merge several options into one.
+      const oj = nextOptions.findIndex((n, j) =>
+        renamed !== undefined
+          ? normalize(n.value) === wanted
+          : !taken.has(j) && matchKey(n) === wanted
+      );
+      if (oj < 0) return;
+      matches[oi] = { index: oj, kind: renamed !== undefined ? "renamed" : "exact" };
+      taken.add(oj);
+    });
+
+    if (fallback === "position") {
+      prevOptions.forEach((_, oi) => {
+        if (matches[oi].index >= 0 || oi >= nextOptions.length || taken.has(oi)) return;
+        matches[oi] = { index: oi, kind: "position" };
+        taken.add(oi);
+      });
+    } else if (fallback === "fuzzy") {
+      prevOptions.forEach((o, oi) => {
+        if (matches[oi].index >= 0) return;
+        let best = fuzzyThreshold;
+        let bestIndices: number[] = [];
+        nextOptions.forEach((n, j) => {
+          if (taken.has(j)) return;
+          const score = similarity(normalize(o.value), normalize(n.value));
+          if (score > best) {
+            best = score;
+            bestIndices = [j];
+          } else if (score === best) {
+            bestIndices.push(j);
+          }
+        });
+        if (bestIndices.length === 1) {
+          matches[oi] = { index: bestIndices[0], kind: "fuzzy" };
+          taken.add(bestIndices[0]);
+        } else if (bestIndices.length > 1) {
+          matches[oi] = {
+            index: -1,
+            candidates: bestIndices.map((j) => nextOptions[j].value),
+          };
+        }
+      });
+    }
+    return matches;
+  });
+
+  const previousCodec = createVariantKeyCodec(previousVariantTypes, { keyScheme, keySeparator });
+  const nextCodec = createVariantKeyCodec(nextVariantTypes, { keyScheme, keySeparator });
+
+  const report: ReconcileReport<TChild> = {
+    matched: [],
+    renamed: [],
+    created: [],
+    dropped: [],
+    ambiguous: [],
+    split: [],
+    merged: [],
+  };
+
+  // Types only on one side: removed types collapse children, added ones fan out or default.
+  const addedTypes = nextVariantTypes
+    .map((t, tj) => ({ t, tj }))
+    .filter(({ tj }) => !typeTaken.has(tj));
+  const addedChoices = addedTypes.map(({ t, tj }) => {
+    const count = t.variantOptions?.length ?? 0;
+    const wanted = defaultOptions[t.value];
+    const preferred = t.variantOptions.findIndex(
+      (o) => wanted !== undefined && normalize(o.value) === normalize(wanted)
     );
-    const sig = toSignature(values, caseInsensitiveMatch, trimMatch);
-    // First wins; if you have duplicates, callers should resolve upstream.
-    if (!previousBySignature.has(sig)) previousBySignature.set(sig, child);
+    // Optional types default to nothing selected
+    const choices =
+      onTypeAdded === "fan-out"
+        ? getSelectionChoices(t)
+        : count > 0
+          ? [preferred >= 0 ? toSelectionIndex(t, [preferred + 1]) : getSelectionChoices(t)[0]]
+          : [];
+    return { t, tj, choices };
+  });
+
+  // 3. Map every existing child to its new key(s).
+  type Mapped = {
+    child: TChild;
+    previousKey: string;
+    changes: string[];
+    /** Previous option indices of the types that still exist */
+    kept: string;
+  };
+  const byNextKey = new Map<string, Mapped[]>();
+  const splitKeys = new Map<TChild, string[]>();
+
+  for (const child of existing) {
+    const previousKey = child.variantKey;
+    const drop = (reason: string) => report.dropped.push({ child, previousKey, reason });
+
+    const indices = previousCodec.parse(previousKey);
+    const resolves =
+      indices.length === previousVariantTypes.length &&
+      indices.every((idx, ti) => isSelectionIndex(previousVariantTypes[ti], idx));
+    if (!resolves) {
+      drop(`Key "${previousKey}" doesn't match the previous variant types.`);
+      continue;
+    }
+
+    const nextIndices: number[] = new Array(nextVariantTypes.length).fill(0);
+    const changes: string[] = [];
+    let problem: ReconcileReportEntry<TChild> | undefined;
+    let ambiguous = false;
+
+    previousVariantTypes.forEach((t, ti) => {
+      if (problem) return;
+      const tj = typeMap[ti];
+      const selected = selectedOptionIndices(t, indices[ti]);
+      if (tj < 0) {
+        changes.push(`Removed type "${t.value}" ("${describeSelection(t, indices[ti])}")`);
+        return;
+      }
+      const nextType = nextVariantTypes[tj];
+      if (nextType.value !== t.value) {
+        changes.push(`Type "${t.value}" -> "${nextType.value}"`);
+      }
+
+      // Every option of a multi-selection is matched on its own.
+      const picked: number[] = [];
+      for (const oi of selected) {
+        const option = t.variantOptions[oi - 1];
+        const match = optionMaps[ti][oi - 1];
+        if (match.index < 0) {
+          ambiguous = match.candidates !== undefined;
+          problem = {
+            child,
+            previousKey,
+            reason: match.candidates
+              ? `Option "${option.value}" of type "${t.value}" is equally similar to ${match.candidates.map((c) => `"${c}"`).join(", ")}.`
+              : `Option "${option.value}" of type "${t.value}" has no match in "${nextType.value}".`,
+          };
+          return;
+        }
+
+        picked.push(match.index + 1);
+        const nextOption = nextType.variantOptions[match.index];
+        if (match.kind !== "exact" || nextOption.value !== option.value) {
+          changes.push(`${nextType.value} "${option.value}" -> "${nextOption.value}" (${match.kind})`);
+        }
+      }
+      nextIndices[tj] = toSelectionIndex(nextType, picked);
+    });
+
+    if (problem) {
+      (ambiguous ? report.ambiguous : report.dropped).push(problem);
+      continue;
+    }
+
+    const emptyAdded = addedChoices.find((a) => a.choices.length === 0);
+    if (emptyAdded) {
+      drop(`Added variant type "${emptyAdded.t.value}" has no options.`);
+      continue;
+    }
+
+    const kept = indices.filter((_, ti) => typeMap[ti] >= 0).join(",");
+    const targets: { indices: number[]; changes: string[] }[] = [
+      { indices: nextIndices, changes },
+    ];
+    for (const { t, tj, choices } of addedChoices) {
+      const expanded = targets.flatMap((target) =>
+        choices.map((oi) => {
+          const next = target.indices.slice();
+          next[tj] = oi;
+          return {
+            indices: next,
+            changes: [...target.changes, `Added type "${t.value}" ("${describeSelection(t, oi)}")`],
+          };
+        })
+      );
+      targets.splice(0, targets.length, ...expanded);
+    }
+
+    for (const target of targets) {
+      const variantKey = nextCodec.format(target.indices);
+      const list = byNextKey.get(variantKey) ?? [];
+      list.push({ child, previousKey, changes: target.changes, kept });
+      byNextKey.set(variantKey, list);
+    }
+    if (targets.length > 1) {
+      splitKeys.set(
+        child,
+        targets.map((target) => nextCodec.format(target.indices))
+      );
+    }
+  }
+
+  // Several children on one key: those that only differed in removed types
+  // are merged, anything else (e.g. two options renamed into one) is ambiguous.
+  const resolved = new Map<string, { mapped: Mapped; sources: Mapped[] }>();
+  for (const [variantKey, list] of byNextKey.entries()) {
+    const [first] = list;
+    const sources = list.filter((m) => m.kept === first.kept);
+    for (const m of list) {
+      if (m.kept === first.kept) continue;
+      report.ambiguous.push({
+        child: m.child,
+        previousKey: m.previousKey,
+        variantKey,
+        reason: `Maps to the same combination as "${first.previousKey}", which was kept.`,
+      });
+    }
+    resolved.set(variantKey, { mapped: first, sources });
   }
 
-  const usedSignatures = new Set<string>();
+  // Split children get their copies in one call, one per new key.
+  const splitCopies = new Map<TChild, Map<string, TChild>>();
+  for (const [child, variantKeys] of splitKeys.entries()) {
+    const copies = splitStrategy(child, variantKeys);
+    splitCopies.set(
+      child,
+      new Map(variantKeys.map((variantKey, i) => [variantKey, copies[i] ?? child]))
+    );
+    report.split.push({ child, previousKey: child.variantKey, variantKeys });
+  }
+  const carried = (m: Mapped, variantKey: string): TChild => {
+    const copy = splitCopies.get(m.child)?.get(variantKey);
+    // Preserve all existing fields but update variantKey to the new key.
+    return { ...(copy ?? m.child), variantKey };
+  };
 
-  const nextChildren = generateChildVariants<TChild>(nextVariantTypes, {
+  // 4. Generate the new combinations and carry existing children over.
+  const usedKeys = new Set<string>();
+  const children = generateChildVariants<TChild>(nextVariantTypes, {
     existing: [],
     createDefault: (variantKey) => {
       if (createDefault) return createDefault(variantKey);
@@ -488,34 +1413,79 @@ export function reconcileChildVariants<
     },
     filterInvalidTitles,
     labelSeparator,
-    keySeparator,
+    keySeparator: nextCodec.keySeparator,
+    keyScheme,
   }).map((child) => {
-    const values = variantKeyToValues(
-      child.variantKey,
-      nextVariantTypes,
-      keySeparator
-    );
-    const sig = toSignature(values, caseInsensitiveMatch, trimMatch);
-    const prev = previousBySignature.get(sig);
-    if (!prev) return child;
+    const prev = resolved.get(child.variantKey);
+    if (!prev) {
+      report.created.push({ child, variantKey: child.variantKey, reason: "New combination." });
+      return child;
+    }
 
-    usedSignatures.add(sig);
-    // Preserve all existing fields but update variantKey to the new indices.
-    return { ...(prev as any), variantKey: child.variantKey } as TChild;
-  });
+    usedKeys.add(child.variantKey);
+    const { mapped, sources } = prev;
+    if (sources.length > 1) {
+      const merged: TChild = {
+        ...mergeStrategy(
+          sources.map((m) => carried(m, child.variantKey)),
+          child.variantKey
+        ),
+        variantKey: child.variantKey,
+      };
+      report.merged.push({
+        child: merged,
+        previousKeys: sources.map((m) => m.previousKey),
+        variantKey: child.variantKey,
+      });
+      return merged;
+    }
 
-  const dropped = existing.filter((child) => {
-    const values = variantKeyToValues(
-      child.variantKey,
-      previousVariantTypes,
-      keySeparator
-    );
-    const sig = toSignature(values, caseInsensitiveMatch, trimMatch);
-    return !usedSignatures.has(sig);
+    const next = carried(mapped, child.variantKey);
+    const entry = {
+      child: next,
+      previousKey: mapped.previousKey,
+      variantKey: child.variantKey,
+      reason: mapped.changes.length ? mapped.changes.join("; ") : "Same options.",
+    };
+    (mapped.changes.length ? report.renamed : report.matched).push(entry);
+    return next;
   });
 
-  return { children: nextChildren, dropped };
+  const reported = new Set<TChild>();
+  for (const [variantKey, { sources }] of resolved.entries()) {
+    if (usedKeys.has(variantKey)) continue;
+    for (const m of sources) {
+      // A split child is only dropped if none of its copies survived.
+      const keys = splitKeys.get(m.child);
+      if (keys && keys.some((k) => usedKeys.has(k))) continue;
+      if (reported.has(m.child)) continue;
+      reported.add(m.child);
+      report.dropped.push({
+        child: m.child,
+        previousKey: m.previousKey,
+        reason: `Combination "${variantKey}" is no longer generated.`,
+      });
+    }
+  }
+
+  const lost = new Set([...report.dropped, ...report.ambiguous].map((e) => e.child));
+  const dropped = existing.filter((child) => lost.has(child));
+
+  return { children, dropped, report };
 }
 
 export * from "./constraints";
 export * from "./modifiers";
+export * from "./solver";
+export * from "./compiler";
+export * from "./analysis";
+export * from "./explain";
+export * from "./keys";
+export * from "./money";
+export * from "./expression";
+export * from "./templates";
+export * from "./configurator";
+export * from "./suggestions";
+export * from "./bom";
+export * from "./availability";
+export * from "./config";
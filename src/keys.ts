@@ -0,0 +1,219 @@
+import type { ChildVariant, VariantOption, VariantType } from "./index";
+import { getSelectionMode, isSelectionIndex, parseVariantKey, selectedOptionIndices, toSelectionIndex, toVariantKey } from "./index";
+
+/**
+ * How a `variantKey` encodes the selected option of each type:
+ * - `index`: 1-based option positions, e.g. "1-2" (the default everywhere)
+ * - `id`: option ids, e.g. "c-red|s-m"; options without an `id` use their value
+ * - `hash`: a short hash of each option value, e.g. "3a2b91c0-5f0e77d2"
+ *
+ * `id` and `hash` keys don't change when options are inserted or reordered.
+ *
+ * Several options of a `multi` type are joined with "+" ("1+3", "acc-case+acc-strap").
+ * An optional or multi-select type with nothing selected is "0" in `index`
+ * keys and an empty segment otherwise.
+ */
+export type VariantKeyScheme = "index" | "id" | "hash";
+
+export type VariantKeyFormat = {
+  /** Defaults to "index" */
+  keyScheme?: VariantKeyScheme;
+  /**
+   * Separator between the per-type segments. Defaults to "|" for `id` keys
+   * (ids often contain dashes) and "-" otherwise.
+   */
+  keySeparator?: string;
+};
+
+/**
+ * Formats, parses and orders `variantKey`s of one scheme against fixed variant types.
+ */
+export type VariantKeyCodec = {
+  keyScheme: VariantKeyScheme;
+  keySeparator: string;
+  /** Like `toVariantKey`; out-of-range indices become empty segments (or stay as-is for `index` keys) */
+  format(indices1Based: readonly number[]): string;
+  /**
+   * Like `parseVariantKey`; segments that match no option become 0, or -1 for
+   * optional and multi-select types (where 0 means nothing is selected)
+   */
+  parse(variantKey: string): number[];
+  /** Like `sortVariantKeysAsc`: orders keys the way generation yields them */
+  compare(a: string, b: string): number;
+};
+
+/** Joins the segments of the options a `multi` type has selected */
+const MULTI_SEGMENT_SEPARATOR = "+";
+
+export type ConvertVariantKeyOptions = {
+  /** Format of the given key (defaults to positional "-" keys) */
+  from?: VariantKeyFormat;
+  to: VariantKeyFormat;
+};
+
+export type MigrateVariantKeysResult<TChild extends ChildVariant> = {
+  /** Children whose key could be converted, with `variantKey` in the new format */
+  children: TChild[];
+  /** Children whose key doesn't resolve against the variant types, unchanged */
+  unresolved: TChild[];
+};
+
+/** FNV-1a (32 bit) as 8 hex digits */
+function hashValue(value: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+function optionSegment(option: VariantOption, keyScheme: VariantKeyScheme): string {
+  return keyScheme === "id" ? option.id ?? option.value : hashValue(option.value);
+}
+
+function compareIndices(ak: readonly number[], bk: readonly number[]): number {
+  const len = Math.max(ak.length, bk.length);
+  for (let i = 0; i < len; i++) {
+    const av = ak[i] ?? 0;
+    const bv = bk[i] ?? 0;
+    if (av !== bv) return av - bv;
+  }
+  return 0;
+}
+
+/**
+ * Creates a codec for `variantKey`s in the given scheme. Lookup tables are
+ * built once, so prefer one codec over repeated `convertVariantKey` calls.
+ */
+export function createVariantKeyCodec(
+  variantTypes: readonly VariantType[],
+  format: VariantKeyFormat = {}
+): VariantKeyCodec {
+  const { keyScheme = "index" } = format;
+  const keySeparator = format.keySeparator ?? (keyScheme === "id" ? "|" : "-");
+  const optional = variantTypes.map((t) => getSelectionMode(t) !== "single");
+
+  if (keyScheme === "index" && optional.every((o) => !o)) {
+    return {
+      keyScheme,
+      keySeparator,
+      format: (indices1Based) => toVariantKey(indices1Based, keySeparator),
+      parse: (variantKey) => parseVariantKey(variantKey, keySeparator),
+      compare: (a, b) =>
+        compareIndices(parseVariantKey(a, keySeparator), parseVariantKey(b, keySeparator)),
+    };
+  }
+
+  if (keyScheme === "index") {
+    const formatSegment = (idx: number, ti: number) => {
+      if (getSelectionMode(variantTypes[ti]) !== "multi") return String(idx);
+      const selected = selectedOptionIndices(variantTypes[ti], idx);
+      return selected.length > 0 ? selected.join(MULTI_SEGMENT_SEPARATOR) : "0";
+    };
+    const parseSegment = (segment: string, ti: number) => {
+      const numbers = segment.split(MULTI_SEGMENT_SEPARATOR).map(Number);
+      if (!numbers.every(Number.isInteger)) return optional[ti] ? -1 : 0;
+      return getSelectionMode(variantTypes[ti]) === "multi"
+        ? toSelectionIndex(variantTypes[ti], numbers)
+        : numbers[0];
+    };
+    const parse = (variantKey: string): number[] =>
+      variantKey ? variantKey.split(keySeparator).map(parseSegment) : [];
+    return {
+      keyScheme,
+      keySeparator,
+      format: (indices1Based) => indices1Based.map(formatSegment).join(keySeparator),
+      parse,
+      compare: (a, b) => compareIndices(parse(a), parse(b)),
+    };
+  }
+
+  const segments = variantTypes.map((t) =>
+    (t.variantOptions ?? []).map((o) => optionSegment(o, keyScheme))
+  );
+  // First option wins when segments collide (duplicate values or ids).
+  const indexBySegment = segments.map((list) => {
+    const map = new Map<string, number>();
+    list.forEach((s, oi) => {
+      if (!map.has(s)) map.set(s, oi + 1);
+    });
+    return map;
+  });
+
+  const parseSegment = (segment: string, ti: number): number => {
+    if (!optional[ti]) return indexBySegment[ti]?.get(segment) ?? 0;
+    if (segment === "") return 0;
+    const indices = segment.split(MULTI_SEGMENT_SEPARATOR).map((s) => indexBySegment[ti]?.get(s));
+    if (indices.some((idx) => idx === undefined)) return -1;
+    return toSelectionIndex(variantTypes[ti], indices as number[]);
+  };
+
+  const parse = (variantKey: string): number[] => {
+    if (!variantKey) return [];
+    return variantKey.split(keySeparator).map(parseSegment);
+  };
+
+  const formatSegment = (idx: number, ti: number) => {
+    if (!optional[ti]) return segments[ti]?.[idx - 1] ?? "";
+    return selectedOptionIndices(variantTypes[ti], idx)
+      .map((oi) => segments[ti][oi - 1])
+      .join(MULTI_SEGMENT_SEPARATOR);
+  };
+
+  return {
+    keyScheme,
+    keySeparator,
+    format: (indices1Based) => indices1Based.map(formatSegment).join(keySeparator),
+    parse,
+    compare: (a, b) => compareIndices(parse(a), parse(b)),
+  };
+}
+
+/**
+ * Converts a `variantKey` between schemes, e.g. a stored positional key to an id key.
+ * Returns null when a segment doesn't resolve to an option of its type.
+ */
+export function convertVariantKey(
+  variantKey: string,
+  variantTypes: readonly VariantType[],
+  options: ConvertVariantKeyOptions
+): string | null {
+  const from = createVariantKeyCodec(variantTypes, options.from);
+  const to = createVariantKeyCodec(variantTypes, options.to);
+  return convertWith(variantKey, variantTypes, from, to);
+}
+
+function convertWith(
+  variantKey: string,
+  variantTypes: readonly VariantType[],
+  from: VariantKeyCodec,
+  to: VariantKeyCodec
+): string | null {
+  const indices = from.parse(variantKey);
+  if (indices.length !== variantTypes.length) return null;
+  const resolves = indices.every((idx, ti) => isSelectionIndex(variantTypes[ti], idx));
+  return resolves ? to.format(indices) : null;
+}
+
+/**
+ * Rewrites the `variantKey` of stored children from one scheme to another
+ * (by default from positional keys), keeping every other field.
+ */
+export function migrateVariantKeys<TChild extends ChildVariant = ChildVariant>(
+  children: readonly TChild[],
+  variantTypes: readonly VariantType[],
+  options: ConvertVariantKeyOptions
+): MigrateVariantKeysResult<TChild> {
+  const from = createVariantKeyCodec(variantTypes, options.from);
+  const to = createVariantKeyCodec(variantTypes, options.to);
+
+  const migrated: TChild[] = [];
+  const unresolved: TChild[] = [];
+  for (const child of children) {
+    const variantKey = convertWith(child.variantKey, variantTypes, from, to);
+    if (variantKey === null) unresolved.push(child);
+    else migrated.push({ ...child, variantKey });
+  }
+  return { children: migrated, unresolved };
+}
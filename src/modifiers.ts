@@ -1,88 +1,480 @@
 import type { ChildVariant, VariantSelectionItem } from "./index";
 import { isConditionMet } from "./constraints";
-import type { LogicCondition } from "./constraints";
+import type { EvaluationContext, LogicCondition } from "./constraints";
+import {
+    addDecimals,
+    decimalToNumber,
+    multiplyDecimals,
+    parseDecimal,
+    resolveMoneyScale,
+    roundDecimal,
+    roundDecimalToStep,
+} from "./money";
+import type { ExactDecimal, MoneyOptions } from "./money";
+import { evaluateExpression } from "./expression";
+import type { ExpressionError } from "./expression";
 
-export type ModifierOperation = "add" | "subtract" | "multiply" | "set";
+/**
+ * Every operation an action can use. Which ones a field accepts depends on its type:
+ * - numbers: add, subtract, multiply, set, round (`round` rounds to the nearest multiple of `value`, e.g. 0.05)
+ * - strings: set, append, add (same as append)
+ * - booleans: set, toggle
+ * - arrays (e.g. `imageIds`): append, remove (one element or several), set
+ * - anything else: set
+ */
+export type ModifierOperation =
+    | "add"
+    | "subtract"
+    | "multiply"
+    | "set"
+    | "round"
+    | "append"
+    | "remove"
+    | "toggle";
+
+export type NumberFieldOperation = "add" | "subtract" | "multiply" | "set" | "round";
+export type StringFieldOperation = "set" | "append" | "add";
+export type BooleanFieldOperation = "set" | "toggle";
+export type ArrayFieldOperation = "append" | "remove" | "set";
+
+/** The operations and values allowed for a field of type `TValue` */
+export type FieldActionShape<TValue> = [NonNullable<TValue>] extends [never]
+    ? { operation: "set"; value?: null }
+    : [NonNullable<TValue>] extends [number]
+      ? { operation: NumberFieldOperation; value?: number }
+      : [NonNullable<TValue>] extends [string]
+        ? { operation: "set" | "add"; value?: string | number } | { operation: "append"; value?: string }
+        : [NonNullable<TValue>] extends [boolean]
+          ? { operation: "set"; value?: boolean } | { operation: "toggle"; value?: never }
+          : [NonNullable<TValue>] extends [readonly (infer TElement)[]]
+            ? { operation: "append" | "remove"; value?: TElement | TElement[] } | { operation: "set"; value?: TElement[] }
+            : { operation: "set"; value?: TValue };
+
+type FieldAction<TField extends string, TValue> = FieldActionShape<TValue> & {
+    /** The field to modify (e.g. 'cost', 'sku', or a custom field such as 'weight') */
+    field: TField;
+    /**
+     * Computes the value from the child and the selection instead of `value`, e.g.
+     * `base.cost * 1.1 + weight * 0.5` or `"{Model}-{RAM}-{Storage}"` (see `Expression`).
+     * Usually combined with "set".
+     */
+    expression?: string;
+};
+
+/**
+ * One change of a modifier. Typed per field of `TChild`, so operations that
+ * don't fit a field (e.g. `multiply` on `sku`) are rejected at compile time.
+ * `value` is required unless `expression` is set (or the operation is `toggle`).
+ */
+export type ModifierAction<TChild extends ChildVariant = ChildVariant> = {
+    [K in keyof TChild & string]-?: FieldAction<K, TChild[K]>;
+}[keyof TChild & string];
+
+/**
+ * Stages modifiers run in, in this order:
+ * base (e.g. "set price 800") -> surcharge ("+100") -> multiplier ("x1.2")
+ * -> rounding -> override (final "set" that wins over everything).
+ */
+export type ModifierPhase = "base" | "surcharge" | "multiplier" | "rounding" | "override";
 
-export type VariantModifier = {
+export const MODIFIER_PHASES: readonly ModifierPhase[] = [
+    "base",
+    "surcharge",
+    "multiplier",
+    "rounding",
+    "override",
+];
+
+type VariantModifierSettings = {
     id: string;
     description?: string;
+    /** Defaults to "surcharge" */
+    phase?: ModifierPhase;
+    /** Within a phase, higher priorities run first. Defaults to 0. */
+    priority?: number;
+    /** If this modifier applies, no modifier after it runs (in any phase) */
+    stop?: boolean;
+    /**
+     * If this modifier applies, the other modifiers of its phase are skipped.
+     * When several exclusive modifiers apply, only the first one in order runs.
+     */
+    exclusive?: boolean;
     /**
      * The condition that triggers this modifier.
      * Can be a simple check or recursive logic.
      */
     if: LogicCondition;
+};
+
+/**
+ * A rule that changes fields of a child when its condition holds.
+ * `TChild` types the fields it may touch, e.g. `VariantModifier<MyChild>` for custom
+ * fields such as `weight` or `tags`. (Written as an intersection so that modifiers
+ * for `ChildVariant` are accepted wherever modifiers for a wider child type are.)
+ */
+export type VariantModifier<TChild extends ChildVariant = ChildVariant> = VariantModifierSettings & {
     /**
      * The changes to apply to the variant fields.
      */
-    then: {
-        /** The field on ChildVariant to modify (e.g. 'cost', 'weight', 'sku') */
-        field: keyof ChildVariant & string; // restrict to string keys for safety
-        operation: ModifierOperation;
-        value: string | number;
-    }[];
+    then: ModifierAction<TChild>[];
 };
 
 /**
- * Applies a list of modifiers to a base product configuration
- * based on the user's current selection.
- *
- * @param baseProduct The starting state of the product variant (e.g. base price)
- * @param selection The current options selected by the user
- * @param modifiers The list of rules to apply
+ * Returns modifiers in the order `applyModifiers` runs them:
+ * by phase (see `MODIFIER_PHASES`), then by descending priority. Modifiers
+ * with the same phase and priority keep their order in the list.
  */
-export function applyModifiers<TChild extends ChildVariant>(
+export function sortModifiers<TChild extends ChildVariant = ChildVariant>(
+    modifiers: readonly VariantModifier<TChild>[]
+): VariantModifier<TChild>[] {
+    const phaseRank = (m: VariantModifier<TChild>) => MODIFIER_PHASES.indexOf(m.phase ?? "surcharge");
+    // Array sort is stable, so ties keep their list order
+    return [...modifiers].sort((a, b) => phaseRank(a) - phaseRank(b) || (b.priority ?? 0) - (a.priority ?? 0));
+}
+
+/**
+ * Returns the modifiers that take effect for `selection` (and `context`), in
+ * application order, after `exclusive` and `stop` flags are resolved.
+ */
+export function resolveModifiers<TChild extends ChildVariant = ChildVariant>(
+    selection: VariantSelectionItem[],
+    modifiers: readonly VariantModifier<TChild>[],
+    context?: EvaluationContext
+): VariantModifier<TChild>[] {
+    const matching = sortModifiers(modifiers).filter((m) => isConditionMet(selection, m.if, context));
+
+    const applied: VariantModifier<TChild>[] = [];
+    for (const phase of MODIFIER_PHASES) {
+        const inPhase = matching.filter((m) => (m.phase ?? "surcharge") === phase);
+        const exclusive = inPhase.find((m) => m.exclusive);
+        for (const mod of exclusive ? [exclusive] : inPhase) {
+            applied.push(mod);
+            if (mod.stop) return applied;
+        }
+    }
+    return applied;
+}
+
+/** What the engine sees of an action, whatever the field's type */
+type UntypedAction = {
+    field: string;
+    operation: ModifierOperation;
+    value?: unknown;
+    expression?: string;
+};
+
+/**
+ * What happened to a modifier (or one of its actions) in `traceModifiers`:
+ * - `applied`: the action changed (or set) its field
+ * - `condition-not-met`: the modifier's `if` is false for the selection
+ * - `excluded`: an `exclusive` modifier of the same phase applied instead
+ * - `stopped`: an earlier modifier with `stop` applied
+ * - `unsupported`: the operation doesn't fit the field's current value (e.g. multiplying a string),
+ *   or the action's expression failed
+ */
+export type ModifierStepStatus =
+    | "applied"
+    | "condition-not-met"
+    | "excluded"
+    | "stopped"
+    | "unsupported";
+
+export type ModifierTraceStep<TChild extends ChildVariant = ChildVariant> = {
+    modifierId: string;
+    description?: string;
+    phase: ModifierPhase;
+    status: ModifierStepStatus;
+    /** Set for `applied` and `unsupported` steps, one step per action */
+    action?: ModifierAction<TChild>;
+    /** Field value before the action (`applied`/`unsupported` steps only) */
+    before?: unknown;
+    /** Field value after the action (`applied` steps only) */
+    after?: unknown;
+    /** Why the action's expression failed (`unsupported` steps only) */
+    error?: ExpressionError;
+};
+
+/**
+ * Money-safe mode: the listed fields are computed as exact decimals and
+ * rounded to the money scale, so `multiply 1.2` on 19.99 gives 23.99 (not 23.988000000000003).
+ */
+export type MoneyModeOptions = MoneyOptions & {
+    /** Fields holding money amounts. Defaults to ["cost"]. Fields that are NaN or Infinity are left as is. */
+    fields?: string[];
+    /** If "minor", the fields hold integer minor units (1999 for 19.99) on input and output */
+    unit?: "major" | "minor";
+    /**
+     * When amounts are rounded to the scale: after every action (default),
+     * at the end of every phase, or only once at the end. Results are always rounded.
+     */
+    roundAt?: "action" | "phase" | "end";
+};
+
+export type ApplyModifiersOptions = {
+    money?: MoneyModeOptions;
+    /**
+     * Order and customer data that `ContextCondition`s (and `context.` in
+     * expressions) can test, e.g. `{ quantity: 12, customerGroup: "b2b" }`.
+     */
+    context?: EvaluationContext;
+};
+
+export type ModifierTrace<TChild extends ChildVariant> = {
+    /** Same as the return value of `applyModifiers` */
+    result: TChild;
+    /** One step per skipped modifier and per action of applied modifiers, in application order */
+    steps: ModifierTraceStep<TChild>[];
+};
+
+/**
+ * Applies one action to a field value.
+ * Returns undefined when the operation doesn't fit the current value.
+ */
+function applyAction(currentVal: unknown, action: UntypedAction): { value: unknown } | undefined {
+    const changeVal = action.value;
+    if (action.operation === "toggle") {
+        return currentVal == null || typeof currentVal === "boolean" ? { value: !currentVal } : undefined;
+    }
+    if (changeVal === undefined) return undefined;
+
+    // Handle numeric operations
+    if (typeof currentVal === "number" && typeof changeVal === "number") {
+        switch (action.operation) {
+            case "add":
+                return { value: currentVal + changeVal };
+            case "subtract":
+                return { value: currentVal - changeVal };
+            case "multiply":
+                return { value: currentVal * changeVal };
+            case "set":
+                return { value: changeVal };
+            case "round":
+                if (changeVal <= 0) return undefined;
+                // toFixed drops float noise such as 12.350000000000001
+                return { value: Number((Math.round(currentVal / changeVal) * changeVal).toFixed(10)) };
+        }
+    }
+    // Handle string operations (mostly append/set)
+    else if (typeof currentVal === "string") {
+        switch (action.operation) {
+            case "add":
+            case "append":
+                return { value: currentVal + String(changeVal) };
+            case "set":
+                return { value: String(changeVal) };
+            // Subtract/Multiply don't make much sense for strings, ignoring for safety
+        }
+    } else if (typeof currentVal === "boolean") {
+        if (action.operation === "set" && typeof changeVal === "boolean") return { value: changeVal };
+    }
+    // Arrays take one element or several
+    else if (Array.isArray(currentVal)) {
+        const items: unknown[] = Array.isArray(changeVal) ? changeVal : [changeVal];
+        switch (action.operation) {
+            case "append":
+                return { value: [...currentVal, ...items] };
+            case "remove":
+                return { value: currentVal.filter((v) => !items.includes(v)) };
+            case "set":
+                return Array.isArray(changeVal) ? { value: [...changeVal] } : undefined;
+        }
+    }
+    // Fallback or initialization (if field was null/undefined)
+    else if (currentVal == null) {
+        if (action.operation === "set" || action.operation === "add") {
+            return { value: changeVal };
+        }
+        // Without a current value, only strings tell a string field from an array field.
+        if (action.operation === "append") {
+            if (typeof changeVal === "string") return { value: changeVal };
+            return { value: Array.isArray(changeVal) ? [...changeVal] : [changeVal] };
+        }
+    } else if (action.operation === "set") {
+        return { value: changeVal };
+    }
+    return undefined;
+}
+
+/**
+ * Applies one action to an exact money amount (null if the field is empty).
+ * Returns undefined when the operation doesn't fit.
+ */
+function applyMoneyAction(
+    current: ExactDecimal | null,
+    action: UntypedAction,
+    money: MoneyModeOptions
+): ExactDecimal | undefined {
+    if (typeof action.value !== "number" || !Number.isFinite(action.value)) return undefined;
+    const parsed = parseDecimal(action.value);
+    // With minor units, amounts (but not factors) in actions are minor units too.
+    const change =
+        money.unit === "minor" && action.operation !== "multiply"
+            ? { digits: parsed.digits, scale: parsed.scale + resolveMoneyScale(money) }
+            : parsed;
+
+    if (current === null) {
+        return action.operation === "set" || action.operation === "add" ? change : undefined;
+    }
+    switch (action.operation) {
+        case "add":
+            return addDecimals(current, change);
+        case "subtract":
+            return addDecimals(current, { digits: -change.digits, scale: change.scale });
+        case "multiply":
+            return multiplyDecimals(current, parsed);
+        case "set":
+            return change;
+        case "round":
+            return roundDecimalToStep(current, change, money.rounding);
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Same as `applyModifiers`, plus a step-by-step record of what each modifier
+ * did (or why it was skipped), e.g. for price breakdowns on quotes.
+ */
+export function traceModifiers<TChild extends ChildVariant>(
     baseProduct: TChild,
     selection: VariantSelectionItem[],
-    modifiers: VariantModifier[]
-): TChild {
+    modifiers: readonly VariantModifier<NoInfer<TChild>>[],
+    options: ApplyModifiersOptions = {}
+): ModifierTrace<TChild> {
     // Clone to avoid mutating the original
     const result: any = { ...baseProduct };
+    const steps: ModifierTraceStep<TChild>[] = [];
+    const { money, context } = options;
+    const applied = new Set(resolveModifiers(selection, modifiers, context));
+    let stopped = false;
+
+    // Money fields are kept as exact decimals while modifiers run.
+    const moneyFields = new Set(money ? money.fields ?? ["cost"] : []);
+    const scale = resolveMoneyScale(money);
+    const minor = money?.unit === "minor";
+    const exact = new Map<string, ExactDecimal | null>();
+    // NaN or Infinity isn't an amount: the field is left as is and its actions are unsupported.
+    const broken = new Set<string>();
+    for (const field of moneyFields) {
+        const v = result[field];
+        if (typeof v === "number" && !Number.isFinite(v)) {
+            broken.add(field);
+        } else if (typeof v === "number") {
+            exact.set(field, minor ? { digits: BigInt(Math.round(v)), scale } : parseDecimal(v));
+        } else if (v == null) {
+            exact.set(field, null);
+        }
+    }
+    const toFieldValue = (d: ExactDecimal) => {
+        if (!minor) return decimalToNumber(d);
+        const padded = d.scale < scale ? roundDecimal(d, scale) : d;
+        return decimalToNumber({ digits: padded.digits, scale: padded.scale - scale });
+    };
+    const roundMoneyFields = () => {
+        for (const [field, d] of exact.entries()) {
+            if (!d) continue;
+            const rounded = roundDecimal(d, scale, money?.rounding);
+            exact.set(field, rounded);
+            result[field] = toFieldValue(rounded);
+        }
+    };
+
+    let phase: ModifierPhase | undefined;
+    for (const mod of sortModifiers(modifiers)) {
+        const modPhase = mod.phase ?? "surcharge";
+        if (money?.roundAt === "phase" && phase !== undefined && modPhase !== phase) {
+            roundMoneyFields();
+        }
+        phase = modPhase;
+
+        const step = {
+            modifierId: mod.id,
+            ...(mod.description !== undefined ? { description: mod.description } : {}),
+            phase: modPhase,
+        };
+
+        if (!isConditionMet(selection, mod.if, context)) {
+            steps.push({ ...step, status: "condition-not-met" });
+            continue;
+        }
+        if (stopped || !applied.has(mod)) {
+            steps.push({ ...step, status: stopped ? "stopped" : "excluded" });
+            continue;
+        }
 
-    for (const mod of modifiers) {
-        if (isConditionMet(selection, mod.if)) {
-            for (const action of mod.then) {
-                const currentVal = result[action.field];
-                const changeVal = action.value;
-
-                // Handle numeric operations
-                if (typeof currentVal === "number" && typeof changeVal === "number") {
-                    switch (action.operation) {
-                        case "add":
-                            result[action.field] = currentVal + changeVal;
-                            break;
-                        case "subtract":
-                            result[action.field] = currentVal - changeVal;
-                            break;
-                        case "multiply":
-                            result[action.field] = currentVal * changeVal;
-                            break;
-                        case "set":
-                            result[action.field] = changeVal;
-                            break;
-                    }
+        for (const declared of mod.then) {
+            let action = declared as UntypedAction;
+            const before = result[action.field];
+            if (action.expression !== undefined) {
+                const evaluated = evaluateExpression(action.expression, {
+                    fields: result,
+                    base: baseProduct,
+                    selection,
+                    context,
+                });
+                const value = evaluated.ok ? evaluated.value : undefined;
+                if (typeof value !== "number" && typeof value !== "string" && typeof value !== "boolean") {
+                    const error = evaluated.ok
+                        ? { message: `Expression must give a number, string or boolean, got ${value}`, position: 0 }
+                        : evaluated.error;
+                    steps.push({ ...step, status: "unsupported", action: declared, before, error });
+                    continue;
                 }
-                // Handle string operations (mostly append/set)
-                else if (typeof currentVal === "string") {
-                    switch (action.operation) {
-                        case "add":
-                            result[action.field] = currentVal + String(changeVal);
-                            break;
-                        case "set":
-                            result[action.field] = String(changeVal);
-                            break;
-                        // Subtract/Multiply don't make much sense for strings, ignoring for safety
-                    }
+                action = { ...action, value };
+            }
+            const traced = action as unknown as ModifierAction<TChild>;
+
+            if (broken.has(action.field)) {
+                steps.push({ ...step, status: "unsupported", action: traced, before });
+                continue;
+            }
+            if (exact.has(action.field)) {
+                let next = applyMoneyAction(exact.get(action.field)!, action, money!);
+                if (!next) {
+                    steps.push({ ...step, status: "unsupported", action: traced, before });
+                    continue;
                 }
-                // Fallback or initialization (if field was null/undefined)
-                else if (currentVal == null) {
-                    if (action.operation === "set" || action.operation === "add") {
-                        result[action.field] = changeVal;
-                    }
+                if ((money!.roundAt ?? "action") === "action") {
+                    next = roundDecimal(next, scale, money!.rounding);
                 }
+                exact.set(action.field, next);
+                result[action.field] = toFieldValue(next);
+                steps.push({ ...step, status: "applied", action: traced, before, after: result[action.field] });
+                continue;
+            }
+            const outcome = applyAction(before, action);
+            if (!outcome) {
+                steps.push({ ...step, status: "unsupported", action: traced, before });
+                continue;
             }
+            result[action.field] = outcome.value;
+            steps.push({ ...step, status: "applied", action: traced, before, after: outcome.value });
         }
+        if (mod.stop) stopped = true;
     }
+    roundMoneyFields();
+
+    return { result: result as TChild, steps };
+}
 
-    return result as TChild;
+/**
+ * Applies a list of modifiers to a base product configuration
+ * based on the user's current selection.
+ *
+ * Modifiers run in the order of `sortModifiers`, honoring `exclusive` and `stop`.
+ * Use `traceModifiers` to see what each modifier did.
+ *
+ * @param baseProduct The starting state of the product variant (e.g. base price)
+ * @param selection The current options selected by the user
+ * @param modifiers The list of rules to apply
+ * @param options Pass `money` to compute money fields exactly (see `MoneyModeOptions`)
+ *                and `context` for quantity breaks, price lists and promotions
+ */
+export function applyModifiers<TChild extends ChildVariant>(
+    baseProduct: TChild,
+    selection: VariantSelectionItem[],
+    modifiers: readonly VariantModifier<NoInfer<TChild>>[],
+    options: ApplyModifiersOptions = {}
+): TChild {
+    return traceModifiers(baseProduct, selection, modifiers, options).result;
 }
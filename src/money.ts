@@ -0,0 +1,208 @@
+/**
+ * How amounts are rounded to the money scale:
+ * - `half-up`: halves away from zero (2.345 -> 2.35, -2.345 -> -2.35)
+ * - `half-even`: halves to the even neighbour, a.k.a. banker's rounding (2.345 -> 2.34)
+ * - `floor`: towards negative infinity
+ * - `ceil`: towards positive infinity
+ */
+export type RoundingMode = "half-up" | "half-even" | "floor" | "ceil";
+
+export type MoneyOptions = {
+  /** ISO 4217 code, e.g. "EUR". Sets the default `scale` (2 for EUR, 0 for JPY, 3 for KWD...) */
+  currency?: string;
+  /** Number of decimal places amounts are rounded to. Defaults to the currency's, or 2. */
+  scale?: number;
+  /** Defaults to "half-up" */
+  rounding?: RoundingMode;
+};
+
+/** An exact decimal: `digits / 10^scale` */
+export type ExactDecimal = {
+  digits: bigint;
+  scale: number;
+};
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+const pow10 = (n: number): bigint => 10n ** BigInt(n);
+
+/**
+ * Parses a number or numeric string into an exact decimal. Numbers are read
+ * through their shortest string form, so 19.99 stays 19.99 (not 19.989999...).
+ * Throws a RangeError for values that aren't finite numbers.
+ */
+export function parseDecimal(value: number | string): ExactDecimal {
+  const text = typeof value === "number" ? String(value) : value.trim();
+  const match = DECIMAL_PATTERN.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    throw new RangeError(`Not a finite decimal: ${value}`);
+  }
+
+  const [, sign, int = "", frac = "", exp = "0"] = match;
+  let digits = BigInt(`${int}${frac}` || "0");
+  let scale = frac.length - Number(exp);
+  if (scale < 0) {
+    digits *= pow10(-scale);
+    scale = 0;
+  }
+  return { digits: sign === "-" ? -digits : digits, scale };
+}
+
+/** Divides `n` by a positive `d`, rounding the quotient with `mode` */
+function divideRounded(n: bigint, d: bigint, mode: RoundingMode): bigint {
+  const q = n / d;
+  const r = n % d;
+  if (r === 0n) return q;
+
+  const direction = n < 0n ? -1n : 1n;
+  switch (mode) {
+    case "floor":
+      return n < 0n ? q - 1n : q;
+    case "ceil":
+      return n > 0n ? q + 1n : q;
+    case "half-even": {
+      const twice = 2n * (r < 0n ? -r : r);
+      if (twice > d || (twice === d && q % 2n !== 0n)) return q + direction;
+      return q;
+    }
+    case "half-up":
+    default: {
+      const twice = 2n * (r < 0n ? -r : r);
+      return twice >= d ? q + direction : q;
+    }
+  }
+}
+
+/** Rounds (or pads) an exact decimal to `scale` places */
+export function roundDecimal(
+  value: ExactDecimal,
+  scale: number,
+  rounding: RoundingMode = "half-up"
+): ExactDecimal {
+  if (value.scale <= scale) {
+    return { digits: value.digits * pow10(scale - value.scale), scale };
+  }
+  return {
+    digits: divideRounded(value.digits, pow10(value.scale - scale), rounding),
+    scale,
+  };
+}
+
+/** Renders an exact decimal without exponent, e.g. "-0.05" */
+export function decimalToString(value: ExactDecimal): string {
+  const negative = value.digits < 0n;
+  const abs = (negative ? -value.digits : value.digits).toString();
+  if (value.scale === 0) return `${negative ? "-" : ""}${abs}`;
+
+  const padded = abs.padStart(value.scale + 1, "0");
+  const int = padded.slice(0, padded.length - value.scale);
+  const frac = padded.slice(padded.length - value.scale).replace(/0+$/, "");
+  return `${negative ? "-" : ""}${int}${frac ? `.${frac}` : ""}`;
+}
+
+/** The closest JS number to an exact decimal (exact for typical money amounts) */
+export function decimalToNumber(value: ExactDecimal): number {
+  return Number(decimalToString(value));
+}
+
+function alignScales(a: ExactDecimal, b: ExactDecimal): [bigint, bigint, number] {
+  const scale = Math.max(a.scale, b.scale);
+  return [
+    a.digits * pow10(scale - a.scale),
+    b.digits * pow10(scale - b.scale),
+    scale,
+  ];
+}
+
+export function addDecimals(a: ExactDecimal, b: ExactDecimal): ExactDecimal {
+  const [x, y, scale] = alignScales(a, b);
+  return { digits: x + y, scale };
+}
+
+export function multiplyDecimals(a: ExactDecimal, b: ExactDecimal): ExactDecimal {
+  return { digits: a.digits * b.digits, scale: a.scale + b.scale };
+}
+
+/**
+ * Rounds `value` to the nearest multiple of a positive `step` (e.g. 0.05 or 10).
+ * Returns undefined when `step` isn't positive.
+ */
+export function roundDecimalToStep(
+  value: ExactDecimal,
+  step: ExactDecimal,
+  rounding: RoundingMode = "half-up"
+): ExactDecimal | undefined {
+  const [x, y, scale] = alignScales(value, step);
+  if (y <= 0n) return undefined;
+  return { digits: divideRounded(x, y, rounding) * y, scale };
+}
+
+/**
+ * Returns the number of minor unit digits of a currency
+ * (2 for USD, 0 for JPY, 3 for KWD), or 2 if the runtime doesn't know it.
+ */
+export function getCurrencyScale(currency: string): number {
+  try {
+    return (
+      new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions()
+        .maximumFractionDigits ?? 2
+    );
+  } catch {
+    return 2;
+  }
+}
+
+/** The scale `options` resolve to */
+export function resolveMoneyScale(options: MoneyOptions = {}): number {
+  if (options.scale !== undefined) return options.scale;
+  return options.currency ? getCurrencyScale(options.currency) : 2;
+}
+
+/** Converts an amount to integer minor units, e.g. 19.99 -> 1999n */
+export function toMinorUnits(amount: number | string, options: MoneyOptions = {}): bigint {
+  const scale = resolveMoneyScale(options);
+  return roundDecimal(parseDecimal(amount), scale, options.rounding).digits;
+}
+
+/** Converts integer minor units back to an amount, e.g. 1999n -> 19.99 */
+export function fromMinorUnits(minor: bigint | number, options: MoneyOptions = {}): number {
+  return decimalToNumber({ digits: BigInt(minor), scale: resolveMoneyScale(options) });
+}
+
+/** Rounds an amount to the money scale without float noise, e.g. 23.988 -> 23.99 */
+export function roundMoney(amount: number | string, options: MoneyOptions = {}): number {
+  return decimalToNumber(
+    roundDecimal(parseDecimal(amount), resolveMoneyScale(options), options.rounding)
+  );
+}
+
+export type FormatMoneyOptions = MoneyOptions & {
+  /** BCP 47 locale, e.g. "de-DE". Defaults to the runtime's locale. */
+  locale?: string;
+  /** If "minor", `amount` is given in integer minor units */
+  unit?: "major" | "minor";
+};
+
+/**
+ * Formats an amount for display in its currency, e.g. formatMoney(1350, "USD") -> "$1,350.00".
+ * The amount is rounded to the money scale first.
+ */
+export function formatMoney(
+  amount: number | string | bigint,
+  currency: string,
+  options: FormatMoneyOptions = {}
+): string {
+  const { locale, unit = "major", ...money } = options;
+  const scale = resolveMoneyScale({ currency, ...money });
+  const exact =
+    unit === "minor"
+      ? { digits: BigInt(amount), scale }
+      : roundDecimal(parseDecimal(String(amount)), scale, money.rounding);
+
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency,
+    minimumFractionDigits: scale,
+    maximumFractionDigits: scale,
+  }).format(decimalToNumber(exact));
+}
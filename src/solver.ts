@@ -0,0 +1,199 @@
+import type { VariantOption, VariantSelectionItem, VariantType } from "./index";
+import { getSelectionChoices, selectedOptionIndices, toSelectionIndex, toSelectionItem } from "./index";
+import { validateSelection } from "./constraints";
+import type { EvaluationContext, VariantConstraint } from "./constraints";
+import { compileConstraints } from "./compiler";
+
+export type TypeDomain = {
+  /** 0-based index into `variantTypes` */
+  typeIndex: number;
+  /** `variantTypes[typeIndex].value` */
+  typeValue: string;
+  /** Options that take part in at least one fully valid combination */
+  options: VariantOption[];
+  /** Options removed because no valid completion contains them */
+  pruned: VariantOption[];
+  /**
+   * Selection indices (see `VariantSelectionMode`) that take part in at least
+   * one valid combination: 0 when an optional or multi-select type may stay
+   * empty, bitmasks for multi-select types
+   */
+  selections: number[];
+};
+
+export type PropagationResult = {
+  /** One entry per variant type, in `variantTypes` order */
+  domains: TypeDomain[];
+  /** True when the selection can be completed to at least one valid combination */
+  satisfiable: boolean;
+  /** Type values no valid combination is left for ("no valid size left") */
+  deadEnds: string[];
+  /** IDs of constraints already violated by the selection itself (types not picked yet count as pending) */
+  blockedBy: string[];
+};
+
+export type PropagateConstraintsOptions = {
+  /** Values `ContextCondition`s test, e.g. the sales channel */
+  context?: EvaluationContext;
+};
+
+/**
+ * Prunes every type's options down to the ones that are part of at least one
+ * complete, valid combination extending `selection`.
+ *
+ * Types already present in `selection` are fixed to their selected option(s).
+ * The others range over every selection their mode allows, so optional and
+ * multi-select types may also stay empty or take several options.
+ * Selection items for types outside `variantTypes` are kept as-is, so they can
+ * still trigger constraints. When no valid completion exists every domain is empty.
+ */
+export function propagateConstraints(
+  variantTypes: readonly VariantType[],
+  selection: VariantSelectionItem[],
+  constraints: VariantConstraint[],
+  options: PropagateConstraintsOptions = {}
+): PropagationResult {
+  const { context } = options;
+  const typeCount = variantTypes.length;
+  const external = selection.filter(
+    (s) => !variantTypes.some((t) => t.value === s.typeValue)
+  );
+
+  // Selection indices per type; a picked type keeps its own selection if its mode allows it
+  const initialDomains = variantTypes.map((t) => {
+    const all = getSelectionChoices(t);
+    const picked = selection
+      .filter((s) => s.typeValue === t.value)
+      .map((s) => t.variantOptions.findIndex((o) => o.value === s.optionValue) + 1);
+    if (picked.length === 0) return all;
+    if (picked.includes(0)) return [];
+    const idx = toSelectionIndex(t, picked);
+    return all.filter((choice) => choice === idx);
+  });
+
+  // Selection index per type, -1 while unassigned
+  const assignment: number[] = new Array(typeCount).fill(-1);
+
+  const toSelection = (): VariantSelectionItem[] => {
+    const items = [...external];
+    for (let ti = 0; ti < typeCount; ti++) {
+      const idx = assignment[ti];
+      if (idx < 0) continue;
+      for (const oi of selectedOptionIndices(variantTypes[ti], idx)) {
+        items.push(toSelectionItem(variantTypes[ti], ti, oi));
+      }
+    }
+    return items;
+  };
+
+  const pendingTypes = () => {
+    const pending = new Set<string>();
+    variantTypes.forEach((t, ti) => {
+      if (assignment[ti] >= 0) return;
+      pending.add(t.value);
+      if (t.id !== undefined) pending.add(t.id);
+    });
+    return pending;
+  };
+
+  // Unassigned types are pending, not unselected: a constraint only prunes
+  // once it is violated however they get filled in. Selections touching
+  // unknown types need the generic evaluator. `validatePartial` reads 0 as
+  // pending too, so a type assigned "nothing" is only checked exactly once
+  // every type is assigned.
+  const compiled = compileConstraints(variantTypes, constraints, { context });
+  const isConsistent = () => {
+    if (external.length > 0) {
+      return validateSelection(toSelection(), constraints, { pendingTypes: pendingTypes(), context }).valid;
+    }
+    return assignment.every((idx) => idx >= 0)
+      ? compiled.validateIndices(assignment).valid
+      : compiled.validatePartial(assignment.map((idx) => Math.max(idx, 0))).valid;
+  };
+
+  // Removes values of unassigned types that conflict with the current
+  // assignment. Returns null as soon as any domain is wiped out.
+  const forwardCheck = (domains: number[][]): number[][] | null => {
+    const next: number[][] = [];
+    for (let ti = 0; ti < typeCount; ti++) {
+      if (assignment[ti] >= 0) {
+        next.push([assignment[ti]]);
+        continue;
+      }
+      const kept = domains[ti].filter((idx) => {
+        assignment[ti] = idx;
+        const ok = isConsistent();
+        assignment[ti] = -1;
+        return ok;
+      });
+      if (kept.length === 0) return null;
+      next.push(kept);
+    }
+    return next;
+  };
+
+  const solve = (domains: number[][]): number[] | null => {
+    // Branch on the unassigned type with the fewest remaining options.
+    let pick = -1;
+    for (let ti = 0; ti < typeCount; ti++) {
+      if (assignment[ti] >= 0) continue;
+      if (pick < 0 || domains[ti].length < domains[pick].length) pick = ti;
+    }
+    if (pick < 0) return assignment.slice();
+
+    for (const idx of domains[pick]) {
+      assignment[pick] = idx;
+      const pruned = isConsistent() ? forwardCheck(domains) : null;
+      const solution = pruned ? solve(pruned) : null;
+      if (solution) {
+        assignment[pick] = -1;
+        return solution;
+      }
+    }
+    assignment[pick] = -1;
+    return null;
+  };
+
+  const supported = variantTypes.map(() => new Set<number>());
+
+  for (let ti = 0; ti < typeCount; ti++) {
+    for (const idx of initialDomains[ti]) {
+      if (supported[ti].has(idx)) continue;
+
+      assignment[ti] = idx;
+      const pruned = isConsistent() ? forwardCheck(initialDomains) : null;
+      const solution = pruned ? solve(pruned) : null;
+      assignment[ti] = -1;
+
+      // Every value in a solution is supported, which saves most searches.
+      if (solution) solution.forEach((v, i) => supported[i].add(v));
+    }
+  }
+
+  const domains: TypeDomain[] = variantTypes.map((t, ti) => {
+    const selections = initialDomains[ti].filter((idx) => supported[ti].has(idx));
+    const reachable = new Set(selections.flatMap((idx) => selectedOptionIndices(t, idx)));
+    const options: VariantOption[] = [];
+    const pruned: VariantOption[] = [];
+    (t.variantOptions ?? []).forEach((o, oi) => {
+      (reachable.has(oi + 1) ? options : pruned).push(o);
+    });
+    return { typeIndex: ti, typeValue: t.value, options, pruned, selections };
+  });
+
+  const deadEnds = domains
+    .filter((d) => d.selections.length === 0)
+    .map((d) => d.typeValue);
+
+  // Types nobody has picked yet are pending, so requirements on them don't block yet.
+  const unpicked = new Set(
+    variantTypes
+      .filter((t) => !selection.some((s) => s.typeValue === t.value))
+      .flatMap((t) => (t.id === undefined ? [t.value] : [t.value, t.id]))
+  );
+  const { blockedBy } = validateSelection(selection, constraints, { context, pendingTypes: unpicked });
+  const satisfiable =
+    typeCount === 0 ? blockedBy.length === 0 : deadEnds.length === 0;
+
+  return { domains, satisfiable, deadEnds, blockedBy };
+}
@@ -0,0 +1,209 @@
+import type { ChildVariant, VariantSelectionItem, VariantType } from "./index";
+import { getSelectionChoices, getSelectionMode, selectedOptionIndices, toSelectionIndex, toSelectionItem, variantIndicesToSelection } from "./index";
+import type { EvaluationContext, VariantConstraint } from "./constraints";
+import { compileConstraints } from "./compiler";
+import { propagateConstraints } from "./solver";
+import { applyModifiers } from "./modifiers";
+import type { MoneyModeOptions, VariantModifier } from "./modifiers";
+import { createVariantKeyCodec } from "./keys";
+import type { VariantKeyFormat } from "./keys";
+
+/** The option of a type, or the options of a multi-select type */
+export type SelectionValue = string | string[];
+
+export type SelectionChange = {
+  typeValue: string;
+  /** The option(s) that were picked */
+  from: SelectionValue;
+  /** The option(s) the suggestion picks instead; undefined when it leaves an optional type empty */
+  to?: SelectionValue;
+};
+
+export type ValidCombinationSuggestion<TChild extends ChildVariant = ChildVariant> = {
+  variantKey: string;
+  /**
+   * Option value per type value; option values for multi-select types.
+   * Optional types left empty are left out.
+   */
+  values: Record<string, SelectionValue>;
+  /** The complete selection, in `variantTypes` order */
+  selection: VariantSelectionItem[];
+  /** Picks that change. Types that weren't picked are filled in and don't count as changes. */
+  changes: SelectionChange[];
+  /** The matching child (or `baseProduct`) with modifiers applied */
+  child: TChild;
+  /** `child.cost` */
+  price?: number | null;
+  /** False when `child.stock` is 0 or less; undefined when the stock is unknown */
+  inStock?: boolean;
+};
+
+export type SuggestValidCombinationsOptions<TChild extends ChildVariant = ChildVariant> =
+  VariantKeyFormat & {
+    /**
+     * Type values in the order they were picked, oldest first. Defaults to the
+     * order of `selection`. Changing recent picks is preferred over older ones.
+     */
+    pickOrder?: readonly string[];
+    /** What modifiers are applied to for the price. Defaults to `{ variantKey }`. */
+    baseProduct?: TChild;
+    /** Existing children, for their stock and price */
+    children?: readonly TChild[];
+    modifiers?: readonly VariantModifier<NoInfer<TChild>>[];
+    context?: EvaluationContext;
+    money?: MoneyModeOptions;
+    /**
+     * Ranks suggestions with the same number of changes, lower first. Replaces
+     * the default order: recent picks changed, in stock, cheaper.
+     */
+    cost?: (suggestion: ValidCombinationSuggestion<TChild>) => number;
+    /** Maximum number of suggestions. Defaults to 5. */
+    limit?: number;
+    /** Maximum number of valid combinations compared. Defaults to 1000. */
+    maxCandidates?: number;
+  };
+
+function* combinations<T>(items: readonly T[], size: number, start = 0): Generator<T[]> {
+  if (size === 0) {
+    yield [];
+    return;
+  }
+  for (let i = start; i <= items.length - size; i++) {
+    for (const rest of combinations(items, size - 1, i + 1)) yield [items[i], ...rest];
+  }
+}
+
+/**
+ * Returns the valid complete combinations closest to `selection`, which may be
+ * partial and may already break constraints: only combinations with the fewest
+ * changed picks are returned, ranked by `options.cost` (see
+ * `SuggestValidCombinationsOptions`). Empty when no valid combination exists.
+ *
+ * Selection items of types outside `variantTypes` are ignored.
+ */
+export function suggestValidCombinations<TChild extends ChildVariant = ChildVariant>(
+  variantTypes: readonly VariantType[],
+  selection: VariantSelectionItem[],
+  constraints: VariantConstraint[],
+  options: SuggestValidCombinationsOptions<TChild> = {}
+): ValidCombinationSuggestion<TChild>[] {
+  const {
+    pickOrder = selection.map((s) => s.typeValue),
+    baseProduct,
+    children = [],
+    modifiers = [],
+    context,
+    money,
+    cost,
+    limit = 5,
+    maxCandidates = 1000,
+  } = options;
+  const typeCount = variantTypes.length;
+  if (typeCount === 0 || variantTypes.some((t) => !t.variantOptions?.length)) return [];
+
+  // Selection index picked per type (see `VariantSelectionMode`), undefined when not picked
+  const picked = variantTypes.map((t) => {
+    const indices = selection
+      .filter((s) => s.typeValue === t.value)
+      .map((s) => t.variantOptions.findIndex((o) => o.value === s.optionValue) + 1)
+      .filter((oi) => oi > 0);
+    return indices.length > 0 ? toSelectionIndex(t, indices) : undefined;
+  });
+  const pickedTypes = picked.flatMap((idx, ti) => (idx === undefined ? [] : [ti]));
+  const choices = variantTypes.map(getSelectionChoices);
+
+  const toItems = (ti: number, idx: number) =>
+    selectedOptionIndices(variantTypes[ti], idx).map((oi) => toSelectionItem(variantTypes[ti], ti, oi));
+  // What a type's selection shows as in `values` and `changes`
+  const describe = (ti: number, idx: number): SelectionValue | undefined => {
+    const values = toItems(ti, idx).map((s) => s.optionValue);
+    return getSelectionMode(variantTypes[ti]) === "multi" ? values : values[0];
+  };
+
+  const validator = compileConstraints(variantTypes, constraints, { context });
+  const codec = createVariantKeyCodec(variantTypes, options);
+  const childByKey = new Map(children.map((c) => [c.variantKey, c]));
+
+  // Valid combinations that change exactly the picks in `changed`
+  const found: number[][] = [];
+  const collect = (changed: ReadonlySet<number>) => {
+    const fixed = pickedTypes.filter((ti) => !changed.has(ti)).flatMap((ti) => toItems(ti, picked[ti]!));
+    if (!propagateConstraints(variantTypes, fixed, constraints, { context }).satisfiable) return;
+
+    const domains = variantTypes.map((_, ti) => {
+      if (changed.has(ti)) return choices[ti].filter((idx) => idx !== picked[ti]);
+      return picked[ti] === undefined ? choices[ti] : [picked[ti]!];
+    });
+
+    // 0 reads as pending until the last type, where `validateIndices` checks it as empty
+    const current: number[] = new Array(typeCount).fill(0);
+    const visit = (depth: number) => {
+      for (const idx of domains[depth]) {
+        if (found.length >= maxCandidates) return;
+        current[depth] = idx;
+        const last = depth === typeCount - 1;
+        const check = last ? validator.validateIndices : validator.validatePartial;
+        if (!check(current).valid) continue;
+        if (!last) visit(depth + 1);
+        else found.push(current.slice());
+      }
+      current[depth] = 0;
+    };
+    visit(0);
+  };
+
+  for (let k = 0; k <= pickedTypes.length && found.length === 0; k++) {
+    for (const subset of combinations(pickedTypes, k)) {
+      collect(new Set(subset));
+      if (found.length >= maxCandidates) break;
+    }
+  }
+
+  const age = (typeValue: string) => {
+    const i = pickOrder.lastIndexOf(typeValue);
+    return i < 0 ? pickOrder.length : pickOrder.length - 1 - i;
+  };
+
+  const suggestions = found.map((indices): ValidCombinationSuggestion<TChild> => {
+    const items = variantIndicesToSelection(indices, variantTypes);
+    const variantKey = codec.format(indices);
+    const resolved = childByKey.get(variantKey) ?? ({ ...baseProduct, variantKey } as TChild);
+    const child = applyModifiers(resolved, items, modifiers, { context, money });
+    const values: Record<string, SelectionValue> = {};
+    indices.forEach((idx, ti) => {
+      const value = describe(ti, idx);
+      if (value !== undefined) values[variantTypes[ti].value] = value;
+    });
+    return {
+      variantKey,
+      values,
+      selection: items,
+      changes: pickedTypes
+        .filter((ti) => indices[ti] !== picked[ti])
+        .map((ti) => ({
+          typeValue: variantTypes[ti].value,
+          from: describe(ti, picked[ti]!)!,
+          to: describe(ti, indices[ti]),
+        })),
+      child,
+      price: child.cost,
+      inStock: child.stock == null ? undefined : child.stock > 0,
+    };
+  });
+
+  const changeAge = (s: ValidCombinationSuggestion<TChild>) =>
+    s.changes.reduce((sum, c) => sum + age(c.typeValue), 0);
+  const compareDefault = (a: ValidCombinationSuggestion<TChild>, b: ValidCombinationSuggestion<TChild>) =>
+    changeAge(a) - changeAge(b) ||
+    Number(a.inStock === false) - Number(b.inStock === false) ||
+    (typeof a.price === "number" && typeof b.price === "number" ? a.price - b.price : 0);
+
+  // Array#sort is stable, so ties keep enumeration (variantKey) order.
+  const ranked = cost
+    ? suggestions
+        .map((s) => ({ s, c: cost(s) }))
+        .sort((a, b) => a.c - b.c)
+        .map(({ s }) => s)
+    : suggestions.sort(compareDefault);
+  return ranked.slice(0, Math.max(0, limit));
+}
@@ -0,0 +1,406 @@
+import type { ChildVariant, VariantOption, VariantType } from "./index";
+import { getSelectionMode, MULTI_SELECT_LABEL_SEPARATOR, selectedOptionIndices } from "./index";
+import { createVariantKeyCodec } from "./keys";
+import type { VariantKeyFormat } from "./keys";
+
+/**
+ * Changes applied to a placeholder value, left to right:
+ * - `upper`/`lower`: case
+ * - `slug`: lower case, runs of other characters than a-z/0-9 become "-" ("Space Gray" -> "space-gray")
+ * - `truncate(n)`: the first n characters
+ */
+export type VariantTemplateTransform = "upper" | "lower" | "slug" | `truncate(${number})`;
+
+/**
+ * How `applyVariantTemplates` makes generated SKUs unique:
+ * - `suffix`: appends "-2", "-3"... in generation order
+ * - `hash`: appends a short hash of the `variantKey`, which stays the same when children are added or reordered;
+ *   when that SKU is taken as well, the hash is taken again with a counter until it's unique
+ * - `report`: keeps duplicates; they are only listed in `duplicates`
+ */
+export type SkuCollisionStrategy = "suffix" | "hash" | "report";
+
+/**
+ * SKU and title templates of a product, e.g.
+ * `{ sku: "{product}-{Color:code}-{Size:upper}", title: "{product} {label}" }`.
+ *
+ * Placeholders are `{name}` or `{name:part:part...}`, where `name` is
+ * - a variant type `value`: the selected option value. The first part may pick
+ *   `code` (falls back to the value), `label`, `id`, `value` or an attribute instead.
+ *   Several options of a multi-select type are joined with "+" ("CS+ST"); an
+ *   optional type with nothing selected renders as "".
+ * - a key of `variables`, e.g. `{product}`
+ * - `label`: the `variantKeyToLabel` label ("Red - M"), or `variantKey`
+ *
+ * Other parts are transforms (see `VariantTemplateTransform`). Write `{{`/`}}` for literal braces.
+ */
+export type VariantTemplates = {
+  sku?: string;
+  title?: string;
+  /** Values for placeholders that aren't variant types, e.g. `{ product: "TSHIRT" }` */
+  variables?: Record<string, string | number>;
+  /** Defaults to "suffix" */
+  onDuplicateSku?: SkuCollisionStrategy;
+  /** SKUs already used elsewhere (e.g. by other products) that generated SKUs must avoid */
+  reservedSkus?: Iterable<string>;
+  /** Replace SKUs/titles children already have (default: only fill in empty ones) */
+  overwrite?: boolean;
+  /** Separator for `{label}`. Defaults to " - ". */
+  labelSeparator?: string;
+};
+
+export type ApplyVariantTemplatesOptions = VariantKeyFormat;
+
+/** Joins the values of the options a multi-select type has selected */
+const MULTI_SELECT_VALUE_SEPARATOR = "+";
+
+export type VariantTemplateError = {
+  message: string;
+  /** 0-based offset into the template */
+  position: number;
+};
+
+export type DuplicateSku = {
+  sku: string;
+  /** Children sharing the SKU, in order */
+  variantKeys: string[];
+};
+
+export type SkuRename = {
+  variantKey: string;
+  /** What the template produced */
+  sku: string;
+  /** What the child got instead */
+  resolvedSku: string;
+};
+
+export type ApplyVariantTemplatesResult<TChild extends ChildVariant> = {
+  children: TChild[];
+  /** Generated SKUs that were changed to make them unique */
+  renamed: SkuRename[];
+  /** SKUs that are still shared by several children (or clash with `reservedSkus`) */
+  duplicates: DuplicateSku[];
+};
+
+type Placeholder = {
+  name: string;
+  property?: string;
+  transforms: VariantTemplateTransform[];
+  position: number;
+};
+
+type TemplatePart = string | Placeholder;
+
+const OPTION_PROPERTIES = ["code", "label", "id", "value"];
+
+function parseTransform(part: string): VariantTemplateTransform | undefined {
+  if (part === "upper" || part === "lower" || part === "slug") return part;
+  const match = /^truncate\((\d+)\)$/.exec(part);
+  return match ? `truncate(${Number(match[1])})` : undefined;
+}
+
+function parseTemplate(
+  template: string
+): { parts: TemplatePart[] } | { error: VariantTemplateError } {
+  const parts: TemplatePart[] = [];
+  let text = "";
+  let i = 0;
+  while (i < template.length) {
+    if (template.startsWith("{{", i) || template.startsWith("}}", i)) {
+      text += template[i];
+      i += 2;
+      continue;
+    }
+    if (template[i] === "}") {
+      return { error: { message: "Unexpected '}' (write '}}' for a literal brace)", position: i } };
+    }
+    if (template[i] !== "{") {
+      text += template[i++];
+      continue;
+    }
+
+    const end = template.indexOf("}", i);
+    if (end < 0) return { error: { message: "Missing '}' after '{'", position: i } };
+    const [name, ...rest] = template.slice(i + 1, end).split(":").map((s) => s.trim());
+    if (!name) return { error: { message: "Expected a name inside { }", position: i } };
+
+    const placeholder: Placeholder = { name, transforms: [], position: i };
+    for (const [pi, part] of rest.entries()) {
+      const transform = parseTransform(part);
+      if (transform) {
+        placeholder.transforms.push(transform);
+      } else if (pi === 0 && part) {
+        placeholder.property = part;
+      } else {
+        return { error: { message: `Unknown transform '${part}'`, position: i } };
+      }
+    }
+    if (text) parts.push(text);
+    text = "";
+    parts.push(placeholder);
+    i = end + 1;
+  }
+  if (text) parts.push(text);
+  return { parts };
+}
+
+function applyTransform(value: string, transform: VariantTemplateTransform): string {
+  switch (transform) {
+    case "upper":
+      return value.toUpperCase();
+    case "lower":
+      return value.toLowerCase();
+    case "slug":
+      return value
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "");
+    default:
+      return value.slice(0, Number(/\d+/.exec(transform)![0]));
+  }
+}
+
+function optionProperty(option: VariantOption, property: string | undefined): string {
+  switch (property) {
+    case undefined:
+    case "value":
+      return option.value;
+    case "code":
+      return option.code ?? option.value;
+    case "label":
+      return option.label ?? option.value;
+    case "id":
+      return option.id ?? "";
+    default: {
+      const attribute = option.attributes?.[property];
+      return attribute === undefined ? "" : String(attribute);
+    }
+  }
+}
+
+type RenderContext = {
+  variantKey: string;
+  indices: readonly number[];
+  variantTypes: readonly VariantType[];
+  variables: Record<string, string | number>;
+  labelSeparator: string;
+};
+
+function render(parts: readonly TemplatePart[], context: RenderContext): string {
+  const { variantKey, indices, variantTypes, variables, labelSeparator } = context;
+  // Selected options per type: several for multi-select types, none for optional ones left empty
+  const options = variantTypes.map((t, ti): (VariantOption | undefined)[] =>
+    getSelectionMode(t) === "single"
+      ? [t.variantOptions?.[(indices[ti] ?? 0) - 1]]
+      : selectedOptionIndices(t, indices[ti] ?? 0).map((oi) => t.variantOptions[oi - 1])
+  );
+
+  return parts
+    .map((part) => {
+      if (typeof part === "string") return part;
+
+      let value: string;
+      const typeIndex = variantTypes.findIndex((t) => t.value === part.name);
+      if (typeIndex >= 0) {
+        value = options[typeIndex]
+          .map((option) => (option ? optionProperty(option, part.property) : ""))
+          .join(MULTI_SELECT_VALUE_SEPARATOR);
+      } else if (Object.prototype.hasOwnProperty.call(variables, part.name)) {
+        value = String(variables[part.name]);
+      } else if (part.name === "label") {
+        value = options
+          .filter((selected, ti) => selected.length > 0 || getSelectionMode(variantTypes[ti]) === "single")
+          .map((selected) =>
+            selected.map((o) => o?.label ?? o?.value ?? "").join(MULTI_SELECT_LABEL_SEPARATOR)
+          )
+          .join(labelSeparator);
+      } else if (part.name === "variantKey") {
+        value = variantKey;
+      } else {
+        value = "";
+      }
+      return part.transforms.reduce(applyTransform, value);
+    })
+    .join("");
+}
+
+/**
+ * Checks a template against the variant types and variables it will be rendered with.
+ * Returns syntax errors, unknown placeholders and option properties that
+ * only apply to variant types.
+ */
+export function validateVariantTemplate(
+  template: string,
+  variantTypes: readonly VariantType[],
+  variables: Record<string, string | number> = {}
+): VariantTemplateError[] {
+  const parsed = parseTemplate(template);
+  if ("error" in parsed) return [parsed.error];
+
+  const errors: VariantTemplateError[] = [];
+  for (const part of parsed.parts) {
+    if (typeof part === "string") continue;
+    const variantType = variantTypes.find((t) => t.value === part.name);
+    if (variantType) {
+      const known =
+        part.property === undefined ||
+        OPTION_PROPERTIES.includes(part.property) ||
+        variantType.variantOptions.some((o) => o.attributes?.[part.property!] !== undefined);
+      if (!known) {
+        errors.push({
+          message: `No option of "${part.name}" has an attribute "${part.property}"`,
+          position: part.position,
+        });
+      }
+    } else if (
+      !Object.prototype.hasOwnProperty.call(variables, part.name) &&
+      part.name !== "label" &&
+      part.name !== "variantKey"
+    ) {
+      errors.push({ message: `Unknown placeholder "${part.name}"`, position: part.position });
+    } else if (part.property !== undefined) {
+      errors.push({
+        message: `"${part.name}" is not a variant type and has no "${part.property}"`,
+        position: part.position,
+      });
+    }
+  }
+  return errors;
+}
+
+/**
+ * Renders a template for one `variantKey`. Unknown placeholders render as "".
+ * Throws a SyntaxError for malformed templates (see `validateVariantTemplate`).
+ */
+export function renderVariantTemplate(
+  template: string,
+  variantKey: string,
+  variantTypes: readonly VariantType[],
+  options: ApplyVariantTemplatesOptions &
+    Pick<VariantTemplates, "variables" | "labelSeparator"> = {}
+): string {
+  const { variables = {}, labelSeparator = " - ", ...format } = options;
+  const parsed = parseTemplate(template);
+  if ("error" in parsed) {
+    throw new SyntaxError(`${parsed.error.message} at position ${parsed.error.position}`);
+  }
+  const codec = createVariantKeyCodec(variantTypes, format);
+  return render(parsed.parts, {
+    variantKey,
+    indices: codec.parse(variantKey),
+    variantTypes,
+    variables,
+    labelSeparator,
+  });
+}
+
+/** Lists SKUs used by more than one child (empty SKUs are ignored) */
+export function findDuplicateSkus(children: readonly ChildVariant[]): DuplicateSku[] {
+  const bySku = new Map<string, string[]>();
+  for (const child of children) {
+    if (!child.sku) continue;
+    const keys = bySku.get(child.sku);
+    if (keys) keys.push(child.variantKey);
+    else bySku.set(child.sku, [child.variantKey]);
+  }
+  return [...bySku.entries()]
+    .filter(([, variantKeys]) => variantKeys.length > 1)
+    .map(([sku, variantKeys]) => ({ sku, variantKeys }));
+}
+
+/** FNV-1a (32 bit) of the variantKey as 4 hex digits */
+function shortHash(value: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0").slice(0, 4).toUpperCase();
+}
+
+/**
+ * Fills in `sku`/`title` of children from the product's templates and makes
+ * generated SKUs unique across all children (and `reservedSkus`).
+ * SKUs children already have are kept (unless `overwrite`) and take precedence.
+ * Throws a SyntaxError for malformed templates (see `validateVariantTemplate`).
+ */
+export function applyVariantTemplates<TChild extends ChildVariant>(
+  children: readonly TChild[],
+  variantTypes: readonly VariantType[],
+  templates: VariantTemplates,
+  options: ApplyVariantTemplatesOptions = {}
+): ApplyVariantTemplatesResult<TChild> {
+  const {
+    variables = {},
+    onDuplicateSku = "suffix",
+    reservedSkus = [],
+    overwrite = false,
+    labelSeparator = " - ",
+  } = templates;
+  const compile = (template: string | undefined) => {
+    if (template === undefined) return undefined;
+    const parsed = parseTemplate(template);
+    if ("error" in parsed) {
+      throw new SyntaxError(`${parsed.error.message} at position ${parsed.error.position}`);
+    }
+    return parsed.parts;
+  };
+  const skuParts = compile(templates.sku);
+  const titleParts = compile(templates.title);
+  const codec = createVariantKeyCodec(variantTypes, options);
+
+  const reserved = new Set(reservedSkus);
+  const generateSku = (child: TChild) => !!skuParts && (overwrite || !child.sku);
+  // Kept SKUs are claimed first, so generated ones never take them over.
+  const used = new Set<string>();
+  for (const child of children) {
+    if (!generateSku(child) && child.sku) used.add(child.sku);
+  }
+
+  const renamed: SkuRename[] = [];
+  const result = children.map((child) => {
+    const context: RenderContext = {
+      variantKey: child.variantKey,
+      indices: codec.parse(child.variantKey),
+      variantTypes,
+      variables,
+      labelSeparator,
+    };
+    const next: TChild = { ...child };
+    if (titleParts && (overwrite || !child.title)) {
+      next.title = render(titleParts, context);
+    }
+    if (generateSku(child)) {
+      const sku = render(skuParts!, context);
+      let resolvedSku = sku;
+      const taken = (s: string) => used.has(s) || reserved.has(s);
+      if (onDuplicateSku === "suffix") {
+        for (let n = 2; taken(resolvedSku); n++) resolvedSku = `${sku}-${n}`;
+      } else if (onDuplicateSku === "hash") {
+        for (let n = 1; taken(resolvedSku); n++) {
+          resolvedSku = `${sku}-${shortHash(n === 1 ? child.variantKey : `${child.variantKey}#${n}`)}`;
+        }
+      }
+      if (resolvedSku !== sku) renamed.push({ variantKey: child.variantKey, sku, resolvedSku });
+      used.add(resolvedSku);
+      next.sku = resolvedSku;
+    }
+    return next;
+  });
+
+  const duplicates = findDuplicateSkus(result);
+  const listed = new Set(duplicates.map((d) => d.sku));
+  for (const child of result) {
+    if (child.sku && reserved.has(child.sku) && !listed.has(child.sku)) {
+      listed.add(child.sku);
+      duplicates.push({
+        sku: child.sku,
+        variantKeys: result.filter((c) => c.sku === child.sku).map((c) => c.variantKey),
+      });
+    }
+  }
+
+  return { children: result, renamed, duplicates };
+}